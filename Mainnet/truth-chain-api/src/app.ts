@@ -4,8 +4,8 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import path from 'path';
-import apiRoutes from './routes/index';
-import { globalLimiter } from './middleware/rateLimiter';
+import apiRoutes, { blockchainService } from './routes/index';
+import { globalLimiter, parseTrustProxy } from './middleware/rateLimiter';
 
 // Load environment variables
 dotenv.config();
@@ -14,11 +14,21 @@ dotenv.config();
 import { DatabaseService } from '../../shared/services/DatabaseService';
 import { IPFSService } from '../../shared/services/IPFSService';
 import { startBNSValidationCron, stopBNSValidationCron } from './jobs/bnsValidationCron';
+import { startRegistrationReconcilerCron, stopRegistrationReconcilerCron } from './jobs/registrationReconcilerCron';
+import { startContractBackfillCron, stopContractBackfillCron } from './jobs/contractBackfillCron';
+import { startFinalityCron, stopFinalityCron } from './jobs/finalityCron';
+import { startChainIndexerCron, stopChainIndexerCron } from './jobs/chainIndexerCron';
+import { startBatchAnchorCron, stopBatchAnchorCron } from './jobs/batchAnchorCron';
+import { ContractRegistry } from './services/ContractRegistry';
 
 // Create Express app
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Only trust X-Forwarded-For from our own reverse proxy, so req.ip (used for
+// rate limiting) is the real client address and can't be spoofed
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
 // Middleware
 app.use(helmet()); // Security headers
 
@@ -56,7 +66,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-Client-Type', 'X-Client-Version']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-Client-Type', 'X-Client-Version', 'X-API-Key']
 }));
 
 app.use(morgan('combined')); // Request logging
@@ -86,13 +96,19 @@ app.get('/', (_req: express.Request, res: express.Response) => {
       // Development/Testing Endpoints (with senderKey)
       register: 'POST /api/register',
       checkRegistration: 'POST /api/check-registration',
+      hash: 'POST /api/hash',
       // Secure Frontend Endpoints (no senderKey)
       secureRegister: 'POST /api/secure/register',
+      fileRegister: 'POST /api/secure/register/file',
+      sponsoredRegister: 'POST /api/secure/register/sponsored',
+      batchedRegister: 'POST /api/secure/register/batched',
+      threadRegister: 'POST /api/secure/register/thread',
       confirmRegistration: 'POST /api/secure/confirm-registration',
       // Verification Endpoints
       verify: 'POST /api/verify',
       quickVerify: 'GET /api/verify/:hash',
-      batchVerify: 'POST /api/verify/batch'
+      batchVerify: 'POST /api/verify/batch',
+      excerptVerify: 'POST /api/verify/excerpt'
     },
   });
 });
@@ -175,11 +191,31 @@ async function startServer() {
     console.log('⏰ Starting BNS validation cron job...');
     startBNSValidationCron();
 
+    // Settle pending registrations whose transaction has been mined or dropped
+    console.log('⏰ Starting registration reconciler cron job...');
+    startRegistrationReconcilerCron(blockchainService);
+
+    // Record the source contract on registrations confirmed before it was stored
+    console.log('⏰ Starting contract backfill job...');
+    startContractBackfillCron(blockchainService);
+
+    // Track confirmation depth and catch registrations dropped by a reorg
+    console.log('⏰ Starting finality cron job...');
+    startFinalityCron(blockchainService);
+
+    // Copy registrations made directly against the contracts into MongoDB
+    console.log('⏰ Starting chain indexer cron job...');
+    startChainIndexerCron(blockchainService);
+
+    // Register Merkle roots for hashes queued through /api/secure/register/batched
+    console.log('⏰ Starting batch anchor cron job...');
+    startBatchAnchorCron(blockchainService);
+
     // Start Express server
     app.listen(PORT, () => {
       console.log('\n✅ TruthChain Mainnet API started successfully!\n');
       console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
-      console.log(`🔗 Network: ${process.env.NETWORK || 'mainnet'}`);
+      console.log(`🔗 Network: ${ContractRegistry.getNetwork()}`);
       console.log(`🚀 Server: http://localhost:${PORT}`);
       console.log(`❤️  Health: http://localhost:${PORT}/api/health`);
       console.log(`📖 Docs: http://localhost:${PORT}/`);
@@ -193,6 +229,11 @@ async function startServer() {
       try {
         // CHECKPOINT 7: Stop BNS validation cron job
         stopBNSValidationCron();
+        stopRegistrationReconcilerCron();
+        stopContractBackfillCron();
+        stopFinalityCron();
+        stopChainIndexerCron();
+        stopBatchAnchorCron();
         await dbService.disconnect();
         console.log('✅ Database disconnected');
         process.exit(0);
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { RateLimitCounter } from '../../shared/models/RateLimitCounter';
+
+/**
+ * AdminController - Operator views for running the API
+ * All routes require a wallet session for a wallet listed in ADMIN_WALLETS
+ */
+export class AdminController {
+  /**
+   * Current top consumers per rate limiter
+   * GET /api/admin/rate-limits?limiter=registration&limit=20
+   */
+  async getRateLimitConsumers(req: Request, res: Response): Promise<Response> {
+    try {
+      const limiter = typeof req.query.limiter === 'string' ? req.query.limiter : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const consumers = await RateLimitCounter.getTopConsumers(limiter, limit);
+
+      // Group by limiter so each one's heaviest clients are easy to scan
+      const byLimiter: Record<string, Array<{ key: string; hits: number; resetTime: Date }>> = {};
+      for (const consumer of consumers) {
+        (byLimiter[consumer.limiter] ||= []).push({
+          key: consumer.key,
+          hits: consumer.hits,
+          resetTime: consumer.resetTime
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Rate limit consumers retrieved successfully',
+        data: {
+          limiter: limiter || 'all',
+          limiters: byLimiter,
+          timestamp: new Date().toISOString()
+        }
+      });
+
+    } catch (error) {
+      console.error('Error getting rate limit consumers:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Error retrieving rate limit consumers',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
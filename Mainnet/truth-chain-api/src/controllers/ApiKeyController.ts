@@ -0,0 +1,262 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ApiKey,
+  IApiKey,
+  ApiKeyScope,
+  API_KEY_SCOPES,
+  generateApiKey,
+  hashApiKey
+} from '../../shared/models/ApiKey';
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  dailyQuota?: number;
+}
+
+/**
+ * ApiKeyController - Manage integrator API keys for the authenticated wallet
+ *
+ * Keys are shown in full only when created or rotated; afterwards only the
+ * prefix is returned. All routes require a wallet login session.
+ */
+export class ApiKeyController {
+  // Active keys a single wallet may hold
+  private static MAX_KEYS_PER_WALLET = 10;
+
+  private static DEFAULT_DAILY_QUOTA = parseInt(process.env.API_KEY_DEFAULT_DAILY_QUOTA || '1000');
+
+  private static MAX_DAILY_QUOTA = parseInt(process.env.API_KEY_MAX_DAILY_QUOTA || '10000');
+
+  /**
+   * Create an API key
+   * POST /api/keys
+   */
+  async createKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const { name, scopes, dailyQuota = ApiKeyController.DEFAULT_DAILY_QUOTA }: CreateApiKeyRequest = req.body;
+      const ownerWallet = req.wallet!.address.toUpperCase();
+
+      if (!name || typeof name !== 'string' || !name.trim() || name.length > 100) {
+        return res.status(400).json({
+          success: false,
+          message: 'A key name of up to 100 characters is required',
+          error: 'Invalid name'
+        });
+      }
+
+      const scopeError = this.validateScopes(scopes);
+      if (scopeError) {
+        return res.status(400).json({
+          success: false,
+          message: scopeError,
+          error: 'Invalid scopes'
+        });
+      }
+
+      if (!Number.isInteger(dailyQuota) || dailyQuota < 1 || dailyQuota > ApiKeyController.MAX_DAILY_QUOTA) {
+        return res.status(400).json({
+          success: false,
+          message: `dailyQuota must be an integer between 1 and ${ApiKeyController.MAX_DAILY_QUOTA}`,
+          error: 'Invalid quota'
+        });
+      }
+
+      const activeKeys = await ApiKey.countDocuments({ ownerWallet, active: true });
+      if (activeKeys >= ApiKeyController.MAX_KEYS_PER_WALLET) {
+        return res.status(409).json({
+          success: false,
+          message: `A wallet can have at most ${ApiKeyController.MAX_KEYS_PER_WALLET} active API keys`,
+          error: 'Too many keys'
+        });
+      }
+
+      const rawKey = generateApiKey();
+      const apiKey = await ApiKey.create({
+        keyId: uuidv4(),
+        name: name.trim(),
+        keyHash: hashApiKey(rawKey),
+        keyPrefix: rawKey.substring(0, 10),
+        ownerWallet,
+        scopes: [...new Set(scopes)],
+        dailyQuota
+      });
+
+      console.log(`🔑 API key created: ${apiKey.keyId} for ${ownerWallet.substring(0, 10)}...`);
+
+      return res.status(201).json({
+        success: true,
+        message: 'API key created. Store the key now - it will not be shown again.',
+        data: {
+          ...this.toResponse(apiKey),
+          key: rawKey
+        }
+      });
+
+    } catch (error) {
+      console.error('Error creating API key:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create API key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * List the authenticated wallet's API keys
+   * GET /api/keys
+   */
+  async listKeys(req: Request, res: Response): Promise<Response> {
+    try {
+      const keys = await ApiKey.find({ ownerWallet: req.wallet!.address.toUpperCase() })
+        .sort({ createdAt: -1 });
+
+      return res.json({
+        success: true,
+        message: 'API keys retrieved successfully',
+        data: {
+          total: keys.length,
+          keys: keys.map(key => this.toResponse(key))
+        }
+      });
+
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to list API keys',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Revoke an API key
+   * DELETE /api/keys/:keyId
+   */
+  async revokeKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const apiKey = await ApiKey.findOneAndUpdate(
+        { keyId: req.params.keyId, ownerWallet: req.wallet!.address.toUpperCase(), active: true },
+        { $set: { active: false, revokedAt: new Date() } },
+        { new: true }
+      );
+
+      if (!apiKey) {
+        return res.status(404).json({
+          success: false,
+          message: 'Active API key not found'
+        });
+      }
+
+      console.log(`🔑 API key revoked: ${apiKey.keyId}`);
+
+      return res.json({
+        success: true,
+        message: 'API key revoked',
+        data: this.toResponse(apiKey)
+      });
+
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to revoke API key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Replace an API key's secret; the old key stops working immediately
+   * POST /api/keys/:keyId/rotate
+   */
+  async rotateKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const rawKey = generateApiKey();
+
+      const apiKey = await ApiKey.findOneAndUpdate(
+        { keyId: req.params.keyId, ownerWallet: req.wallet!.address.toUpperCase(), active: true },
+        {
+          $set: {
+            keyHash: hashApiKey(rawKey),
+            keyPrefix: rawKey.substring(0, 10),
+            rotatedAt: new Date()
+          }
+        },
+        { new: true }
+      );
+
+      if (!apiKey) {
+        return res.status(404).json({
+          success: false,
+          message: 'Active API key not found'
+        });
+      }
+
+      console.log(`🔑 API key rotated: ${apiKey.keyId}`);
+
+      return res.json({
+        success: true,
+        message: 'API key rotated. Store the new key now - it will not be shown again.',
+        data: {
+          ...this.toResponse(apiKey),
+          key: rawKey
+        }
+      });
+
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to rotate API key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Validate requested scopes
+   * @returns error message, or null if valid
+   */
+  private validateScopes(scopes: unknown): string | null {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return `At least one scope is required: ${API_KEY_SCOPES.join(', ')}`;
+    }
+
+    const unknown = scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+    if (unknown.length > 0) {
+      return `Unknown scopes: ${unknown.join(', ')}. Allowed: ${API_KEY_SCOPES.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Public view of a key - never includes the hash
+   */
+  private toResponse(apiKey: IApiKey) {
+    return {
+      keyId: apiKey.keyId,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes,
+      dailyQuota: apiKey.dailyQuota,
+      usage: {
+        totalRequests: apiKey.usage?.totalRequests || 0,
+        requestsToday: apiKey.usage?.periodRequests || 0,
+        lastUsedAt: apiKey.usage?.lastUsedAt
+      },
+      active: apiKey.active,
+      createdAt: apiKey.createdAt,
+      rotatedAt: apiKey.rotatedAt,
+      revokedAt: apiKey.revokedAt
+    };
+  }
+}
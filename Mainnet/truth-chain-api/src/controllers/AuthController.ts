@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { User } from '../../../shared/models/User';
+import { Session } from '../../../shared/models/Session';
 
 export interface CreateSessionRequest {
   walletAddress: string;
@@ -14,17 +15,6 @@ export interface CreateSessionRequest {
   };
 }
 
-export interface Session {
-  sessionId: string;
-  walletAddress: string;
-  source: 'extension' | 'web' | 'mobile';
-  walletType?: string;
-  createdAt: Date;
-  expiresAt: Date;
-  lastActivity: Date;
-  active: boolean;
-}
-
 export interface SessionResponse {
   success: boolean;
   message: string;
@@ -50,9 +40,6 @@ export interface ValidationResponse {
 }
 
 export class AuthController {
-  // In-memory session storage (replace with MongoDB in production)
-  private static sessions: Map<string, Session> = new Map();
-
   // Session expiration time (4 hours)
   private static SESSION_EXPIRATION_MS = 4 * 60 * 60 * 1000;
 
@@ -89,23 +76,18 @@ export class AuthController {
       const now = new Date();
       const expiresAt = new Date(now.getTime() + AuthController.SESSION_EXPIRATION_MS);
 
-      // Create session object (in-memory fallback)
-      const session: Session = {
+      // Store session (shared with wallet login; expired sessions are removed by the TTL index)
+      // No signature is checked here, so the session can't authorize writes
+      await Session.create({
         sessionId,
         walletAddress: normalizedAddress,
         source,
         walletType,
-        createdAt: now,
+        walletVerified: false,
+        active: true,
         expiresAt,
-        lastActivity: now,
-        active: true
-      };
-
-      // Store session in memory
-      AuthController.sessions.set(sessionId, session);
-
-      // Clean up expired sessions
-      this.cleanupExpiredSessions();
+        lastActivity: now
+      });
 
       // ✨ NEW: Create or update user in MongoDB
       let userData: any = null;
@@ -155,12 +137,25 @@ export class AuthController {
 
         // 🔧 FIX: Invalidate old sessions from the same source before adding new one
         // This prevents users being stuck on old sessions
+        // Only unsigned sessions are replaced - this endpoint can't revoke a wallet login
         if (user.sessions && user.sessions.length > 0) {
-          const oldSessionsCount = user.sessions.filter(s => s.active && s.source === source).length;
-          if (oldSessionsCount > 0) {
-            console.log(`♻️ Invalidating ${oldSessionsCount} old ${source} session(s) for ${normalizedAddress.substring(0, 12)}...`);
+          const staleSessions = await Session.find({
+            walletAddress: normalizedAddress,
+            source,
+            active: true,
+            walletVerified: false,
+            sessionId: { $ne: sessionId }
+          }).select('sessionId').lean();
+
+          if (staleSessions.length > 0) {
+            console.log(`♻️ Invalidating ${staleSessions.length} old ${source} session(s) for ${normalizedAddress.substring(0, 12)}...`);
+            const staleSessionIds = staleSessions.map(s => s.sessionId);
+            await Session.updateMany(
+              { sessionId: { $in: staleSessionIds } },
+              { $set: { active: false } }
+            );
             user.sessions.forEach((s: any) => {
-              if (s.active && s.source === source) {
+              if (staleSessionIds.includes(s.sessionId)) {
                 s.active = false;
               }
             });
@@ -226,10 +221,8 @@ export class AuthController {
   }
 
   /**
-   * Validate an existing session
+   * Validate an existing session (wallet login or extension session)
    * GET /api/auth/session/:sessionId
-   * Note: This endpoint is registered in routes but uses WalletAuthController.validateSession
-   * This method is kept for backward compatibility but should use MongoDB
    */
   async validateSession(req: Request, res: Response): Promise<Response<ValidationResponse>> {
     try {
@@ -244,56 +237,7 @@ export class AuthController {
         });
       }
 
-      // 🔧 FIX: Check MongoDB first (where sessions are actually stored)
-      try {
-        const user = await User.findOne({ 'sessions.sessionId': sessionId });
-
-        if (user) {
-          const userSession = user.sessions.find((s: any) => s.sessionId === sessionId);
-
-          if (userSession) {
-            // Check if session is expired
-            if (new Date() > new Date(userSession.expiresAt)) {
-              return res.status(401).json({
-                success: false,
-                valid: false,
-                message: 'Session has expired'
-              });
-            }
-
-            // Check if session is active
-            if (!userSession.active) {
-              return res.status(401).json({
-                success: false,
-                valid: false,
-                message: 'Session is no longer active'
-              });
-            }
-
-            // Session is valid - return success
-            console.log(`✅ Session validated from MongoDB: ${sessionId} for wallet ${user.walletAddress.substring(0, 12)}...`);
-
-            return res.json({
-              success: true,
-              valid: true,
-              data: {
-                sessionId: userSession.sessionId,
-                walletAddress: user.walletAddress,
-                source: userSession.source,
-                user: {
-                  walletAddress: user.walletAddress,
-                  bnsName: user.bnsName
-                }
-              }
-            });
-          }
-        }
-      } catch (dbError) {
-        console.warn('⚠️ MongoDB session check failed, falling back to in-memory:', dbError);
-      }
-
-      // Fallback to in-memory session (for backward compatibility)
-      const session = AuthController.sessions.get(sessionId);
+      const session = await Session.findOne({ sessionId });
 
       if (!session) {
         return res.status(404).json({
@@ -305,7 +249,6 @@ export class AuthController {
 
       // Check if session is expired
       if (new Date() > session.expiresAt) {
-        AuthController.sessions.delete(sessionId);
         return res.status(401).json({
           success: false,
           valid: false,
@@ -323,7 +266,7 @@ export class AuthController {
       }
 
       // Optional: Validate wallet address matches
-      if (walletAddress && session.walletAddress !== walletAddress) {
+      if (walletAddress && typeof walletAddress === 'string' && session.walletAddress !== walletAddress.toUpperCase()) {
         return res.status(403).json({
           success: false,
           valid: false,
@@ -333,9 +276,11 @@ export class AuthController {
 
       // Update last activity
       session.lastActivity = new Date();
-      AuthController.sessions.set(sessionId, session);
+      await session.save();
 
-      console.log(`✅ Session validated from in-memory: ${sessionId} for wallet ${session.walletAddress.substring(0, 12)}...`);
+      const user = await User.findOne({ walletAddress: session.walletAddress }).lean();
+
+      console.log(`✅ Session validated: ${sessionId} for wallet ${session.walletAddress.substring(0, 12)}...`);
 
       return res.json({
         success: true,
@@ -343,7 +288,11 @@ export class AuthController {
         data: {
           sessionId: session.sessionId,
           walletAddress: session.walletAddress,
-          source: session.source
+          source: session.source,
+          user: user ? {
+            walletAddress: user.walletAddress,
+            bnsName: user.bnsName
+          } : undefined
         }
       });
 
@@ -373,7 +322,7 @@ export class AuthController {
         });
       }
 
-      const session = AuthController.sessions.get(sessionId);
+      const session = await Session.invalidate(sessionId);
 
       if (!session) {
         return res.status(404).json({
@@ -382,14 +331,11 @@ export class AuthController {
         });
       }
 
-      // Mark session as inactive
-      session.active = false;
-      AuthController.sessions.set(sessionId, session);
-
-      // Delete session after marking inactive
-      setTimeout(() => {
-        AuthController.sessions.delete(sessionId);
-      }, 1000);
+      // Keep the user's device list in sync
+      await User.updateOne(
+        { 'sessions.sessionId': sessionId },
+        { $set: { 'sessions.$.active': false } }
+      );
 
       console.log(`Session logged out: ${sessionId}`);
 
@@ -423,12 +369,13 @@ export class AuthController {
         });
       }
 
-      const walletSessions = Array.from(AuthController.sessions.values())
-        .filter(session =>
-          session.walletAddress === walletAddress &&
-          session.active &&
-          new Date() <= session.expiresAt
-        )
+      const activeSessions = await Session.find({
+        walletAddress: walletAddress.toUpperCase(),
+        active: true,
+        expiresAt: { $gt: new Date() }
+      }).lean();
+
+      const walletSessions = activeSessions
         .map(session => ({
           sessionId: session.sessionId,
           source: session.source,
@@ -457,41 +404,34 @@ export class AuthController {
     }
   }
 
-  /**
-   * Clean up expired sessions (internal maintenance)
-   */
-  private cleanupExpiredSessions(): void {
-    const now = new Date();
-    let cleanedCount = 0;
-
-    for (const [sessionId, session] of AuthController.sessions.entries()) {
-      if (now > session.expiresAt) {
-        AuthController.sessions.delete(sessionId);
-        cleanedCount++;
-      }
-    }
-
-    if (cleanedCount > 0) {
-      console.log(`Cleaned up ${cleanedCount} expired sessions`);
-    }
-  }
-
   /**
    * Health check for session storage
    * GET /api/auth/health
    */
   async health(req: Request, res: Response): Promise<Response> {
-    const activeSessions = Array.from(AuthController.sessions.values())
-      .filter(session => session.active && new Date() <= session.expiresAt);
-
-    return res.json({
-      success: true,
-      data: {
-        totalSessions: AuthController.sessions.size,
-        activeSessions: activeSessions.length,
-        storageType: 'in-memory',
-        timestamp: new Date().toISOString()
-      }
-    });
+    try {
+      const now = new Date();
+      const [totalSessions, activeSessions] = await Promise.all([
+        Session.countDocuments(),
+        Session.countDocuments({ active: true, expiresAt: { $gt: now } })
+      ]);
+
+      return res.json({
+        success: true,
+        data: {
+          totalSessions,
+          activeSessions,
+          storageType: 'mongodb',
+          timestamp: now.toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('Error checking session storage:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Session storage unavailable'
+      });
+    }
   }
 }
@@ -1,20 +1,37 @@
 import { Request, Response } from 'express';
-import { HashService } from '../services/HashService';
+import {
+  HashService,
+  SegmentMode,
+  CanonicalizationVersion,
+  CANONICALIZATION_VERSIONS,
+  DEFAULT_CANONICALIZATION
+} from '../services/HashService';
 import { BlockchainService } from '../services/BlockchainService';
+import { ContractRegistry } from '../services/ContractRegistry';
+import { ContentTypeService, ContentType, ContentFields } from '../services/ContentTypeService';
+import { FileUploadService } from '../services/FileUploadService';
+import { bnsValidationService } from '../services/BNSValidationService';
+import { BatchAnchorService } from '../services/BatchAnchorService';
+import { MerkleService } from '../services/MerkleService';
 import { User } from '../../shared/models/User';
-import { Registration } from '../../shared/models/Registration';
+import { Registration, IRegistration } from '../../shared/models/Registration';
 
 // For development/testing with Postman (includes senderKey)
-export interface RegisterTweetRequest {
+export interface RegisterTweetRequest extends ContentFields {
   tweetContent: string;
+  content?: string; // Generic alias for tweetContent (non-tweet content types)
+  contentType?: ContentType; // Defaults to 'tweet'
   tweetUrl?: string;
   twitterHandle?: string;
+  bnsName?: string; // Recorded on chain via register-content-with-bns (must be owned by the sender)
   senderKey: string; // Private key for blockchain transaction
 }
 
 // For secure frontend integration (no senderKey)
-export interface SecureRegisterRequest {
+export interface SecureRegisterRequest extends ContentFields {
   tweetContent: string;
+  content?: string; // Generic alias for tweetContent (non-tweet content types)
+  contentType?: ContentType; // Defaults to 'tweet'
   tweetUrl?: string;
   twitterHandle?: string;
   walletAddress: string; // Required for database tracking
@@ -22,8 +39,51 @@ export interface SecureRegisterRequest {
   txId?: string; // Optional transaction ID if already submitted
   storeOnIPFS?: boolean; // Optional: User opt-in for IPFS storage
   source?: 'extension' | 'webapp' | 'api'; // Source of registration
+  segmentation?: SegmentMode; // Optional: register a Merkle root over the segments so excerpts can be proven
+  canonicalization?: CanonicalizationVersion; // Optional: HashService canonicalization version (default v1)
 }
 
+// For gasless registration (client signs, server sponsors the fee)
+export interface SponsoredRegisterRequest {
+  walletAddress: string;
+  hash: string; // Content hash returned by /api/secure/register
+  signedTransaction: string; // Hex-encoded sponsored register-content-with-bns transaction
+}
+
+// For batched anchoring (many hashes, one Merkle root on chain)
+export interface BatchedRegisterRequest {
+  walletAddress: string;
+  items: Array<ContentFields & {
+    content?: string;
+    hash?: string; // Pre-computed content hash (hex) instead of content
+    contentType?: ContentType; // Defaults to 'tweet'
+    url?: string;
+  }>;
+  source?: 'extension' | 'webapp' | 'api';
+}
+
+// Items accepted per batched registration request
+const MAX_BATCHED_ITEMS = 100;
+
+// For thread registration (one Merkle root on chain, a proof per tweet)
+export interface ThreadRegisterRequest {
+  walletAddress: string;
+  tweets: Array<{
+    text: string;
+    url?: string;
+  }>;  // In thread order, opening tweet first
+  twitterHandle?: string;
+  bnsName?: string;
+  txId?: string; // Optional transaction ID if the root is already submitted
+  source?: 'extension' | 'webapp' | 'api';
+}
+
+// Tweets accepted per thread
+const MAX_THREAD_TWEETS = 50;
+
+// Segments accepted per segmented registration
+const MAX_SEGMENTS = 5000;
+
 export interface RegisterTweetResponse {
   success: boolean;
   message: string;
@@ -31,6 +91,8 @@ export interface RegisterTweetResponse {
     hash: string;
     txId?: string;
     registrationId?: number;
+    contentType?: ContentType;
+    bnsName?: string;
     tweetUrl?: string;
     twitterHandle?: string;
   };
@@ -50,7 +112,8 @@ export class RegistrationController {
    */
   async registerTweet(req: Request, res: Response): Promise<Response<RegisterTweetResponse>> {
     try {
-      const { tweetContent, tweetUrl, twitterHandle, senderKey }: RegisterTweetRequest = req.body;
+      const { tweetUrl, twitterHandle, senderKey, bnsName, contentType = 'tweet' }: RegisterTweetRequest = req.body;
+      const tweetContent = req.body.content ?? req.body.tweetContent;
 
       // Validation
       if (!tweetContent || !senderKey) {
@@ -61,14 +124,45 @@ export class RegistrationController {
         });
       }
 
-      if (tweetContent.length > 4000) {
+      if (!ContentTypeService.isContentType(contentType)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unsupported content type: ${contentType}`,
+          error: 'Invalid content type'
+        });
+      }
+
+      const validationError = ContentTypeService.validate(contentType, tweetContent, req.body);
+      if (validationError) {
         return res.status(400).json({
           success: false,
-          message: 'Tweet content exceeds 4000 characters',
-          error: 'Content too long'
+          message: validationError,
+          error: 'Invalid content'
         });
       }
 
+      // The contract stores whatever name it's given, so ownership has to be checked here
+      if (bnsName) {
+        if (!/^[\x20-\x7E]{1,64}$/.test(bnsName)) {
+          return res.status(400).json({
+            success: false,
+            message: 'BNS name must be 1-64 ASCII characters',
+            error: 'Invalid BNS name'
+          });
+        }
+
+        const senderAddress = this.blockchainService.getSenderAddress(senderKey);
+        const ownedNames = await bnsValidationService.fetchWalletBNSNames(senderAddress);
+
+        if (!ownedNames.includes(bnsName)) {
+          return res.status(403).json({
+            success: false,
+            message: `BNS name ${bnsName} is not owned by ${senderAddress}`,
+            error: 'BNS name not owned'
+          });
+        }
+      }
+
       // Generate content hash
       const contentHash = HashService.generateContentHash(tweetContent);
       const hashHex = HashService.generateContentHashHex(tweetContent);
@@ -89,9 +183,11 @@ export class RegistrationController {
       }
 
       // Register on blockchain
-      const registrationResult = await this.blockchainService.registerTweet(
+      const registrationResult = await this.blockchainService.registerContent(
         contentHash,
-        senderKey
+        senderKey,
+        ContentTypeService.toContractType(contentType),
+        bnsName
       );
 
       if (!registrationResult.success) {
@@ -110,6 +206,8 @@ export class RegistrationController {
           hash: hashHex,
           txId: registrationResult.txId,
           registrationId: registrationResult.registrationId,
+          contentType,
+          bnsName,
           tweetUrl,
           twitterHandle
         }
@@ -170,6 +268,49 @@ export class RegistrationController {
   }
 
 
+  /**
+   * Canonical text and hash of content under every canonicalization version
+   * POST /api/hash
+   * Lets clients check they canonicalize content the same way the server does
+   */
+  async hashContent(req: Request, res: Response): Promise<Response> {
+    try {
+      const content: string = req.body.content ?? req.body.tweetContent;
+
+      if (typeof content !== 'string' || !content) {
+        return res.status(400).json({
+          success: false,
+          message: 'Content is required'
+        });
+      }
+
+      if (content.length > ContentTypeService.getMaxLength('document')) {
+        return res.status(400).json({
+          success: false,
+          message: `Content exceeds ${ContentTypeService.getMaxLength('document')} characters`
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          defaultVersion: DEFAULT_CANONICALIZATION,
+          versions: HashService.generateCanonicalHashes(content)
+        }
+      });
+
+    } catch (error) {
+      console.error('Error hashing content:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Error hashing content',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+
   /**
    * Get registration by transaction ID
    * GET /api/registration/:txId
@@ -184,11 +325,97 @@ export class RegistrationController {
           message: 'Transaction ID is required'
         });
       }
+
+      if (!/^(0x)?[0-9a-f]{64}$/i.test(txId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Transaction ID must be 32 bytes of hex'
+        });
+      }
+
+      const normalizedTxId = txId.startsWith('0x') ? txId : `0x${txId}`;
+
+      // Prefer our own record - it carries content metadata the chain doesn't have
+      const registration = await Registration.findByTxId(normalizedTxId)
+        || await Registration.findByTxId(normalizedTxId.slice(2));
+
+      if (registration) {
+        return res.json({
+          success: true,
+          message: 'Registration found',
+          source: 'database',
+          data: {
+            contentHash: registration.contentHash,
+            authorWallet: registration.authorWallet,
+            bnsName: registration.bnsName,
+            bnsStatus: registration.bnsStatus || 'valid',
+            content: {
+              type: registration.content.type,
+              preview: registration.content.preview,
+              url: registration.content.url,
+              twitterHandle: registration.content.twitterHandle,
+              title: registration.content.title
+            },
+            blockchain: {
+              txId: registration.blockchain.txId,
+              status: registration.blockchain.status,
+              blockHeight: registration.blockchain.blockHeight,
+              registrationId: registration.blockchain.registrationId,
+              timestamp: registration.blockchain.timestamp?.toISOString(),
+              contractId: registration.blockchain.contractId,
+              contractVersion: registration.blockchain.contractVersion,
+              error: registration.blockchain.error
+            },
+            ipfs: registration.ipfs?.cid ? {
+              cid: registration.ipfs.cid,
+              gateway: registration.ipfs.gateway
+            } : undefined,
+            createdAt: registration.createdAt.toISOString()
+          }
+        });
+      }
+
+      // Fall back to decoding the contract call straight from the chain
+      const transaction = await this.blockchainService.getRegistrationTransaction(normalizedTxId);
+
+      if (!transaction) {
+        return res.status(404).json({
+          success: false,
+          message: 'Transaction not found'
+        });
+      }
+
+      // Same function names on someone else's contract don't make a TruthChain registration
+      if (!transaction.functionName.startsWith('register-content') || !this.blockchainService.getDeployment(transaction.contractId)) {
+        return res.status(404).json({
+          success: false,
+          message: 'Transaction is not a TruthChain registration',
+          data: {
+            txId: transaction.txId,
+            contractId: transaction.contractId,
+            functionName: transaction.functionName
+          }
+        });
+      }
+
       return res.json({
         success: true,
-        message: 'Registration lookup by transaction ID',
+        message: 'Registration found on blockchain',
+        source: 'blockchain',
         data: {
-          txId,
+          txId: transaction.txId,
+          contractId: transaction.contractId,
+          functionName: transaction.functionName,
+          contentHash: transaction.contentHash,
+          contentType: transaction.contentType,
+          bnsName: transaction.bnsName,
+          sender: transaction.sender,
+          status: transaction.status,
+          blockHeight: transaction.blockHeight,
+          registrationId: transaction.registrationId,
+          error: transaction.error,
+          result: transaction.result?.value,
+          resultRepr: transaction.resultRepr
         }
       });
 
@@ -210,14 +437,22 @@ export class RegistrationController {
   async secureRegisterTweet(req: Request, res: Response): Promise<Response> {
     try {
       const {
-        tweetContent,
         tweetUrl,
         twitterHandle,
         walletAddress,
         bnsName,
+        txId,
+        contentType = 'tweet',
+        title,
+        imageUrl,
+        videoUrl,
+        author,
         storeOnIPFS = false,
-        source = 'api'
+        source = 'api',
+        segmentation,
+        canonicalization = DEFAULT_CANONICALIZATION
       }: SecureRegisterRequest = req.body;
+      const tweetContent: string = req.body.content ?? req.body.tweetContent;
 
       // Validation
       if (!tweetContent || !walletAddress) {
@@ -228,17 +463,56 @@ export class RegistrationController {
         });
       }
 
-      if (tweetContent.length > 4000) {
+      if (!ContentTypeService.isContentType(contentType)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unsupported content type: ${contentType}`,
+          error: 'Invalid content type'
+        });
+      }
+
+      const validationError = ContentTypeService.validate(contentType, tweetContent, { title, imageUrl, videoUrl, author });
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          message: validationError,
+          error: 'Invalid content'
+        });
+      }
+
+      if (!HashService.isCanonicalizationVersion(canonicalization)) {
+        return res.status(400).json({
+          success: false,
+          message: `Canonicalization must be one of ${CANONICALIZATION_VERSIONS.join(', ')}`,
+          error: 'Invalid canonicalization'
+        });
+      }
+
+      if (segmentation !== undefined && segmentation !== 'paragraph' && segmentation !== 'sentence') {
+        return res.status(400).json({
+          success: false,
+          message: 'Segmentation must be paragraph or sentence',
+          error: 'Invalid segmentation'
+        });
+      }
+
+      // Segmented content is registered as a Merkle root over its segment hashes
+      const segmentHashes = segmentation
+        ? HashService.generateSegmentHashes(tweetContent, segmentation, canonicalization)
+        : undefined;
+      if (segmentHashes && segmentHashes.length > MAX_SEGMENTS) {
         return res.status(400).json({
           success: false,
-          message: 'Tweet content exceeds 4000 characters',
-          error: 'Content too long'
+          message: `Content splits into more than ${MAX_SEGMENTS} segments`,
+          error: 'Too many segments'
         });
       }
 
       // Generate content hash
-      const contentHash = HashService.generateContentHash(tweetContent);
-      const hashHex = HashService.generateContentHashHex(tweetContent);
+      const contentHash = segmentHashes
+        ? MerkleService.getRoot(MerkleService.buildTree(segmentHashes.map(hash => HashService.hexToBuffer(hash))))
+        : HashService.generateContentHash(tweetContent, canonicalization);
+      const hashHex = contentHash.toString('hex');
 
       // Check if already exists in database
       const existingReg = await Registration.findOne({ contentHash: hashHex });
@@ -296,7 +570,7 @@ export class RegistrationController {
                 originalUrl: tweetUrl,
                 author: twitterHandle,
                 timestamp: new Date().toISOString(),
-                contentType: 'tweet' as const,
+                contentType,
                 source: 'truthchain' as const
               }
             });
@@ -315,16 +589,23 @@ export class RegistrationController {
         authorWallet: walletAddress.toUpperCase(),
         bnsName: bnsName,
         content: {
-          type: 'tweet',
+          type: contentType,
           text: tweetContent.length <= 500 ? tweetContent : undefined,
           preview: tweetContent.substring(0, 100),
           url: tweetUrl,
           twitterHandle,
-          hasFullContent: !!ipfsCID
+          title,
+          imageUrl,
+          videoUrl,
+          author,
+          hasFullContent: !!ipfsCID,
+          canonicalization,
+          segments: segmentHashes ? { mode: segmentation, hashes: segmentHashes } : undefined
         },
         blockchain: {
           status: 'pending',
-          network: process.env.NETWORK || 'mainnet'
+          txId,
+          network: ContractRegistry.getNetwork()
         },
         ipfs: ipfsCID ? {
           cid: ipfsCID,
@@ -375,9 +656,15 @@ export class RegistrationController {
             stored: false,
             reason: storeOnIPFS ? 'IPFS storage failed' : 'User opted out'
           },
+          contentType,
+          contractContentType: ContentTypeService.toContractType(contentType),
+          canonicalization,
+          segments: segmentHashes ? { mode: segmentation, count: segmentHashes.length } : undefined,
           tweetUrl,
           twitterHandle,
-          instructions: 'Use this hash with your wallet to register on-chain'
+          instructions: segmentHashes
+            ? 'Use this hash and contractContentType with your wallet to register on-chain, then confirm it by hash'
+            : 'Use this hash and contractContentType with your wallet to register on-chain'
         }
       });
 
@@ -393,161 +680,1015 @@ export class RegistrationController {
   }
 
   /**
-   * Confirm registration after blockchain transaction
-   * POST /api/secure/confirm-registration
+   * Queue content hashes for batched anchoring under a Merkle root
+   * POST /api/secure/register/batched
    */
-  async confirmRegistration(req: Request, res: Response): Promise<Response> {
+  async registerBatched(req: Request, res: Response): Promise<Response> {
     try {
-      const { tweetContent, txId }: { tweetContent: string; txId: string } = req.body;
+      const { walletAddress, items, source = 'api' }: BatchedRegisterRequest = req.body;
 
-      if (!tweetContent || !txId) {
+      if (!walletAddress || !Array.isArray(items) || items.length === 0) {
         return res.status(400).json({
           success: false,
-          message: 'Tweet content and transaction ID are required'
+          message: 'Wallet address and a non-empty items array are required',
+          error: 'Missing required fields'
         });
       }
 
-      // Generate hash and verify it exists on blockchain
-      const contentHash = HashService.generateContentHash(tweetContent);
-      const hashHex = HashService.generateContentHashHex(tweetContent);
+      if (items.length > MAX_BATCHED_ITEMS) {
+        return res.status(400).json({
+          success: false,
+          message: `Maximum ${MAX_BATCHED_ITEMS} items allowed per request`
+        });
+      }
 
-      // Wait a moment for transaction to be confirmed
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      if (!BatchAnchorService.isEnabled()) {
+        return res.status(503).json({
+          success: false,
+          message: 'Batched registrations are not available',
+          error: 'Batch anchoring disabled'
+        });
+      }
 
-      const verification = await this.blockchainService.verifyTweet(contentHash);
+      // Hash and validate every item before queueing any of them
+      const entries: Array<{ hash: string; item: BatchedRegisterRequest['items'][number]; contentType: ContentType }> = [];
+      for (const [index, item] of items.entries()) {
+        const contentType = item?.contentType || 'tweet';
 
-      if (!verification) {
-        return res.status(404).json({
-          success: false,
-          message: 'Registration not found on blockchain. Transaction may still be pending.',
-          data: {
-            hash: hashHex,
-            txId
+        if (!ContentTypeService.isContentType(contentType)) {
+          return res.status(400).json({
+            success: false,
+            message: `Item ${index}: unsupported content type ${contentType}`,
+            error: 'Invalid content type'
+          });
+        }
+
+        let hash: string;
+        if (item?.content) {
+          const validationError = ContentTypeService.validate(contentType, item.content, item);
+          if (validationError) {
+            return res.status(400).json({
+              success: false,
+              message: `Item ${index}: ${validationError}`,
+              error: 'Invalid content'
+            });
           }
-        });
+          hash = HashService.generateContentHashHex(item.content);
+        } else if (typeof item?.hash === 'string' && /^(0x)?[0-9a-fA-F]{64}$/.test(item.hash)) {
+          hash = item.hash.replace(/^0x/, '').toLowerCase();
+        } else {
+          return res.status(400).json({
+            success: false,
+            message: `Item ${index}: content or a 32-byte hex hash is required`,
+            error: 'Invalid item'
+          });
+        }
+
+        entries.push({ hash, item, contentType });
       }
 
-      // Update MongoDB with blockchain confirmation
-      const updatedRegistration = await Registration.findOneAndUpdate(
-        { contentHash: hashHex },
+      const existing = await Registration.find({ contentHash: { $in: entries.map(entry => entry.hash) } }).select('contentHash');
+      const taken = new Set(existing.map(registration => registration.contentHash));
+      const duplicates: string[] = [];
+      const toQueue = entries.filter(entry => {
+        if (taken.has(entry.hash)) {
+          duplicates.push(entry.hash);
+          return false;
+        }
+        taken.add(entry.hash);
+        return true;
+      });
+
+      const normalizedAddress = walletAddress.toUpperCase();
+      await User.findOneAndUpdate(
+        { walletAddress: normalizedAddress },
         {
-          $set: {
-            'blockchain.txId': txId,
-            'blockchain.blockHeight': verification.blockHeight,
-            'blockchain.registrationId': verification.registrationId,
-            'blockchain.status': 'confirmed',
-            'blockchain.timestamp': new Date()
+          $set: { 'metadata.lastSeen': new Date() },
+          $setOnInsert: {
+            walletAddress: normalizedAddress,
+            'metadata.firstSeen': new Date()
           }
         },
-        { new: true }
+        { upsert: true, new: true }
       );
 
-      if (updatedRegistration) {
-        // Update user stats
+      let inserted: Array<{ contentHash: string }> = [];
+      if (toQueue.length > 0) {
+        try {
+          inserted = await Registration.insertMany(toQueue.map(({ hash, item, contentType }) => ({
+            contentHash: hash,
+            authorWallet: normalizedAddress,
+            content: {
+              type: contentType,
+              text: item.content && item.content.length <= 500 ? item.content : undefined,
+              preview: item.content?.substring(0, 100),
+              url: item.url,
+              title: item.title,
+              imageUrl: item.imageUrl,
+              videoUrl: item.videoUrl,
+              author: item.author
+            },
+            blockchain: { status: 'pending' },
+            batch: { status: 'queued' },
+            metadata: {
+              userAgent: req.headers['user-agent'],
+              ipAddress: req.ip,
+              source
+            }
+          })), { ordered: false });
+        } catch (error: any) {
+          // Registered by someone else in the meantime - keep the rest
+          if (error?.code !== 11000) {
+            throw error;
+          }
+          inserted = error.insertedDocs || [];
+        }
+      }
+
+      const queuedHashes = new Set(inserted.map(registration => registration.contentHash));
+      duplicates.push(...toQueue.filter(entry => !queuedHashes.has(entry.hash)).map(entry => entry.hash));
+
+      if (queuedHashes.size > 0) {
         await User.findOneAndUpdate(
-          { walletAddress: updatedRegistration.authorWallet },
+          { walletAddress: normalizedAddress },
           {
             $inc: {
-              'stats.confirmedRegistrations': 1,
-              'stats.pendingRegistrations': -1
-            }
+              'stats.totalRegistrations': queuedHashes.size,
+              'stats.pendingRegistrations': queuedHashes.size
+            },
+            $set: { 'stats.lastRegistration': new Date() }
           }
         );
-
-        console.log(`✅ Registration confirmed in database: ${hashHex}`);
       }
 
-      return res.json({
+      const { maxItems, intervalMs } = BatchAnchorService.getPolicy();
+
+      return res.status(202).json({
         success: true,
-        message: 'Registration confirmed on blockchain',
+        message: `${queuedHashes.size} hashes queued for batch anchoring`,
         data: {
-          hash: hashHex,
-          txId,
-          author: verification.author,
-          registeredAt: new Date(verification.timestamp > 1000000000000 ? verification.timestamp : verification.timestamp * 1000).toISOString(),
-          blockHeight: verification.blockHeight,
-          registrationId: verification.registrationId,
+          queued: [...queuedHashes],
+          duplicates,
+          batchPolicy: { maxItems, intervalMs }
         }
       });
 
     } catch (error) {
-      console.error('Error confirming registration:', error);
+      console.error('Error in batched registration:', error);
 
       return res.status(500).json({
         success: false,
-        message: 'Error confirming registration',
+        message: 'Internal server error',
         error: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
 
   /**
-   * Retrieve original content from IPFS
-   * GET /api/content/:contentHash
+   * Register a Twitter thread under one Merkle root, with an inclusion proof per tweet
+   * POST /api/secure/register/thread
+   * The client registers the returned root with its wallet, like /api/secure/register
    */
-  async retrieveOriginalContent(req: Request, res: Response): Promise<Response> {
+  async registerThread(req: Request, res: Response): Promise<Response> {
     try {
-      const { contentHash } = req.params;
-
-      // Get registration from MongoDB
-      const registration = await Registration.findOne({ contentHash });
+      const { walletAddress, tweets, twitterHandle, bnsName, txId, source = 'api' }: ThreadRegisterRequest = req.body;
 
-      if (!registration) {
-        return res.status(404).json({
+      if (!walletAddress || !Array.isArray(tweets) || tweets.length < 2) {
+        return res.status(400).json({
           success: false,
-          message: 'Registration not found'
+          message: 'Wallet address and at least two tweets are required',
+          error: 'Missing required fields'
         });
       }
 
-      if (!registration.ipfs?.cid) {
-        return res.status(404).json({
+      if (tweets.length > MAX_THREAD_TWEETS) {
+        return res.status(400).json({
           success: false,
-          message: 'Content not stored on IPFS',
-          data: {
-            preview: registration.content.preview,
-            url: registration.content.url
-          }
+          message: `Maximum ${MAX_THREAD_TWEETS} tweets allowed per thread`
         });
       }
 
-      // Retrieve from IPFS
-      const ipfsService = (global as any).ipfsService;
-      if (!ipfsService) {
-        return res.status(503).json({
+      const hashes: string[] = [];
+      for (const [index, tweet] of tweets.entries()) {
+        if (typeof tweet?.text !== 'string' || !tweet.text.trim()) {
+          return res.status(400).json({
+            success: false,
+            message: `Tweet ${index + 1}: text is required`,
+            error: 'Invalid tweet'
+          });
+        }
+
+        const validationError = ContentTypeService.validate('tweet', tweet.text, {});
+        if (validationError) {
+          return res.status(400).json({
+            success: false,
+            message: `Tweet ${index + 1}: ${validationError}`,
+            error: 'Invalid content'
+          });
+        }
+
+        const hash = HashService.generateContentHashHex(tweet.text);
+        if (hashes.includes(hash)) {
+          return res.status(400).json({
+            success: false,
+            message: `Tweet ${index + 1} repeats tweet ${hashes.indexOf(hash) + 1}`,
+            error: 'Duplicate tweet'
+          });
+        }
+        hashes.push(hash);
+      }
+
+      const tree = MerkleService.buildTree(hashes.map(hash => HashService.hexToBuffer(hash)));
+      const root = MerkleService.getRoot(tree);
+      const rootHex = root.toString('hex');
+
+      // Every tweet verifies on its own, so none of them can be registered already
+      const existing = await Registration.find({ contentHash: { $in: [rootHex, ...hashes] } }).select('contentHash');
+      if (existing.length > 0 || await this.blockchainService.hashExists(root)) {
+        return res.status(409).json({
           success: false,
-          message: 'IPFS service not available'
+          message: 'Part of this thread has already been registered',
+          error: 'Duplicate content',
+          data: {
+            hash: rootHex,
+            duplicates: existing.map(registration => registration.contentHash)
+          }
         });
       }
 
-      const ipfsContent = await ipfsService.retrieveContent(registration.ipfs.cid);
+      const normalizedAddress = walletAddress.toUpperCase();
+      await User.findOneAndUpdate(
+        { walletAddress: normalizedAddress },
+        {
+          $set: { 'metadata.lastSeen': new Date() },
+          $setOnInsert: {
+            walletAddress: normalizedAddress,
+            'metadata.firstSeen': new Date()
+          }
+        },
+        { upsert: true, new: true }
+      );
 
-      // Update analytics
-      await Registration.findByIdAndUpdate(registration._id, {
-        $inc: { 'analytics.views': 1 },
-        $set: { 'analytics.lastViewed': new Date() }
+      const blockchain = {
+        status: 'pending',
+        txId,
+        network: ContractRegistry.getNetwork()
+      };
+      const metadata = {
+        userAgent: req.headers['user-agent'],
+        ipAddress: req.ip,
+        source
+      };
+
+      const parent = await Registration.create({
+        contentHash: rootHex,
+        authorWallet: normalizedAddress,
+        bnsName,
+        content: {
+          type: 'tweet',
+          preview: tweets[0].text.substring(0, 100),
+          url: tweets[0].url,
+          twitterHandle,
+          title: `Thread (${tweets.length} tweets)`
+        },
+        blockchain,
+        thread: { root: rootHex, size: tweets.length },
+        metadata
       });
 
-      return res.json({
-        success: true,
-        data: {
-          content: ipfsContent.content,
-          metadata: ipfsContent.metadata,
-          ipfs: {
-            cid: registration.ipfs.cid,
-            gateway: registration.ipfs.gateway,
-            gateways: ipfsService.getGatewayURLs(registration.ipfs.cid)
+      const children = tweets.map((tweet, index) => ({
+        contentHash: hashes[index],
+        authorWallet: normalizedAddress,
+        bnsName,
+        content: {
+          type: 'tweet' as const,
+          text: tweet.text.length <= 500 ? tweet.text : undefined,
+          preview: tweet.text.substring(0, 100),
+          url: tweet.url,
+          twitterHandle
+        },
+        blockchain,
+        thread: {
+          root: rootHex,
+          size: tweets.length,
+          parentId: parent._id,
+          position: index + 1,
+          proof: MerkleService.getProof(tree, index)
+        },
+        metadata
+      }));
+
+      try {
+        await Registration.insertMany(children);
+      } catch (error: any) {
+        // A tweet was registered by someone else in the meantime - drop the whole thread
+        await Registration.deleteMany({ $or: [{ _id: parent._id }, { 'thread.parentId': parent._id }] });
+        if (error?.code === 11000) {
+          return res.status(409).json({
+            success: false,
+            message: 'Part of this thread has already been registered',
+            error: 'Duplicate content',
+            data: { hash: rootHex }
+          });
+        }
+        throw error;
+      }
+
+      // Only the tweets count as the author's registrations, not the root tying them together
+      await User.findOneAndUpdate(
+        { walletAddress: normalizedAddress },
+        {
+          $inc: {
+            'stats.totalRegistrations': children.length,
+            'stats.pendingRegistrations': children.length
           },
-          blockchain: {
-            hash: registration.contentHash,
-            txId: registration.blockchain.txId,
-            status: registration.blockchain.status,
-            blockHeight: registration.blockchain.blockHeight
-          }
+          $set: { 'stats.lastRegistration': new Date() }
         }
-      });
+      );
+
+      console.log(`🧵 Thread of ${tweets.length} tweets saved under root ${rootHex}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Thread ready for blockchain registration',
+        data: {
+          hash: rootHex,
+          threadId: parent._id,
+          contentType: 'tweet',
+          contractContentType: ContentTypeService.toContractType('tweet'),
+          tweets: children.map(child => ({
+            position: child.thread.position,
+            hash: child.contentHash,
+            url: child.content.url,
+            proof: child.thread.proof
+          })),
+          instructions: 'Register this root hash with your wallet, then confirm it with /api/secure/confirm-registration'
+        }
+      });
+
+    } catch (error) {
+      console.error('Error in thread registration:', error);
 
-    } catch (error) {
-      console.error('Content retrieval error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Register an uploaded file (image, PDF or video) - hash is over the raw bytes
+   * POST /api/secure/register/file (multipart/form-data)
+   * Fields: walletAddress, title?, author?, bnsName?, storeOnIPFS?, source? - then a `file` part
+   */
+  async registerFile(req: Request, res: Response): Promise<Response> {
+    try {
+      const upload = await FileUploadService.parseUpload(req);
+
+      if (!upload.success) {
+        return res.status(upload.status).json({
+          success: false,
+          message: upload.error,
+          error: 'Invalid upload'
+        });
+      }
+
+      const { fields, file } = upload;
+      const walletAddress = fields.walletAddress;
+
+      if (!walletAddress) {
+        return res.status(400).json({
+          success: false,
+          message: 'Wallet address is required',
+          error: 'Missing required fields'
+        });
+      }
+
+      // Multipart fields aren't visible to requireWalletOwnership, so check here
+      if (req.wallet && walletAddress.toUpperCase() !== req.wallet.address.toUpperCase()) {
+        return res.status(403).json({
+          success: false,
+          message: 'Authenticated wallet does not match the requested wallet',
+          error: 'Forbidden'
+        });
+      }
+
+      const hashHex = file.hashHex;
+
+      // Check if already exists in database
+      const existingReg = await Registration.findOne({ contentHash: hashHex });
+      if (existingReg) {
+        return res.status(409).json({
+          success: false,
+          message: existingReg.blockchain.status === 'confirmed'
+            ? 'Content already registered'
+            : 'This file is already awaiting registration',
+          data: {
+            hash: hashHex,
+            status: existingReg.blockchain.status,
+            txId: existingReg.blockchain.txId
+          }
+        });
+      }
+
+      // Check blockchain
+      const exists = await this.blockchainService.hashExists(file.hash);
+      if (exists) {
+        return res.status(409).json({
+          success: false,
+          message: 'This content has already been registered on blockchain',
+          error: 'Duplicate content',
+          data: {
+            hash: hashHex
+          }
+        });
+      }
+
+      // Create or update user
+      await User.findOneAndUpdate(
+        { walletAddress: walletAddress.toUpperCase() },
+        {
+          $set: { 'metadata.lastSeen': new Date() },
+          $setOnInsert: {
+            walletAddress: walletAddress.toUpperCase(),
+            'metadata.firstSeen': new Date()
+          }
+        },
+        { upsert: true, new: true }
+      );
+
+      // Pin the original file if requested
+      let ipfsCID: string | undefined;
+      let ipfsGateway: string | undefined;
+
+      if (file.buffer) {
+        try {
+          const ipfsService = (global as any).ipfsService;
+          if (ipfsService) {
+            const ipfsResult = await ipfsService.storeContent(file.buffer, file.filename);
+            ipfsCID = ipfsResult.cid;
+            ipfsGateway = ipfsResult.url;
+            console.log(`✅ File stored on IPFS: ${ipfsCID}`);
+          }
+        } catch (ipfsError) {
+          console.warn('⚠️  IPFS storage failed:', ipfsError);
+          // Continue without IPFS - don't fail the whole request
+        }
+      }
+
+      const registration = new Registration({
+        contentHash: hashHex,
+        authorWallet: walletAddress.toUpperCase(),
+        bnsName: fields.bnsName || undefined,
+        content: {
+          type: file.contentType,
+          preview: (fields.title || file.filename).substring(0, 100),
+          title: fields.title || file.filename,
+          author: fields.author,
+          imageUrl: file.contentType === 'image' ? ipfsGateway : undefined,
+          videoUrl: file.contentType === 'video' ? ipfsGateway : undefined,
+          fileName: file.filename,
+          mimeType: file.mimeType,
+          size: file.size
+        },
+        blockchain: {
+          status: 'pending'
+        },
+        ipfs: ipfsCID ? {
+          cid: ipfsCID,
+          gateway: ipfsGateway,
+          pinned: true,
+          size: file.size,
+          uploadedAt: new Date()
+        } : undefined,
+        metadata: {
+          userAgent: req.headers['user-agent'],
+          ipAddress: req.ip,
+          source: fields.source || 'api'
+        }
+      });
+
+      await registration.save();
+
+      console.log(`✅ File registration saved to database: ${hashHex} (${file.mimeType}, ${file.size} bytes)`);
+
+      // Update user stats
+      await User.findOneAndUpdate(
+        { walletAddress: walletAddress.toUpperCase() },
+        {
+          $inc: {
+            'stats.totalRegistrations': 1,
+            'stats.pendingRegistrations': 1
+          },
+          $set: { 'stats.lastRegistration': new Date() }
+        }
+      );
+
+      return res.status(200).json({
+        success: true,
+        message: 'File ready for blockchain registration',
+        data: {
+          hash: hashHex,
+          contentType: file.contentType,
+          contractContentType: ContentTypeService.toContractType(file.contentType),
+          fileName: file.filename,
+          mimeType: file.mimeType,
+          size: file.size,
+          ipfs: ipfsCID ? {
+            cid: ipfsCID,
+            gateway: ipfsGateway,
+            stored: true
+          } : {
+            stored: false,
+            reason: file.buffer ? 'IPFS storage failed' : 'User opted out'
+          },
+          instructions: 'Use this hash and contractContentType with your wallet to register on-chain'
+        }
+      });
+
+    } catch (error) {
+      console.error('Error in file registration:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Co-sign and broadcast a wallet-signed sponsored registration (gasless)
+   * POST /api/secure/register/sponsored
+   */
+  async sponsorRegistration(req: Request, res: Response): Promise<Response> {
+    // Registration claimed for this request, released again unless the broadcast went out
+    let claimedId: unknown = null;
+
+    try {
+      const { walletAddress, hash, signedTransaction }: SponsoredRegisterRequest = req.body;
+
+      if (!walletAddress || !hash || !signedTransaction) {
+        return res.status(400).json({
+          success: false,
+          message: 'Wallet address, hash and signed transaction are required',
+          error: 'Missing required fields'
+        });
+      }
+
+      if (!this.blockchainService.isSponsorEnabled()) {
+        return res.status(503).json({
+          success: false,
+          message: 'Sponsored registrations are not available',
+          error: 'Sponsor mode disabled'
+        });
+      }
+
+      const normalizedAddress = walletAddress.toUpperCase();
+      const hashHex = hash.replace(/^0x/, '').toLowerCase();
+
+      // Only sponsor content the wallet prepared through /api/secure/register
+      const registration = await Registration.findOne({
+        contentHash: hashHex,
+        authorWallet: normalizedAddress,
+        'blockchain.status': 'pending'
+      });
+
+      if (!registration) {
+        return res.status(404).json({
+          success: false,
+          message: 'No pending registration found for this hash and wallet'
+        });
+      }
+
+      if (registration.blockchain.txId) {
+        return res.status(409).json({
+          success: false,
+          message: 'A transaction has already been submitted for this registration',
+          data: {
+            hash: hashHex,
+            txId: registration.blockchain.txId
+          }
+        });
+      }
+
+      const check = this.blockchainService.validateSponsoredRegistration(
+        signedTransaction,
+        hashHex,
+        ContentTypeService.toContractType(registration.content.type),
+        registration.bnsName
+      );
+
+      if (!check.valid || !check.transaction) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid sponsored transaction',
+          error: check.error
+        });
+      }
+
+      if (check.senderAddress !== normalizedAddress) {
+        return res.status(403).json({
+          success: false,
+          message: 'Transaction was not signed by this wallet',
+          error: 'Sender mismatch'
+        });
+      }
+
+      // The name goes on chain at our expense, so it has to be the wallet's own
+      if (registration.bnsName) {
+        const ownedNames = await bnsValidationService.fetchWalletBNSNames(normalizedAddress);
+
+        if (!ownedNames.includes(registration.bnsName)) {
+          return res.status(403).json({
+            success: false,
+            message: `BNS name ${registration.bnsName} is not owned by ${normalizedAddress}`,
+            error: 'BNS name not owned'
+          });
+        }
+      }
+
+      // Claim the registration so concurrent requests can't sponsor it twice
+      const claimed = await Registration.findOneAndUpdate(
+        {
+          _id: registration._id,
+          'blockchain.status': 'pending',
+          'blockchain.txId': { $exists: false },
+          'blockchain.sponsoring': { $ne: true }
+        },
+        { $set: { 'blockchain.sponsoring': true } }
+      );
+
+      if (!claimed) {
+        return res.status(409).json({
+          success: false,
+          message: 'A transaction is already being submitted for this registration',
+          data: { hash: hashHex }
+        });
+      }
+      claimedId = registration._id;
+
+      const quota = parseInt(process.env.SPONSOR_QUOTA_PER_DAY || '3');
+      const user = await User.consumeSponsorship(normalizedAddress, quota, 24 * 60 * 60 * 1000);
+
+      if (!user) {
+        await this.releaseSponsorClaim(claimedId);
+
+        if (!(await User.exists({ walletAddress: normalizedAddress }))) {
+          return res.status(404).json({
+            success: false,
+            message: 'No account found for this wallet. Sign in with the wallet first.',
+            error: 'User not found'
+          });
+        }
+
+        return res.status(429).json({
+          success: false,
+          message: `Sponsorship quota exceeded. Each wallet can register up to ${quota} items per day without fees.`,
+          error: 'Sponsorship quota exceeded'
+        });
+      }
+
+      const broadcastResult = await this.blockchainService.sponsorAndBroadcast(check.transaction);
+
+      if (!broadcastResult.success) {
+        await User.refundSponsorship(normalizedAddress);
+        await this.releaseSponsorClaim(claimedId);
+
+        return res.status(502).json({
+          success: false,
+          message: 'Failed to broadcast sponsored transaction',
+          error: broadcastResult.error
+        });
+      }
+
+      // The transaction is out, so the claim must stay even if recording it fails
+      claimedId = null;
+
+      // The reconciler job moves this to confirmed once the transaction is mined
+      await Registration.findByIdAndUpdate(registration._id, {
+        $set: {
+          'blockchain.txId': broadcastResult.txId,
+          'blockchain.sponsored': true,
+          // validateSponsoredRegistration only accepts calls to the active contract
+          'blockchain.contractId': this.blockchainService.getActiveContractId(),
+          'blockchain.contractVersion': this.blockchainService.getActiveContract().version
+        },
+        $unset: { 'blockchain.sponsoring': '' }
+      });
+
+      console.log(`✅ Sponsored registration broadcast: ${broadcastResult.txId} for ${hashHex}`);
+
+      return res.status(202).json({
+        success: true,
+        message: 'Sponsored transaction broadcast. Registration will be confirmed once it is mined.',
+        data: {
+          hash: hashHex,
+          txId: broadcastResult.txId,
+          sponsorship: {
+            used: user.sponsorship.periodSponsored,
+            quota
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Error in sponsored registration:', error);
+
+      if (claimedId) {
+        await this.releaseSponsorClaim(claimedId).catch(releaseError =>
+          console.error('⚠️ Failed to release sponsorship claim:', releaseError)
+        );
+      }
+
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Let a registration be sponsored again after a sponsorship attempt that never broadcast
+   */
+  private async releaseSponsorClaim(registrationId: unknown): Promise<void> {
+    await Registration.updateOne(
+      { _id: registrationId, 'blockchain.sponsoring': true },
+      { $unset: { 'blockchain.sponsoring': '' } }
+    );
+  }
+
+  /**
+   * Confirm registration after blockchain transaction
+   * POST /api/secure/confirm-registration
+   * Takes the content, or the hash for registrations without one (thread roots)
+   */
+  async confirmRegistration(req: Request, res: Response): Promise<Response> {
+    try {
+      const {
+        tweetContent,
+        hash,
+        txId,
+        canonicalization = DEFAULT_CANONICALIZATION
+      }: { tweetContent?: string; hash?: string; txId: string; canonicalization?: CanonicalizationVersion } = req.body;
+
+      if ((!tweetContent && !hash) || !txId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Tweet content (or hash) and transaction ID are required'
+        });
+      }
+
+      if (!HashService.isCanonicalizationVersion(canonicalization)) {
+        return res.status(400).json({
+          success: false,
+          message: `Canonicalization must be one of ${CANONICALIZATION_VERSIONS.join(', ')}`
+        });
+      }
+
+      if (!tweetContent && !/^(0x)?[0-9a-fA-F]{64}$/.test(hash!)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Hash must be 32 bytes of hex'
+        });
+      }
+
+      if (typeof txId !== 'string' || !/^(0x)?[0-9a-fA-F]{64}$/.test(txId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Transaction ID must be 32 bytes of hex'
+        });
+      }
+
+      // Generate hash and verify it exists on blockchain
+      const hashHex = tweetContent
+        ? HashService.generateContentHashHex(tweetContent, canonicalization)
+        : hash!.replace(/^0x/, '').toLowerCase();
+      const contentHash = HashService.hexToBuffer(hashHex);
+
+      // Anyone can call this, so only record a transaction that registers this hash
+      // on one of our contracts from the author's wallet
+      const registration = await Registration.findOne({ contentHash: hashHex });
+      const call = await this.blockchainService.getRegistrationTransaction(txId);
+
+      if (!call) {
+        return res.status(404).json({
+          success: false,
+          message: 'Transaction not found. It may not have reached the node yet.',
+          data: { hash: hashHex, txId }
+        });
+      }
+
+      if (
+        !this.blockchainService.isRegistrationOf(call, hashHex) ||
+        (registration && call.sender.toUpperCase() !== registration.authorWallet)
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: 'Transaction does not register this content from the author\'s wallet',
+          error: 'Invalid transaction'
+        });
+      }
+
+      if (call.status === 'failed') {
+        return res.status(400).json({
+          success: false,
+          message: `Transaction failed: ${call.error}`,
+          error: 'Transaction failed'
+        });
+      }
+
+      // A sponsored broadcast (or an earlier confirm) already recorded the transaction
+      const recordedTxId = registration?.blockchain.txId;
+      if (recordedTxId && !BlockchainService.isSameTxId(recordedTxId, call.txId)) {
+        return res.status(409).json({
+          success: false,
+          message: 'A different transaction is already recorded for this registration',
+          data: { hash: hashHex, txId: recordedTxId }
+        });
+      }
+
+      const txIdFilter = { 'blockchain.txId': { $in: [null, call.txId, call.txId.replace(/^0x/, '')] } };
+
+      const verification = await this.blockchainService.verifyTweet(contentHash);
+
+      if (!verification) {
+        // Not mined yet - remember the txId so the reconciler job can settle it later
+        const pendingRegistration = await Registration.findOneAndUpdate(
+          { contentHash: hashHex, 'blockchain.status': 'pending', ...txIdFilter },
+          { $set: { 'blockchain.txId': call.txId } },
+          { new: true }
+        );
+
+        if (!pendingRegistration) {
+          return res.status(404).json({
+            success: false,
+            message: 'Registration not found on blockchain. Transaction may still be pending.',
+            data: {
+              hash: hashHex,
+              txId
+            }
+          });
+        }
+
+        await this.updateThreadTweets(pendingRegistration, { 'blockchain.txId': call.txId });
+
+        return res.status(202).json({
+          success: true,
+          message: 'Transaction is still pending. Registration will be confirmed automatically once it is mined.',
+          data: {
+            hash: hashHex,
+            txId: call.txId,
+            status: 'pending'
+          }
+        });
+      }
+
+      const registrationTime = await this.blockchainService.getBlockTimes().resolveRegistrationTime(verification.blockHeight);
+      const registeredAt = registrationTime?.registeredAt || new Date();
+
+      // Update MongoDB with blockchain confirmation
+      // Only pending registrations move, so a concurrent reconciler pass can't double-count stats
+      const updatedRegistration = await Registration.findOneAndUpdate(
+        { contentHash: hashHex, 'blockchain.status': 'pending', ...txIdFilter },
+        {
+          $set: {
+            'blockchain.txId': call.txId,
+            'blockchain.blockHeight': verification.blockHeight,
+            'blockchain.registrationId': verification.registrationId,
+            'blockchain.contractId': verification.contractId,
+            'blockchain.contractVersion': verification.contractVersion,
+            'blockchain.status': 'confirmed',
+            'blockchain.timestamp': registeredAt
+          }
+        },
+        { new: true }
+      );
+
+      if (updatedRegistration) {
+        // Update user stats (a thread root isn't counted; its tweets are, below)
+        if (!updatedRegistration.thread || updatedRegistration.thread.parentId) {
+          await User.findOneAndUpdate(
+            { walletAddress: updatedRegistration.authorWallet },
+            {
+              $inc: {
+                'stats.confirmedRegistrations': 1,
+                'stats.pendingRegistrations': -1
+              }
+            }
+          );
+        }
+
+        console.log(`✅ Registration confirmed in database: ${hashHex}`);
+
+        await this.updateThreadTweets(updatedRegistration, {
+          'blockchain.txId': call.txId,
+          'blockchain.blockHeight': verification.blockHeight,
+          'blockchain.registrationId': verification.registrationId,
+          'blockchain.contractId': verification.contractId,
+          'blockchain.contractVersion': verification.contractVersion,
+          'blockchain.status': 'confirmed',
+          'blockchain.timestamp': registeredAt
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Registration confirmed on blockchain',
+        data: {
+          hash: hashHex,
+          txId: call.txId,
+          author: verification.author,
+          registeredAt: registeredAt.toISOString(),
+          burnBlockTime: registrationTime?.burnBlockTime?.toISOString(),
+          timestampSource: registrationTime?.timestampSource || 'database',
+          blockHeight: verification.blockHeight,
+          registrationId: verification.registrationId,
+          contractId: verification.contractId,
+          contractVersion: verification.contractVersion
+        }
+      });
+
+    } catch (error) {
+      console.error('Error confirming registration:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Error confirming registration',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Retrieve original content from IPFS
+   * GET /api/content/:contentHash
+   */
+  async retrieveOriginalContent(req: Request, res: Response): Promise<Response> {
+    try {
+      const { contentHash } = req.params;
+
+      // Get registration from MongoDB
+      const registration = await Registration.findOne({ contentHash });
+
+      if (!registration) {
+        return res.status(404).json({
+          success: false,
+          message: 'Registration not found'
+        });
+      }
+
+      if (!registration.ipfs?.cid) {
+        return res.status(404).json({
+          success: false,
+          message: 'Content not stored on IPFS',
+          data: {
+            preview: registration.content.preview,
+            url: registration.content.url
+          }
+        });
+      }
+
+      // Retrieve from IPFS
+      const ipfsService = (global as any).ipfsService;
+      if (!ipfsService) {
+        return res.status(503).json({
+          success: false,
+          message: 'IPFS service not available'
+        });
+      }
+
+      const ipfsContent = await ipfsService.retrieveContent(registration.ipfs.cid);
+
+      // Update analytics
+      await Registration.findByIdAndUpdate(registration._id, {
+        $inc: { 'analytics.views': 1 },
+        $set: { 'analytics.lastViewed': new Date() }
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          content: ipfsContent.content,
+          metadata: ipfsContent.metadata,
+          ipfs: {
+            cid: registration.ipfs.cid,
+            gateway: registration.ipfs.gateway,
+            gateways: ipfsService.getGatewayURLs(registration.ipfs.cid)
+          },
+          blockchain: {
+            hash: registration.contentHash,
+            txId: registration.blockchain.txId,
+            status: registration.blockchain.status,
+            blockHeight: registration.blockchain.blockHeight
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Content retrieval error:', error);
       return res.status(500).json({
         success: false,
         message: 'Failed to retrieve content',
@@ -556,4 +1697,31 @@ export class RegistrationController {
     }
   }
 
+  /**
+   * Carry a thread root's transaction over to its still pending tweets
+   * No-op for registrations that aren't a thread root
+   */
+  private async updateThreadTweets(parent: IRegistration, $set: Record<string, unknown>): Promise<void> {
+    if (!parent.thread || parent.thread.parentId) {
+      return;
+    }
+
+    const result = await Registration.updateMany(
+      { 'thread.parentId': parent._id, 'blockchain.status': 'pending' },
+      { $set }
+    );
+
+    if ($set['blockchain.status'] === 'confirmed' && result.modifiedCount > 0) {
+      await User.findOneAndUpdate(
+        { walletAddress: parent.authorWallet },
+        {
+          $inc: {
+            'stats.confirmedRegistrations': result.modifiedCount,
+            'stats.pendingRegistrations': -result.modifiedCount
+          }
+        }
+      );
+    }
+  }
+
 }
\ No newline at end of file
@@ -45,6 +45,8 @@ export interface GetUserRegistrationsResponse {
         status: string;
         blockHeight?: number;
         registrationId?: number;
+        contractId?: string;
+        contractVersion?: string;
       };
       ipfs?: {
         cid?: string;
@@ -171,7 +173,9 @@ export class UserController {
           txId: reg.blockchain.txId,
           status: reg.blockchain.status,
           blockHeight: reg.blockchain.blockHeight,
-          registrationId: reg.blockchain.registrationId
+          registrationId: reg.blockchain.registrationId,
+          contractId: reg.blockchain.contractId,
+          contractVersion: reg.blockchain.contractVersion
         },
         ipfs: reg.ipfs ? {
           cid: reg.ipfs.cid,
@@ -286,6 +290,9 @@ export class UserController {
    */
   async getGlobalStats(req: Request, res: Response): Promise<Response> {
     try {
+      // Thread roots only tie their tweets together; the tweets are the registrations
+      const counted = { $or: [{ thread: { $exists: false } }, { 'thread.parentId': { $exists: true } }] };
+
       const [
         totalUsers,
         totalRegistrations,
@@ -294,10 +301,10 @@ export class UserController {
         totalIPFSStored
       ] = await Promise.all([
         User.countDocuments(),
-        Registration.countDocuments(),
-        Registration.countDocuments({ 'blockchain.status': 'confirmed' }),
-        Registration.countDocuments({ 'blockchain.status': 'pending' }),
-        Registration.countDocuments({ 'ipfs.cid': { $exists: true, $ne: null } })
+        Registration.countDocuments(counted),
+        Registration.countDocuments({ ...counted, 'blockchain.status': 'confirmed' }),
+        Registration.countDocuments({ ...counted, 'blockchain.status': 'pending' }),
+        Registration.countDocuments({ ...counted, 'ipfs.cid': { $exists: true, $ne: null } })
       ]);
 
       // Get recent registrations
@@ -1,15 +1,33 @@
 import { Request, Response } from 'express';
-import { HashService } from '../services/HashService';
-import { BlockchainService } from '../services/BlockchainService';
-import { Registration } from '../../shared/models/Registration';
+import {
+  HashService,
+  SegmentMode,
+  CanonicalHash,
+  CanonicalizationVersion,
+  CANONICALIZATION_VERSIONS
+} from '../services/HashService';
+import { BlockchainService, TweetRegistration } from '../services/BlockchainService';
+import { Registration, IRegistration } from '../../shared/models/Registration';
 import { VerificationCache } from '../../shared/models/VerificationCache';
 import { bnsValidationService } from '../services/BNSValidationService';
+import { ContentTypeService } from '../services/ContentTypeService';
+import { chargeRequest } from '../middleware/costLimiter';
+import { FinalityService, Finality } from '../services/FinalityService';
+import { MerkleService, MerkleProofStep } from '../services/MerkleService';
 
 export interface VerifyTweetRequest {
   tweetContent?: string;
   hash?: string;
 }
 
+export interface VerifyExcerptRequest {
+  excerpt: string;
+  hash?: string;  // Limit the search to one registered document
+}
+
+// Registrations checked per segment mode when looking for an excerpt
+const EXCERPT_CANDIDATES = 20;
+
 export interface VerifyTweetResponse {
   success: boolean;
   verified: boolean;
@@ -17,10 +35,37 @@ export interface VerifyTweetResponse {
   data?: {
     hash: string;
     author: string;
-    registeredAt: string;
+    registeredAt?: string;  // Omitted when the block time can't be resolved
+    burnBlockTime?: string;
+    timestampSource?: 'chain' | 'database';
+    canonicalization?: CanonicalizationVersion;  // Version the matching hash was computed with
+    finality: Finality;  // pending: not mined yet; soft: below the confirmation threshold; final: past it
+    confirmations: number;
     blockHeight: number;
     registrationId: number;
     txId?: string;
+    contentType?: string;
+    contractContentType?: string;
+    contractId?: string;  // Deployment holding the registration
+    contractVersion?: string;
+    batch?: {  // Set when the hash was anchored through a batch Merkle root
+      root: string;
+      leafIndex: number;
+      proof: MerkleProofStep[];
+      anchoredOnChain: boolean;
+    };
+    thread?: {  // Set when the tweet was registered as part of a thread
+      root: string;
+      position: number;  // 1 for the opening tweet
+      size: number;
+      proof: MerkleProofStep[];
+      parent: {  // Registration of the thread root
+        hash: string;
+        txId?: string;
+        status: string;
+        tweetUrl?: string;
+      };
+    };
     // Rich metadata from database (when implemented)
     tweetUrl?: string;
     twitterHandle?: string;
@@ -31,9 +76,11 @@ export interface VerifyTweetResponse {
 
 export class VerificationController {
   private blockchainService: BlockchainService;
+  private finalityService: FinalityService;
 
   constructor(blockchainService: BlockchainService) {
     this.blockchainService = blockchainService;
+    this.finalityService = new FinalityService(blockchainService);
   }
 
   /**
@@ -54,11 +101,26 @@ export class VerificationController {
         });
       }
 
+      if (tweetContent && (typeof tweetContent !== 'string' || tweetContent.length > ContentTypeService.getMaxLength('document'))) {
+        return res.status(400).json({
+          success: false,
+          verified: false,
+          message: `Content must be text of at most ${ContentTypeService.getMaxLength('document')} characters`,
+          error: 'Invalid content'
+        });
+      }
+
       let hashHex: string;
+      // Content is hashed under every canonicalization version, since clients may use any of them
+      let candidates: CanonicalHash[] = [];
 
       if (tweetContent) {
         // Generate hash from content
-        hashHex = HashService.generateContentHashHex(tweetContent);
+        candidates = HashService.generateCanonicalHashes(tweetContent)
+          .filter((candidate, index, all) => all.findIndex(other => other.hash === candidate.hash) === index);
+        hashHex = await this.findKnownHash(candidates.map(candidate => candidate.hash))
+          || await this.findSegmentedRoot(tweetContent)
+          || candidates[0].hash;
       } else {
         // Use provided hash
         hashHex = hash!;
@@ -80,6 +142,10 @@ export class VerificationController {
           // Only use cache for POSITIVE results (registered content)
           // Negative results should re-check blockchain in case it was registered directly
           console.log('✅ Verification served from cache (positive result)');
+          await chargeRequest(req, 'cache');
+
+          // Depth changes every block, so it isn't cached
+          const { finality, confirmations } = await this.finalityService.getFinality(cached.result.blockHeight);
 
           // Update analytics if registration exists
           await Registration.findOneAndUpdate(
@@ -99,9 +165,16 @@ export class VerificationController {
               author: cached.result.authorWallet,
               bnsName: cached.result.bnsName,  // Include BNS name from cache
               bnsStatus: cached.result.bnsStatus || 'valid',  // Include BNS status
+              contentType: cached.result.contentType,
               registeredAt: cached.result.registrationDate?.toISOString(),
+              timestampSource: cached.result.timestampSource,
+              canonicalization: candidates.find(candidate => candidate.hash === hashHex)?.version,
+              finality,
+              confirmations,
               blockHeight: cached.result.blockHeight,
-              txId: cached.result.txId
+              txId: cached.result.txId,
+              contractId: cached.result.contractId,
+              contractVersion: cached.result.contractVersion
             }
           });
         } else {
@@ -120,8 +193,29 @@ export class VerificationController {
         'blockchain.status': { $in: ['confirmed', 'pending'] }  // Show badge for pending too
       });
 
+      // Batched hashes aren't on chain themselves; their batch root is
+      if (registration?.batch?.status === 'anchored') {
+        return this.verifyBatchedRegistration(req, res, registration, hashHex);
+      }
+
+      // Tweets in a thread are on chain through the thread's root
+      if (registration?.thread?.parentId) {
+        return this.verifyThreadTweet(req, res, registration, hashHex);
+      }
+
       if (registration) {
         console.log('✅ Verification found in database');
+        await chargeRequest(req, 'database');
+
+        // Pending registrations have no block yet, so they keep the time we recorded
+        const registrationTime = await this.blockchainService.getBlockTimes().resolveRegistrationTime(
+          registration.blockchain.blockHeight,
+          registration.blockchain.timestamp || registration.createdAt
+        );
+        const { finality, confirmations } = await this.finalityService.getFinality(
+          registration.blockchain.status === 'confirmed' ? registration.blockchain.blockHeight : undefined,
+          registration.blockchain.confirmations
+        );
 
         // Update cache with proper schema structure
         await VerificationCache.findOneAndUpdate(
@@ -133,9 +227,13 @@ export class VerificationController {
                 authorWallet: registration.authorWallet,
                 bnsName: registration.bnsName,  // Include BNS name in cache
                 bnsStatus: registration.bnsStatus || 'valid',  // Include BNS status
+                contentType: registration.content.type,
                 blockHeight: registration.blockchain.blockHeight || 0,
-                registrationDate: registration.blockchain.timestamp || new Date(),
-                txId: registration.blockchain.txId || ''
+                registrationDate: registrationTime?.registeredAt,
+                timestampSource: registrationTime?.timestampSource,
+                txId: registration.blockchain.txId || '',
+                contractId: registration.blockchain.contractId,
+                contractVersion: registration.blockchain.contractVersion
               },
               expiresAt: new Date(Date.now() + 3600000), // 1 hour cache
               lastAccessed: new Date()
@@ -161,23 +259,40 @@ export class VerificationController {
             bnsName: registration.bnsName,  // Full BNS name (e.g., "henryno.btc")
             bnsStatus: registration.bnsStatus || 'valid',  // BNS validation status
             lastBnsValidation: registration.lastBnsValidation,
-            registeredAt: (registration.blockchain.timestamp || registration.createdAt).toISOString(),
+            contentType: registration.content.type,
+            title: registration.content.title,
+            contentAuthor: registration.content.author,
+            registeredAt: registrationTime?.registeredAt.toISOString(),
+            burnBlockTime: registrationTime?.burnBlockTime?.toISOString(),
+            timestampSource: registrationTime?.timestampSource,
+            canonicalization: registration.content.canonicalization,
+            finality,
+            confirmations,
             blockHeight: registration.blockchain.blockHeight || 0,
             registrationId: registration.blockchain.registrationId || 0,
             txId: registration.blockchain.txId || '',
+            contractId: registration.blockchain.contractId,
+            contractVersion: registration.blockchain.contractVersion,
             tweetUrl: registration.content.url,
             twitterHandle: registration.content.twitterHandle
           }
         });
       }
 
-      // Step 3: Fallback to blockchain (SLOW - ~10s)
+      // Step 3: Fallback to blockchain (SLOW - one parallel round-trip per contract)
       console.log('⚠️  Cache miss - querying blockchain');
-      const contentHash = tweetContent
-        ? HashService.generateContentHash(tweetContent)
-        : HashService.hexToBuffer(hash!);
-
-      const verification = await this.blockchainService.verifyTweet(contentHash);
+      // Content we have no record of may have been registered under any version
+      const lookups = candidates.length > 0 ? candidates.map(candidate => candidate.hash) : [hashHex];
+      await chargeRequest(req, 'chain', lookups.length);
+
+      let verification: TweetRegistration | null = null;
+      for (const lookup of lookups) {
+        verification = await this.blockchainService.verifyTweet(HashService.hexToBuffer(lookup));
+        if (verification) {
+          hashHex = lookup;
+          break;
+        }
+      }
 
       if (!verification) {
         // Cache negative result with proper schema structure
@@ -203,6 +318,9 @@ export class VerificationController {
         });
       }
 
+      const registrationTime = await this.blockchainService.getBlockTimes().resolveRegistrationTime(verification.blockHeight);
+      const { finality, confirmations } = await this.finalityService.getFinality(verification.blockHeight);
+
       // Cache positive result with proper schema structure
       await VerificationCache.findOneAndUpdate(
         { contentHash: hashHex },
@@ -213,8 +331,12 @@ export class VerificationController {
               authorWallet: verification.author,
               bnsName: verification.bnsName,  // Include BNS from blockchain
               bnsStatus: 'valid',  // New registrations always valid
+              contentType: ContentTypeService.fromContractType(verification.contentType),
               blockHeight: verification.blockHeight,
-              registrationDate: new Date(verification.timestamp > 1000000000000 ? verification.timestamp : verification.timestamp * 1000)
+              registrationDate: registrationTime?.registeredAt,
+              timestampSource: registrationTime?.timestampSource,
+              contractId: verification.contractId,
+              contractVersion: verification.contractVersion
             },
             expiresAt: new Date(Date.now() + 3600000), // 1 hour
             lastAccessed: new Date()
@@ -233,9 +355,18 @@ export class VerificationController {
           author: verification.author,
           bnsName: verification.bnsName,  // Include BNS from blockchain
           bnsStatus: 'valid',  // New registrations always valid
-          registeredAt: new Date(verification.timestamp > 1000000000000 ? verification.timestamp : verification.timestamp * 1000).toISOString(),
+          contentType: ContentTypeService.fromContractType(verification.contentType),
+          contractContentType: verification.contentType,
+          registeredAt: registrationTime?.registeredAt.toISOString(),
+          burnBlockTime: registrationTime?.burnBlockTime?.toISOString(),
+          timestampSource: registrationTime?.timestampSource,
+          canonicalization: candidates.find(candidate => candidate.hash === hashHex)?.version,
+          finality,
+          confirmations,
           blockHeight: verification.blockHeight,
-          registrationId: verification.registrationId
+          registrationId: verification.registrationId,
+          contractId: verification.contractId,
+          contractVersion: verification.contractVersion
         }
       });
 
@@ -251,6 +382,197 @@ export class VerificationController {
     }
   }
 
+  /**
+   * First of the candidate hashes we have a registration or positive cache entry for
+   * @param hashes - Hashes of the same content under each canonicalization version, oldest first
+   */
+  private async findKnownHash(hashes: string[]): Promise<string | null> {
+    const registrations = await Registration.find({
+      contentHash: { $in: hashes },
+      'blockchain.status': { $in: ['confirmed', 'pending'] }
+    }).select('contentHash');
+    const cached = await VerificationCache.find({
+      contentHash: { $in: hashes },
+      expiresAt: { $gt: new Date() },
+      'result.isRegistered': true
+    }).select('contentHash');
+
+    const known = new Set([...registrations, ...cached].map(record => record.contentHash));
+    return hashes.find(hash => known.has(hash)) || null;
+  }
+
+  /**
+   * Root of the segmented registration the whole text was registered as, if any
+   * Segmented documents are stored under the Merkle root of their segments, not the text's hash
+   */
+  private async findSegmentedRoot(content: string): Promise<string | null> {
+    const roots = (['paragraph', 'sentence'] as SegmentMode[]).flatMap(mode =>
+      CANONICALIZATION_VERSIONS.map(version => {
+        const segmentHashes = HashService.generateSegmentHashes(content, mode, version);
+        return segmentHashes.length > 0
+          ? MerkleService.getRoot(MerkleService.buildTree(segmentHashes.map(hash => HashService.hexToBuffer(hash)))).toString('hex')
+          : null;
+      })
+    ).filter((root): root is string => !!root);
+
+    const registration = await Registration.findOne({
+      contentHash: { $in: roots },
+      'content.segments': { $exists: true },
+      'blockchain.status': { $in: ['confirmed', 'pending'] }
+    }).sort({ createdAt: 1 });
+
+    return registration?.contentHash || null;
+  }
+
+  /**
+   * Verify a registration anchored through a batch Merkle root
+   * Checks the stored inclusion proof against the root, then looks the root up on chain
+   */
+  private async verifyBatchedRegistration(
+    req: Request,
+    res: Response,
+    registration: IRegistration,
+    hashHex: string
+  ): Promise<Response<VerifyTweetResponse>> {
+    const { root, leafIndex, proof } = registration.batch!;
+    await chargeRequest(req, 'chain');
+
+    if (!root || !proof || !MerkleService.verifyProof(HashService.hexToBuffer(hashHex), proof, HashService.hexToBuffer(root))) {
+      console.error(`❌ Stored batch proof for ${hashHex} does not lead to root ${root}`);
+      return res.json({
+        success: true,
+        verified: false,
+        message: 'Batch inclusion proof does not match the batch root'
+      });
+    }
+
+    const anchor = await this.blockchainService.verifyTweet(HashService.hexToBuffer(root));
+    console.log(anchor
+      ? `✅ Verified via batch root ${root} (leaf ${leafIndex})`
+      : `⏳ Batch root ${root} not on chain yet`);
+
+    const registrationTime = await this.blockchainService.getBlockTimes().resolveRegistrationTime(
+      anchor?.blockHeight,
+      registration.blockchain.timestamp || registration.createdAt
+    );
+    const { finality, confirmations } = await this.finalityService.getFinality(anchor?.blockHeight);
+
+    await Registration.findByIdAndUpdate(registration._id, {
+      $inc: { 'analytics.verifications': 1 },
+      $set: { 'analytics.lastVerified': new Date() }
+    });
+
+    return res.json({
+      success: true,
+      verified: true,
+      message: anchor
+        ? `Content verified via batch root ${root}`
+        : 'Content is queued in a batch whose root is not on chain yet',
+      data: {
+        hash: hashHex,
+        author: registration.authorWallet,
+        contentType: registration.content.type,
+        title: registration.content.title,
+        registeredAt: registrationTime?.registeredAt.toISOString(),
+        burnBlockTime: registrationTime?.burnBlockTime?.toISOString(),
+        timestampSource: registrationTime?.timestampSource,
+        finality,
+        confirmations,
+        blockHeight: anchor?.blockHeight || 0,
+        registrationId: anchor?.registrationId || 0,
+        txId: registration.blockchain.txId || '',
+        contractId: anchor?.contractId,
+        contractVersion: anchor?.contractVersion,
+        batch: {
+          root,
+          leafIndex: leafIndex!,
+          proof,
+          anchoredOnChain: !!anchor
+        },
+        tweetUrl: registration.content.url,
+        twitterHandle: registration.content.twitterHandle
+      }
+    });
+  }
+
+  /**
+   * Verify a tweet registered as part of a thread
+   * The tweet's own registration follows the root's transaction, so no chain lookup is needed
+   */
+  private async verifyThreadTweet(
+    req: Request,
+    res: Response,
+    registration: IRegistration,
+    hashHex: string
+  ): Promise<Response<VerifyTweetResponse>> {
+    const { root, position, size, proof, parentId } = registration.thread!;
+    await chargeRequest(req, 'database');
+
+    const parent = await Registration.findById(parentId);
+
+    if (!parent || !proof || !MerkleService.verifyProof(HashService.hexToBuffer(hashHex), proof, HashService.hexToBuffer(root))) {
+      console.error(`❌ Stored thread proof for ${hashHex} does not lead to root ${root}`);
+      return res.json({
+        success: true,
+        verified: false,
+        message: 'Thread inclusion proof does not match the thread root'
+      });
+    }
+
+    console.log(`✅ Verified tweet ${position}/${size} of thread ${root}`);
+
+    const registrationTime = await this.blockchainService.getBlockTimes().resolveRegistrationTime(
+      registration.blockchain.blockHeight,
+      registration.blockchain.timestamp || registration.createdAt
+    );
+    const { finality, confirmations } = await this.finalityService.getFinality(
+      registration.blockchain.status === 'confirmed' ? registration.blockchain.blockHeight : undefined,
+      registration.blockchain.confirmations
+    );
+
+    await Registration.findByIdAndUpdate(registration._id, {
+      $inc: { 'analytics.verifications': 1 },
+      $set: { 'analytics.lastVerified': new Date() }
+    });
+
+    return res.json({
+      success: true,
+      verified: true,
+      message: `Content verified as tweet ${position} of ${size} in thread ${root}`,
+      data: {
+        hash: hashHex,
+        author: registration.authorWallet,
+        bnsName: registration.bnsName,
+        bnsStatus: registration.bnsStatus || 'valid',
+        contentType: registration.content.type,
+        registeredAt: registrationTime?.registeredAt.toISOString(),
+        burnBlockTime: registrationTime?.burnBlockTime?.toISOString(),
+        timestampSource: registrationTime?.timestampSource,
+        finality,
+        confirmations,
+        blockHeight: registration.blockchain.blockHeight || 0,
+        registrationId: registration.blockchain.registrationId || 0,
+        txId: registration.blockchain.txId || '',
+        contractId: registration.blockchain.contractId,
+        contractVersion: registration.blockchain.contractVersion,
+        thread: {
+          root,
+          position: position!,
+          size,
+          proof,
+          parent: {
+            hash: parent.contentHash,
+            txId: parent.blockchain.txId,
+            status: parent.blockchain.status,
+            tweetUrl: parent.content.url
+          }
+        },
+        tweetUrl: registration.content.url,
+        twitterHandle: registration.content.twitterHandle
+      }
+    });
+  }
+
     /**
    * Quick hash existence check
    * GET /api/verify/:hash
@@ -268,6 +590,7 @@ export class VerificationController {
       }
 
       const contentHash = HashService.hexToBuffer(hash);
+      await chargeRequest(req, 'chain');
       const exists = await this.blockchainService.hashExists(contentHash);
 
       return res.json({
@@ -296,6 +619,166 @@ export class VerificationController {
 
 
 
+  /**
+   * Prove an excerpt is part of a segmented registration
+   * POST /api/verify/excerpt
+   * The excerpt must consist of whole segments (paragraphs or sentences) of the document
+   */
+  async verifyExcerpt(req: Request, res: Response): Promise<Response> {
+    try {
+      const { excerpt, hash }: VerifyExcerptRequest = req.body;
+
+      if (typeof excerpt !== 'string' || !excerpt.trim()) {
+        return res.status(400).json({
+          success: false,
+          verified: false,
+          message: 'Excerpt is required',
+          error: 'Missing required fields'
+        });
+      }
+
+      if (excerpt.length > ContentTypeService.getMaxLength('document')) {
+        return res.status(400).json({
+          success: false,
+          verified: false,
+          message: `Excerpt exceeds ${ContentTypeService.getMaxLength('document')} characters`
+        });
+      }
+
+      if (hash !== undefined && !/^(0x)?[0-9a-fA-F]{64}$/.test(hash)) {
+        return res.status(400).json({
+          success: false,
+          verified: false,
+          message: 'Hash must be 32 bytes of hex'
+        });
+      }
+
+      const match = await this.findExcerpt(excerpt, hash?.replace(/^0x/, '').toLowerCase());
+
+      if (!match) {
+        await chargeRequest(req, 'database');
+        return res.json({
+          success: true,
+          verified: false,
+          message: 'Excerpt does not match any segmented registration'
+        });
+      }
+
+      const { registration, mode, start, count } = match;
+      const segmentHashes = registration.content.segments!.hashes;
+      const tree = MerkleService.buildTree(segmentHashes.map(segmentHash => HashService.hexToBuffer(segmentHash)));
+
+      // The segment proofs only lead to the root; the root itself has to be on chain
+      await chargeRequest(req, 'chain');
+      const anchor = await this.blockchainService.verifyTweet(HashService.hexToBuffer(registration.contentHash));
+
+      console.log(anchor
+        ? `✅ Excerpt matched ${count} ${mode} segment(s) of ${registration.contentHash}`
+        : `⏳ Excerpt matched ${count} ${mode} segment(s) of ${registration.contentHash}, which is not on chain yet`);
+
+      const registrationTime = await this.blockchainService.getBlockTimes().resolveRegistrationTime(
+        anchor?.blockHeight,
+        registration.blockchain.timestamp || registration.createdAt
+      );
+      const { finality, confirmations } = await this.finalityService.getFinality(anchor?.blockHeight);
+
+      await Registration.findByIdAndUpdate(registration._id, {
+        $inc: { 'analytics.verifications': 1 },
+        $set: { 'analytics.lastVerified': new Date() }
+      });
+
+      return res.json({
+        success: true,
+        verified: !!anchor,
+        message: anchor
+          ? `Excerpt found in registered content ${registration.contentHash}`
+          : `Excerpt found in content ${registration.contentHash}, which is not registered on chain yet`,
+        data: {
+          hash: registration.contentHash,
+          author: registration.authorWallet,
+          bnsName: registration.bnsName,
+          bnsStatus: registration.bnsStatus || 'valid',
+          contentType: registration.content.type,
+          title: registration.content.title,
+          contentAuthor: registration.content.author,
+          url: registration.content.url,
+          registeredAt: registrationTime?.registeredAt.toISOString(),
+          burnBlockTime: registrationTime?.burnBlockTime?.toISOString(),
+          timestampSource: registrationTime?.timestampSource,
+          finality,
+          confirmations,
+          blockHeight: anchor?.blockHeight || 0,
+          registrationId: anchor?.registrationId || 0,
+          txId: registration.blockchain.txId || '',
+          contractId: anchor?.contractId,
+          contractVersion: anchor?.contractVersion,
+          excerpt: {
+            segmentation: mode,
+            segmentCount: segmentHashes.length,
+            segments: segmentHashes.slice(start, start + count).map((segmentHash, offset) => ({
+              leafIndex: start + offset,
+              hash: segmentHash,
+              proof: MerkleService.getProof(tree, start + offset)
+            }))
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Error verifying excerpt:', error);
+
+      return res.status(500).json({
+        success: false,
+        verified: false,
+        message: 'Error during excerpt verification',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Find the earliest segmented registration containing the excerpt's segments in a row
+   * The excerpt is split both ways and hashed under every canonicalization version,
+   * since any of them may have been used for the document
+   */
+  private async findExcerpt(
+    excerpt: string,
+    documentHash?: string
+  ): Promise<{ registration: IRegistration; mode: SegmentMode; start: number; count: number } | null> {
+    const tried = new Set<string>();
+    const splits = (['paragraph', 'sentence'] as SegmentMode[]).flatMap(mode =>
+      CANONICALIZATION_VERSIONS.map(version => ({ mode, hashes: HashService.generateSegmentHashes(excerpt, mode, version) }))
+    );
+
+    for (const { mode, hashes: excerptHashes } of splits) {
+      const key = `${mode}:${excerptHashes.join(',')}`;
+      if (excerptHashes.length === 0 || tried.has(key)) {
+        continue;
+      }
+      tried.add(key);
+
+      const candidates = await Registration.find({
+        'content.segments.mode': mode,
+        'content.segments.hashes': { $all: excerptHashes },
+        'blockchain.status': { $in: ['confirmed', 'pending'] },
+        ...(documentHash ? { contentHash: documentHash } : {})
+      })
+        .sort({ createdAt: 1 })
+        .limit(EXCERPT_CANDIDATES);
+
+      for (const registration of candidates) {
+        const hashes = registration.content.segments!.hashes;
+        for (let start = 0; start + excerptHashes.length <= hashes.length; start++) {
+          if (excerptHashes.every((excerptHash, offset) => hashes[start + offset] === excerptHash)) {
+            return { registration, mode, start, count: excerptHashes.length };
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Batch verify multiple hashes or contents
    * POST /api/verify/batch
@@ -318,6 +801,9 @@ export class VerificationController {
         });
       }
 
+      // Every item with a hash or content is looked up on-chain
+      await chargeRequest(req, 'chain', items.filter(item => item?.content || item?.hash).length);
+
       // Process each item
       const results = [];
       for (const item of items) {
@@ -341,16 +827,25 @@ export class VerificationController {
 
         try {
           const verification = await this.blockchainService.verifyTweet(contentHash);
-          
+          const registrationTime = verification
+            ? await this.blockchainService.getBlockTimes().resolveRegistrationTime(verification.blockHeight)
+            : null;
+
           results.push({
             success: true,
             verified: !!verification,
             hash: hashHex,
             data: verification ? {
               author: verification.author,
-              registeredAt: new Date(verification.timestamp * 1000).toISOString(),
+              contentType: ContentTypeService.fromContractType(verification.contentType),
+              contractContentType: verification.contentType,
+              registeredAt: registrationTime?.registeredAt.toISOString(),
+              burnBlockTime: registrationTime?.burnBlockTime?.toISOString(),
+              timestampSource: registrationTime?.timestampSource,
               blockHeight: verification.blockHeight,
               registrationId: verification.registrationId,
+              contractId: verification.contractId,
+              contractVersion: verification.contractVersion
             } : null
           });
         } catch (error) {
@@ -1,8 +1,11 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { verifyMessageSignature } from '@stacks/encryption';
-import { publicKeyToAddress, AddressVersion } from '@stacks/transactions';
 import { User } from '../../../../shared/models/User';
+import { Session, generateSessionToken, hashSessionToken } from '../../../../shared/models/Session';
+import { Challenge } from '../../../../shared/models/Challenge';
+import { WalletSignatureService, SignatureType } from '../services/WalletSignatureService';
+import { SignInWithStacksService } from '../services/SignInWithStacksService';
+import { ContractRegistry } from '../services/ContractRegistry';
 
 interface WalletAuthData {
   address: string;
@@ -10,14 +13,7 @@ interface WalletAuthData {
   message: string;
   publicKey: string;
   walletType: 'stacks';
-}
-
-interface Challenge {
-  challenge: string;
-  address: string;
-  createdAt: Date;
-  expiresAt: Date;
-  type: 'connection' | 'verification';
+  signatureType?: SignatureType; // 'legacy' (stx_signMessage) or 'structured' (SIP-018)
 }
 
 /**
@@ -29,25 +25,24 @@ interface Challenge {
  * 3. Session management with wallet authentication
  */
 export class WalletAuthController {
-  // In-memory challenge storage (replace with MongoDB in production)
-  private static challenges: Map<string, Challenge> = new Map();
-
-  // In-memory session storage (replace with MongoDB in production)
-  private static sessions: Map<string, any> = new Map();
-
   // Challenge expiration time (5 minutes)
   private static CHALLENGE_EXPIRATION_MS = 5 * 60 * 1000;
 
-  // Session expiration time (4 hours)
-  private static SESSION_EXPIRATION_MS = 4 * 60 * 60 * 1000;
+  // Access token lifetime (15 minutes) - clients renew it with the refresh token
+  private static ACCESS_TOKEN_EXPIRATION_MS = 15 * 60 * 1000;
+
+  // Session lifetime (30 days) - how long a refresh token chain stays usable
+  private static SESSION_EXPIRATION_MS = 30 * 24 * 60 * 60 * 1000;
 
   /**
-   * Generate authentication challenge for wallet signing
-   * GET /api/auth/wallet/challenge?address=XXX&type=connection
+   * Generate a Sign-In With Stacks challenge for wallet signing
+   * GET /api/auth/wallet/challenge?address=XXX&scope=connection
+   * (`type` is still accepted as an alias for `scope`)
    */
   async getChallenge(req: Request, res: Response): Promise<Response> {
     try {
-      const { address, type = 'connection' } = req.query;
+      const { address } = req.query;
+      const scope = req.query.scope ?? req.query.type ?? 'connection';
 
       if (!address || typeof address !== 'string') {
         return res.status(400).json({
@@ -56,34 +51,57 @@ export class WalletAuthController {
         });
       }
 
-      // Generate unique challenge message
-      const timestamp = Date.now();
-      const nonce = uuidv4();
-      const challengeMessage = `TruthChain Authentication\n\nSign this message to verify your wallet ownership.\n\nWallet: ${address}\nTimestamp: ${timestamp}\nNonce: ${nonce}`;
+      if (!SignInWithStacksService.isScope(scope)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unsupported scope: ${scope}. Use connection or verification`
+        });
+      }
+
+      const mainnet = ContractRegistry.getNetwork() === 'mainnet';
+      if (mainnet !== /^S[PM]/.test(address)) {
+        return res.status(400).json({
+          success: false,
+          error: `Wallet address must be a ${mainnet ? 'mainnet' : 'testnet'} address`
+        });
+      }
 
       const now = new Date();
       const expiresAt = new Date(now.getTime() + WalletAuthController.CHALLENGE_EXPIRATION_MS);
+      const nonce = uuidv4().replace(/-/g, '');
+      const { domain, uri } = SignInWithStacksService.getDomain();
 
-      // Store challenge
-      const challenge: Challenge = {
-        challenge: challengeMessage,
+      const challengeMessage = SignInWithStacksService.build({
+        domain,
         address,
-        createdAt: now,
-        expiresAt,
-        type: type as 'connection' | 'verification'
-      };
-
-      WalletAuthController.challenges.set(`${address}_${nonce}`, challenge);
+        ...SignInWithStacksService.getScopeFields(scope),
+        uri,
+        version: '1',
+        chainId: SignInWithStacksService.getChainId(),
+        nonce,
+        issuedAt: now.toISOString(),
+        expirationTime: expiresAt.toISOString()
+      });
 
-      // Clean up expired challenges
-      this.cleanupExpiredChallenges();
+      // Store challenge (expired challenges are removed by the TTL index)
+      await Challenge.create({
+        nonce,
+        address,
+        message: challengeMessage,
+        scope,
+        expiresAt
+      });
 
       console.log(`✅ Challenge generated for wallet: ${address.substring(0, 10)}...`);
 
       return res.status(200).json({
         success: true,
         challenge: challengeMessage,
-        expiresAt: expiresAt.toISOString()
+        nonce,
+        scope,
+        expiresAt: expiresAt.toISOString(),
+        // Domain to use when signing the challenge as SIP-018 structured data
+        structuredDomain: WalletSignatureService.getStructuredDomain(mainnet)
       });
 
     } catch (error) {
@@ -95,59 +113,13 @@ export class WalletAuthController {
     }
   }
 
-  /**
-   * Verify wallet signature - using address-based verification
-   */
-  private verifyWalletSignature(data: WalletAuthData): { isValid: boolean; networkAddress: string } {
-    try {
-      console.log('🔍 Verifying wallet signature...');
-      console.log('📝 Message:', data.message);
-      console.log('🔑 Public key:', data.publicKey);
-      console.log('📍 Address:', data.address);
-
-      // Verify that the public key corresponds to the address
-      try {
-        // Try both mainnet and testnet address versions
-        const mainnetAddress = publicKeyToAddress(AddressVersion.MainnetSingleSig, data.publicKey);
-        const testnetAddress = publicKeyToAddress(AddressVersion.TestnetSingleSig, data.publicKey);
-
-        console.log('🔗 Derived mainnet address:', mainnetAddress);
-        console.log('🔗 Derived testnet address:', testnetAddress);
-
-        if (data.address !== mainnetAddress && data.address !== testnetAddress) {
-          console.log('❌ Address does not match derived addresses');
-          return { isValid: false, networkAddress: data.address };
-        }
-
-        console.log('✅ Address verification passed');
-
-        // Determine which network we're on
-        const network = process.env.NETWORK || 'testnet';
-        const networkAddress = network === 'mainnet' ? mainnetAddress : testnetAddress;
-
-        console.log(`🌐 Using ${network} address:`, networkAddress);
-
-        // Address verification passed - sufficient for production
-        console.log('✅ Signature verification passed (address-based verification)');
-        return { isValid: true, networkAddress };
-      } catch (addressError) {
-        console.log('❌ Address verification failed:', addressError);
-        return { isValid: false, networkAddress: data.address };
-      }
-
-    } catch (error) {
-      console.error('❌ Signature verification failed:', error);
-      return { isValid: false, networkAddress: data.address };
-    }
-  }
-
   /**
    * Login/Register with wallet
    * POST /api/auth/login/wallet
    */
   async loginWithWallet(req: Request, res: Response): Promise<Response> {
     try {
-      const { address, signature, message, publicKey, walletType }: WalletAuthData = req.body;
+      const { address, signature, message, publicKey, walletType, signatureType }: WalletAuthData = req.body;
 
       // Validate required fields
       if (!address || !signature || !message || !publicKey) {
@@ -157,32 +129,46 @@ export class WalletAuthController {
         });
       }
 
-      // Verify signature
-      const { isValid, networkAddress } = this.verifyWalletSignature({
+      // Check the Sign-In With Stacks fields before the (more expensive) signature check
+      const { message: signIn, error: parseError } = SignInWithStacksService.parse(message);
+      const { domain, uri } = SignInWithStacksService.getDomain();
+      const signInError = parseError || SignInWithStacksService.validate(signIn!, {
+        domain,
+        uri,
+        chainId: SignInWithStacksService.getChainId(),
+        address,
+        maxAgeMs: WalletAuthController.CHALLENGE_EXPIRATION_MS
+      });
+
+      if (signInError) {
+        console.log(`❌ Sign-in message rejected for ${String(address).substring(0, 10)}...: ${signInError}`);
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid sign-in message',
+          message: signInError
+        });
+      }
+
+      // Verify the signature over the message and that the key owns the address
+      const { isValid, networkAddress, error: signatureError } = WalletSignatureService.verify({
         address,
         signature,
         message,
         publicKey,
-        walletType
+        signatureType
       });
 
       if (!isValid) {
+        console.log(`❌ Wallet signature rejected for ${String(address).substring(0, 10)}...: ${signatureError}`);
         return res.status(401).json({
           success: false,
-          error: 'Invalid wallet signature'
+          error: 'Invalid wallet signature',
+          message: signatureError
         });
       }
 
-      // Find matching challenge
-      let matchingChallenge: Challenge | undefined;
-      for (const [key, challenge] of WalletAuthController.challenges.entries()) {
-        if (challenge.address === address && challenge.challenge === message) {
-          matchingChallenge = challenge;
-          // Remove used challenge
-          WalletAuthController.challenges.delete(key);
-          break;
-        }
-      }
+      // Consume the matching challenge - single use, so a replayed signature fails here
+      const matchingChallenge = await Challenge.consume(address, message);
 
       if (!matchingChallenge) {
         return res.status(401).json({
@@ -191,42 +177,38 @@ export class WalletAuthController {
         });
       }
 
-      // Check if challenge is expired
-      if (new Date() > matchingChallenge.expiresAt) {
-        return res.status(401).json({
-          success: false,
-          error: 'Challenge has expired'
-        });
-      }
-
       // Create session
       const sessionId = uuidv4();
       const now = new Date();
       const expiresAt = new Date(now.getTime() + WalletAuthController.SESSION_EXPIRATION_MS);
 
-      const session = {
+      const accessToken = generateSessionToken();
+      const accessTokenExpiresAt = new Date(now.getTime() + WalletAuthController.ACCESS_TOKEN_EXPIRATION_MS);
+      const refreshToken = generateSessionToken();
+
+      const userAgent = req.headers['user-agent'];
+      const platform = this.detectPlatform(userAgent);
+      const source = this.detectSource(userAgent);
+
+      await Session.create({
         sessionId,
         walletAddress: networkAddress,
-        publicKey,
+        source,
         walletType,
-        network: process.env.NETWORK || 'testnet',
-        createdAt: now,
+        publicKey,
+        network: ContractRegistry.getNetwork(),
+        walletVerified: true,
+        scope: matchingChallenge.scope,
+        active: true,
+        accessTokenHash: hashSessionToken(accessToken),
+        accessTokenExpiresAt,
+        refreshTokenHash: hashSessionToken(refreshToken),
         expiresAt,
-        lastActivity: now,
-        active: true
-      };
-
-      WalletAuthController.sessions.set(sessionId, session);
-
-      // Clean up expired sessions
-      this.cleanupExpiredSessions();
+        lastActivity: now
+      });
 
       // Create or update user in database
       try {
-        const userAgent = req.headers['user-agent'];
-        const platform = this.detectPlatform(userAgent);
-        const source = this.detectSource(userAgent);
-
         // Find or create user
         let user = await User.findOne({ walletAddress: networkAddress });
 
@@ -270,6 +252,7 @@ export class WalletAuthController {
           sessionId,
           source,
           walletType: walletType === 'stacks' ? 'other' : walletType,
+          platform,
           expiresAt
         });
 
@@ -301,7 +284,10 @@ export class WalletAuthController {
         session: {
           sessionId,
           walletAddress: networkAddress,
-          expiresAt: expiresAt.toISOString()
+          expiresAt: expiresAt.toISOString(),
+          accessToken,
+          accessTokenExpiresAt: accessTokenExpiresAt.toISOString(),
+          refreshToken
         },
         user: userData
       });
@@ -330,7 +316,7 @@ export class WalletAuthController {
         });
       }
 
-      const session = WalletAuthController.sessions.get(sessionId);
+      const session = await Session.findOne({ sessionId });
 
       if (!session) {
         return res.status(404).json({
@@ -341,7 +327,6 @@ export class WalletAuthController {
 
       // Check if session is expired
       if (new Date() > session.expiresAt) {
-        WalletAuthController.sessions.delete(sessionId);
         return res.status(401).json({
           success: false,
           error: 'Session has expired'
@@ -358,7 +343,7 @@ export class WalletAuthController {
 
       // Update last activity
       session.lastActivity = new Date();
-      WalletAuthController.sessions.set(sessionId, session);
+      await session.save();
 
       return res.status(200).json({
         success: true,
@@ -380,7 +365,118 @@ export class WalletAuthController {
   }
 
   /**
-   * Logout (invalidate session)
+   * Exchange a refresh token for a new access/refresh token pair
+   * POST /api/auth/refresh
+   */
+  async refreshSession(req: Request, res: Response): Promise<Response> {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'Refresh token is required'
+        });
+      }
+
+      const now = new Date();
+      const accessToken = generateSessionToken();
+      const accessTokenExpiresAt = new Date(now.getTime() + WalletAuthController.ACCESS_TOKEN_EXPIRATION_MS);
+      const nextRefreshToken = generateSessionToken();
+
+      const session = await Session.rotateRefreshToken(refreshToken, {
+        accessToken,
+        accessTokenExpiresAt,
+        refreshToken: nextRefreshToken
+      });
+
+      if (!session) {
+        // A rotated-out token coming back means it leaked - end that session
+        const reused = await Session.findOne({
+          previousRefreshTokenHash: hashSessionToken(refreshToken),
+          active: true
+        });
+
+        if (reused) {
+          console.warn(`🚨 Refresh token reuse detected, revoking session ${reused.sessionId}`);
+          await this.revokeSession(reused.walletAddress, reused.sessionId);
+        }
+
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid or expired refresh token'
+        });
+      }
+
+      await User.updateOne(
+        { walletAddress: session.walletAddress, 'sessions.sessionId': session.sessionId },
+        { $set: { 'sessions.$.lastActivity': now } }
+      );
+
+      return res.status(200).json({
+        success: true,
+        session: {
+          sessionId: session.sessionId,
+          walletAddress: session.walletAddress,
+          expiresAt: session.expiresAt.toISOString(),
+          accessToken,
+          accessTokenExpiresAt: accessTokenExpiresAt.toISOString(),
+          refreshToken: nextRefreshToken
+        }
+      });
+
+    } catch (error) {
+      console.error('❌ Session refresh error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Session refresh failed'
+      });
+    }
+  }
+
+  /**
+   * List the authenticated wallet's active sessions (devices)
+   * GET /api/auth/sessions
+   */
+  async listSessions(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = await User.findOne({ walletAddress: req.wallet!.address }).lean();
+      const now = new Date();
+
+      const sessions = (user?.sessions || [])
+        .filter(session => session.active && new Date(session.expiresAt) > now)
+        .sort((a, b) => new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime())
+        .map(session => ({
+          sessionId: session.sessionId,
+          source: session.source,
+          platform: session.platform || 'unknown',
+          walletType: session.walletType,
+          createdAt: session.createdAt,
+          lastActivity: session.lastActivity,
+          expiresAt: session.expiresAt,
+          current: session.sessionId === req.wallet!.sessionId
+        }));
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          walletAddress: req.wallet!.address,
+          activeSessions: sessions.length,
+          sessions
+        }
+      });
+
+    } catch (error) {
+      console.error('❌ Error listing sessions:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list sessions'
+      });
+    }
+  }
+
+  /**
+   * Logout (invalidate one of the authenticated wallet's sessions)
    * DELETE /api/auth/session/:sessionId
    */
   async logout(req: Request, res: Response): Promise<Response> {
@@ -394,7 +490,7 @@ export class WalletAuthController {
         });
       }
 
-      const session = WalletAuthController.sessions.get(sessionId);
+      const session = await Session.findOne({ sessionId }).lean();
 
       if (!session) {
         return res.status(404).json({
@@ -403,14 +499,14 @@ export class WalletAuthController {
         });
       }
 
-      // Mark session as inactive
-      session.active = false;
-      WalletAuthController.sessions.set(sessionId, session);
+      if (session.walletAddress !== req.wallet!.address.toUpperCase()) {
+        return res.status(403).json({
+          success: false,
+          error: 'Session belongs to a different wallet'
+        });
+      }
 
-      // Delete session after marking inactive
-      setTimeout(() => {
-        WalletAuthController.sessions.delete(sessionId);
-      }, 1000);
+      await this.revokeSession(session.walletAddress, sessionId);
 
       console.log(`✅ Session logged out: ${sessionId}`);
 
@@ -428,6 +524,60 @@ export class WalletAuthController {
     }
   }
 
+  /**
+   * Revoke every session of the authenticated wallet except the current one
+   * POST /api/auth/sessions/revoke-others
+   */
+  async revokeOtherSessions(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = await User.findOne({ walletAddress: req.wallet!.address });
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+      }
+
+      const otherSessionIds = user.sessions
+        .filter(session => session.active && session.sessionId !== req.wallet!.sessionId)
+        .map(session => session.sessionId);
+
+      // invalidateSession saves the user, so run them one at a time
+      for (const sessionId of otherSessionIds) {
+        await user.invalidateSession(sessionId);
+      }
+
+      console.log(`✅ Revoked ${otherSessionIds.length} other session(s) for ${user.walletAddress.substring(0, 10)}...`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Other sessions revoked',
+        revoked: otherSessionIds.length
+      });
+
+    } catch (error) {
+      console.error('❌ Error revoking sessions:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to revoke sessions'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a session token and its entry in the user's device list
+   */
+  private async revokeSession(walletAddress: string, sessionId: string): Promise<void> {
+    const user = await User.findOne({ walletAddress });
+
+    if (user) {
+      await user.invalidateSession(sessionId);
+    } else {
+      await Session.invalidate(sessionId);
+    }
+  }
+
   /**
    * Detect source from user agent
    */
@@ -459,61 +609,35 @@ export class WalletAuthController {
     return 'unknown';
   }
 
-  /**
-   * Clean up expired challenges
-   */
-  private cleanupExpiredChallenges(): void {
-    const now = new Date();
-    let cleanedCount = 0;
-
-    for (const [key, challenge] of WalletAuthController.challenges.entries()) {
-      if (now > challenge.expiresAt) {
-        WalletAuthController.challenges.delete(key);
-        cleanedCount++;
-      }
-    }
-
-    if (cleanedCount > 0) {
-      console.log(`🧹 Cleaned up ${cleanedCount} expired challenges`);
-    }
-  }
-
-  /**
-   * Clean up expired sessions
-   */
-  private cleanupExpiredSessions(): void {
-    const now = new Date();
-    let cleanedCount = 0;
-
-    for (const [sessionId, session] of WalletAuthController.sessions.entries()) {
-      if (now > session.expiresAt) {
-        WalletAuthController.sessions.delete(sessionId);
-        cleanedCount++;
-      }
-    }
-
-    if (cleanedCount > 0) {
-      console.log(`🧹 Cleaned up ${cleanedCount} expired sessions`);
-    }
-  }
-
   /**
    * Health check
    * GET /api/auth/health
    */
   async health(req: Request, res: Response): Promise<Response> {
-    const activeSessions = Array.from(WalletAuthController.sessions.values())
-      .filter(session => session.active && new Date() <= session.expiresAt);
-
-    return res.status(200).json({
-      success: true,
-      data: {
-        totalSessions: WalletAuthController.sessions.size,
-        activeSessions: activeSessions.length,
-        totalChallenges: WalletAuthController.challenges.size,
-        storageType: 'in-memory',
-        timestamp: new Date().toISOString()
-      }
-    });
+    try {
+      const now = new Date();
+      const [totalSessions, activeSessions, totalChallenges] = await Promise.all([
+        Session.countDocuments({ walletVerified: true }),
+        Session.countDocuments({ walletVerified: true, active: true, expiresAt: { $gt: now } }),
+        Challenge.countDocuments({ expiresAt: { $gt: now } })
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          totalSessions,
+          activeSessions,
+          totalChallenges,
+          storageType: 'mongodb',
+          timestamp: now.toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('❌ Wallet auth health check failed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Session storage unavailable'
+      });
+    }
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * Batch Anchor Cron Job
+ * Checks the batch queue every minute and registers a Merkle root once the
+ * batch is full (BATCH_MAX_ITEMS) or old enough (BATCH_INTERVAL_MS)
+ */
+
+import { BlockchainService } from '../services/BlockchainService';
+import { BatchAnchorService } from '../services/BatchAnchorService';
+
+const CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+let anchorTimer: NodeJS.Timeout | null = null;
+let anchorService: BatchAnchorService | null = null;
+let isRunning = false;
+
+/**
+ * Start the batch anchor cron job
+ */
+export function startBatchAnchorCron(blockchainService: BlockchainService): void {
+  if (anchorTimer) {
+    console.log('⚠️  Batch anchor cron already running');
+    return;
+  }
+
+  if (!BatchAnchorService.isEnabled()) {
+    console.log('ℹ️  Batch anchoring disabled - set BATCH_ANCHOR_PRIVATE_KEY to enable');
+    return;
+  }
+
+  const { maxItems, intervalMs } = BatchAnchorService.getPolicy();
+  console.log(`🚀 Starting batch anchor cron job (every ${maxItems} hashes or ${Math.round(intervalMs / 60000)} minutes)`);
+
+  anchorService = new BatchAnchorService(blockchainService);
+
+  anchorTimer = setInterval(async () => {
+    await runAnchor();
+  }, CHECK_INTERVAL);
+
+  console.log('✅ Batch anchor cron job started successfully');
+}
+
+/**
+ * Stop the batch anchor cron job
+ */
+export function stopBatchAnchorCron(): void {
+  if (anchorTimer) {
+    clearInterval(anchorTimer);
+    anchorTimer = null;
+    console.log('🛑 Batch anchor cron job stopped');
+  }
+}
+
+/**
+ * Anchor the queue if a batch is due (skipped if the previous run is still going)
+ */
+async function runAnchor(): Promise<void> {
+  if (!anchorService || isRunning) {
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    // Keep anchoring while full batches are waiting
+    let result = await anchorService.anchorQueued();
+    while (result?.status === 'submitted' && result.leafCount >= BatchAnchorService.getPolicy().maxItems) {
+      result = await anchorService.anchorQueued();
+    }
+  } catch (error) {
+    console.error('❌ Batch anchoring failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
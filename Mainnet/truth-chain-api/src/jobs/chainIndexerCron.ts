@@ -0,0 +1,78 @@
+/**
+ * Chain Indexer Cron Job
+ * Periodically copies registrations made directly against the contracts into
+ * MongoDB, so verification and user stats don't depend on the chain fallback
+ */
+
+import { BlockchainService } from '../services/BlockchainService';
+import { ChainIndexerService } from '../services/ChainIndexerService';
+
+const INDEX_INTERVAL = 2 * 60 * 1000; // 2 minutes
+
+let indexTimer: NodeJS.Timeout | null = null;
+let indexerService: ChainIndexerService | null = null;
+let isRunning = false;
+
+/**
+ * Start the chain indexer cron job
+ */
+export function startChainIndexerCron(blockchainService: BlockchainService): void {
+  if (indexTimer) {
+    console.log('⚠️  Chain indexer cron already running');
+    return;
+  }
+
+  console.log('🚀 Starting chain indexer cron job (2-minute interval)');
+
+  indexerService = new ChainIndexerService(blockchainService);
+
+  indexTimer = setInterval(async () => {
+    await runIndexer();
+  }, INDEX_INTERVAL);
+
+  console.log('✅ Chain indexer cron job started successfully');
+}
+
+/**
+ * Stop the chain indexer cron job
+ */
+export function stopChainIndexerCron(): void {
+  if (indexTimer) {
+    clearInterval(indexTimer);
+    indexTimer = null;
+    console.log('🛑 Chain indexer cron job stopped');
+  }
+}
+
+/**
+ * Run one indexing pass (skipped if the previous pass is still going)
+ */
+async function runIndexer(): Promise<void> {
+  if (!indexerService || isRunning) {
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const startTime = Date.now();
+
+    const results = await indexerService.indexAll();
+    const indexed = results.reduce((sum, result) => sum + result.indexed, 0);
+
+    if (indexed > 0) {
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+      console.log('✅ Chain indexing completed:', {
+        indexed,
+        contracts: results.map(({ contractId, indexed, offset, total }) => ({ contractId, indexed, offset, total })),
+        duration: `${duration}s`
+      });
+    }
+
+  } catch (error) {
+    console.error('❌ Chain indexing failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
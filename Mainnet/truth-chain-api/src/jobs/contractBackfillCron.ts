@@ -0,0 +1,82 @@
+/**
+ * Contract Backfill Job
+ * Walks confirmed registrations that predate `blockchain.contractId` and records
+ * which deployment holds them. Runs one pass shortly after startup and stops
+ * once every registration has been checked; anything that failed is retried
+ * on the next start.
+ */
+
+import mongoose from 'mongoose';
+import { BlockchainService } from '../services/BlockchainService';
+import { ContractBackfillService, BackfillResult } from '../services/ContractBackfillService';
+
+const STARTUP_DELAY = 2 * 60 * 1000; // 2 minutes
+const BATCH_INTERVAL = 5 * 1000; // 5 seconds between batches
+
+let backfillTimer: NodeJS.Timeout | null = null;
+let backfillService: ContractBackfillService | null = null;
+let cursor: mongoose.Types.ObjectId | undefined;
+let totals: Omit<BackfillResult, 'lastId'> = { checked: 0, backfilled: 0, notFound: 0, failed: 0 };
+
+/**
+ * Start the contract backfill job
+ */
+export function startContractBackfillCron(blockchainService: BlockchainService): void {
+  if (backfillTimer) {
+    console.log('⚠️  Contract backfill job already running');
+    return;
+  }
+
+  console.log('🚀 Starting contract backfill job');
+
+  backfillService = new ContractBackfillService(blockchainService);
+  cursor = undefined;
+  totals = { checked: 0, backfilled: 0, notFound: 0, failed: 0 };
+
+  backfillTimer = setTimeout(runBatch, STARTUP_DELAY);
+}
+
+/**
+ * Stop the contract backfill job
+ */
+export function stopContractBackfillCron(): void {
+  if (backfillTimer) {
+    clearTimeout(backfillTimer);
+    backfillTimer = null;
+    console.log('🛑 Contract backfill job stopped');
+  }
+}
+
+/**
+ * Backfill one batch, then schedule the next until none are left
+ */
+async function runBatch(): Promise<void> {
+  if (!backfillService) {
+    return;
+  }
+
+  try {
+    const result = await backfillService.backfillBatch(50, cursor);
+
+    totals.checked += result.checked;
+    totals.backfilled += result.backfilled;
+    totals.notFound += result.notFound;
+    totals.failed += result.failed;
+
+    if (result.checked === 0) {
+      if (totals.checked > 0) {
+        console.log('✅ Contract backfill completed:', totals);
+      }
+      backfillTimer = null;
+      return;
+    }
+
+    cursor = result.lastId;
+  } catch (error) {
+    console.error('❌ Contract backfill batch failed:', error);
+  }
+
+  if (backfillTimer) {
+    backfillTimer = setTimeout(runBatch, BATCH_INTERVAL);
+  }
+}
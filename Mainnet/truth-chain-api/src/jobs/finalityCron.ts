@@ -0,0 +1,76 @@
+/**
+ * Finality Cron Job
+ * Periodically recomputes confirmations for registrations that aren't final
+ * yet and moves any whose transaction was reorged out back to pending
+ */
+
+import { BlockchainService } from '../services/BlockchainService';
+import { FinalityService } from '../services/FinalityService';
+
+const FINALITY_INTERVAL = 2 * 60 * 1000; // 2 minutes
+
+let finalityTimer: NodeJS.Timeout | null = null;
+let finalityService: FinalityService | null = null;
+let isRunning = false;
+
+/**
+ * Start the finality cron job
+ */
+export function startFinalityCron(blockchainService: BlockchainService): void {
+  if (finalityTimer) {
+    console.log('⚠️  Finality cron already running');
+    return;
+  }
+
+  console.log(`🚀 Starting finality cron job (2-minute interval, final after ${FinalityService.getThreshold()} confirmations)`);
+
+  finalityService = new FinalityService(blockchainService);
+
+  finalityTimer = setInterval(async () => {
+    await runFinalityCheck();
+  }, FINALITY_INTERVAL);
+
+  console.log('✅ Finality cron job started successfully');
+}
+
+/**
+ * Stop the finality cron job
+ */
+export function stopFinalityCron(): void {
+  if (finalityTimer) {
+    clearInterval(finalityTimer);
+    finalityTimer = null;
+    console.log('🛑 Finality cron job stopped');
+  }
+}
+
+/**
+ * Run one confirmation pass (skipped if the previous pass is still going)
+ */
+async function runFinalityCheck(): Promise<void> {
+  if (!finalityService || isRunning) {
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const startTime = Date.now();
+
+    const result = await finalityService.trackConfirmations();
+
+    if (result.finalized > 0 || result.reorged > 0 || result.failed > 0) {
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+      console.log('✅ Finality check completed:', {
+        ...result,
+        duration: `${duration}s`
+      });
+    }
+
+  } catch (error) {
+    console.error('❌ Finality check failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
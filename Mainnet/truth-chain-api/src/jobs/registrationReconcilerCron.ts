@@ -0,0 +1,76 @@
+/**
+ * Registration Reconciler Cron Job
+ * Periodically settles pending registrations against the Stacks node
+ * Runs every minute so users don't need to keep the tab open to confirm
+ */
+
+import { BlockchainService } from '../services/BlockchainService';
+import { RegistrationReconcilerService } from '../services/RegistrationReconcilerService';
+
+const RECONCILE_INTERVAL = 60 * 1000; // 1 minute
+
+let reconcileTimer: NodeJS.Timeout | null = null;
+let reconcilerService: RegistrationReconcilerService | null = null;
+let isRunning = false;
+
+/**
+ * Start the registration reconciler cron job
+ */
+export function startRegistrationReconcilerCron(blockchainService: BlockchainService): void {
+  if (reconcileTimer) {
+    console.log('⚠️  Registration reconciler cron already running');
+    return;
+  }
+
+  console.log('🚀 Starting registration reconciler cron job (1-minute interval)');
+
+  reconcilerService = new RegistrationReconcilerService(blockchainService);
+
+  reconcileTimer = setInterval(async () => {
+    await runReconciliation();
+  }, RECONCILE_INTERVAL);
+
+  console.log('✅ Registration reconciler cron job started successfully');
+}
+
+/**
+ * Stop the registration reconciler cron job
+ */
+export function stopRegistrationReconcilerCron(): void {
+  if (reconcileTimer) {
+    clearInterval(reconcileTimer);
+    reconcileTimer = null;
+    console.log('🛑 Registration reconciler cron job stopped');
+  }
+}
+
+/**
+ * Run one reconciliation pass (skipped if the previous pass is still going)
+ */
+async function runReconciliation(): Promise<void> {
+  if (!reconcilerService || isRunning) {
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const startTime = Date.now();
+
+    const result = await reconcilerService.reconcilePendingRegistrations();
+
+    if (result.confirmed > 0 || result.failed > 0) {
+      const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+      console.log('✅ Registration reconciliation completed:', {
+        ...result,
+        duration: `${duration}s`
+      });
+    }
+
+  } catch (error) {
+    console.error('❌ Registration reconciliation failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
@@ -0,0 +1,219 @@
+import request from 'supertest';
+import express from 'express';
+import { User } from '../../../../shared/models/User';
+import { Session } from '../../../../shared/models/Session';
+import { ApiKey } from '../../../../shared/models/ApiKey';
+import { requireAuth, requireSession, requireWalletOwnership, apiKeyAuth } from '../auth';
+
+jest.mock('../../../../shared/models/User', () => ({
+  User: {
+    updateOne: jest.fn()
+  }
+}));
+
+jest.mock('../../../../shared/models/Session', () => ({
+  Session: {
+    findByAccessToken: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+jest.mock('../../../../shared/models/ApiKey', () => ({
+  ApiKey: {
+    findByKey: jest.fn(),
+    consumeQuota: jest.fn()
+  }
+}));
+
+const WALLET = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+const OTHER_WALLET = 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE';
+
+const mockSession = (session: Record<string, unknown> | null) => {
+  (Session.findByAccessToken as jest.Mock).mockResolvedValue(session && {
+    sessionId: 'session-1',
+    walletAddress: WALLET,
+    source: 'web',
+    active: true,
+    walletVerified: true,
+    accessTokenExpiresAt: new Date(Date.now() + 60000),
+    expiresAt: new Date(Date.now() + 600000),
+    ...session
+  });
+};
+
+describe('Auth Middleware', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (User.updateOne as jest.Mock).mockResolvedValue({});
+    (Session.updateOne as jest.Mock).mockResolvedValue({});
+
+    app = express();
+    app.use(express.json());
+    app.put('/users/:walletAddress/profile', requireAuth, requireWalletOwnership('params'), (req, res) => {
+      res.json({ success: true, wallet: req.wallet });
+    });
+    app.post('/secure/register', requireAuth, requireWalletOwnership('body'), (req, res) => {
+      res.json({ success: true });
+    });
+    app.get('/auth/sessions', requireSession(['connection', 'verification']), (req, res) => {
+      res.json({ success: true });
+    });
+    app.get('/registrations/search', apiKeyAuth('read:registrations'), requireSession(['connection', 'verification']), (req, res) => {
+      res.json({ success: true, wallet: req.wallet });
+    });
+  });
+
+  it('should return 401 without a Bearer token', async () => {
+    const response = await request(app).put(`/users/${WALLET}/profile`).send({});
+
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+    expect(Session.findByAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 for an unknown session', async () => {
+    mockSession(null);
+
+    const response = await request(app)
+      .put(`/users/${WALLET}/profile`)
+      .set('Authorization', 'Bearer missing')
+      .send({});
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Session not found');
+  });
+
+  it('should return 401 for an expired session', async () => {
+    mockSession({ expiresAt: new Date(Date.now() - 1000) });
+
+    const response = await request(app)
+      .put(`/users/${WALLET}/profile`)
+      .set('Authorization', 'Bearer access-1')
+      .send({});
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Session has expired');
+  });
+
+  it('should return 401 for an expired access token on a live session', async () => {
+    mockSession({ accessTokenExpiresAt: new Date(Date.now() - 1000) });
+
+    const response = await request(app)
+      .put(`/users/${WALLET}/profile`)
+      .set('Authorization', 'Bearer access-1')
+      .send({});
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Access token has expired, refresh the session');
+  });
+
+  it('should return 401 for a session not created by a wallet signature', async () => {
+    mockSession({ walletVerified: false });
+
+    const response = await request(app)
+      .put(`/users/${WALLET}/profile`)
+      .set('Authorization', 'Bearer access-1')
+      .send({});
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should put the authenticated wallet on the request', async () => {
+    mockSession({});
+
+    const response = await request(app)
+      .put(`/users/${WALLET}/profile`)
+      .set('Authorization', 'Bearer access-1')
+      .send({});
+
+    expect(response.status).toBe(200);
+    expect(response.body.wallet).toEqual({ address: WALLET, sessionId: 'session-1', source: 'web' });
+  });
+
+  it('should return 403 when the path targets another wallet', async () => {
+    mockSession({});
+
+    const response = await request(app)
+      .put(`/users/${OTHER_WALLET}/profile`)
+      .set('Authorization', 'Bearer access-1')
+      .send({});
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return 403 when the body targets another wallet', async () => {
+    mockSession({});
+
+    const response = await request(app)
+      .post('/secure/register')
+      .set('Authorization', 'Bearer access-1')
+      .send({ walletAddress: OTHER_WALLET });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should compare wallet addresses case-insensitively', async () => {
+    mockSession({});
+
+    const response = await request(app)
+      .post('/secure/register')
+      .set('Authorization', 'Bearer access-1')
+      .send({ walletAddress: WALLET.toLowerCase() });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 403 for a verification sign-in on a write route', async () => {
+    mockSession({ scope: 'verification' });
+
+    const response = await request(app)
+      .post('/secure/register')
+      .set('Authorization', 'Bearer access-1')
+      .send({ walletAddress: WALLET });
+
+    expect(response.status).toBe(403);
+    expect(response.body.message).toMatch(/verification only/);
+  });
+
+  it('should accept a verification sign-in on routes that allow it', async () => {
+    mockSession({ scope: 'verification' });
+
+    const response = await request(app)
+      .get('/auth/sessions')
+      .set('Authorization', 'Bearer access-1');
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should treat sessions without a scope as connection sign-ins', async () => {
+    mockSession({ scope: undefined });
+
+    const response = await request(app)
+      .post('/secure/register')
+      .set('Authorization', 'Bearer access-1')
+      .send({ walletAddress: WALLET });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should require an API key or a session on key-scoped read routes', async () => {
+    const response = await request(app).get('/registrations/search');
+
+    expect(response.status).toBe(401);
+    expect(ApiKey.findByKey).not.toHaveBeenCalled();
+  });
+
+  it('should accept an API key with the route\'s scope in place of a session', async () => {
+    const key = { keyId: 'key-1', ownerWallet: WALLET, scopes: ['read:registrations'], dailyQuota: 100 };
+    (ApiKey.findByKey as jest.Mock).mockResolvedValue(key);
+    (ApiKey.consumeQuota as jest.Mock).mockResolvedValue({ ...key, usage: { periodRequests: 1 } });
+
+    const response = await request(app).get('/registrations/search').set('X-API-Key', 'tc_key');
+
+    expect(response.status).toBe(200);
+    expect(response.body.wallet).toMatchObject({ address: WALLET, apiKeyId: 'key-1', source: 'api' });
+    expect(Session.findByAccessToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import request from 'supertest';
+import express from 'express';
+import { createCostLimiter, chargeRequest, CostSource } from '../costLimiter';
+
+describe('Cost Limiter Middleware', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const limiter = createCostLimiter({
+      name: 'cost-test',
+      capacity: 20,
+      refillWindowMs: 60 * 60 * 1000,
+      costs: { cache: 1, database: 2, chain: 10 }
+    });
+
+    // Each test uses its own client IP so buckets don't overlap
+    app = express();
+    app.set('trust proxy', 1);
+    app.get('/verify/:source', limiter, async (req, res) => {
+      await chargeRequest(req, req.params.source as CostSource);
+      res.json({ success: true });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const verify = (source: CostSource, ip: string) =>
+    request(app).get(`/verify/${source}`).set('X-Forwarded-For', ip);
+
+  it('should charge the base cost for cache hits', async () => {
+    const first = await verify('cache', '203.0.113.10');
+    const second = await verify('cache', '203.0.113.10');
+
+    expect(first.headers['ratelimit-limit']).toBe('20');
+    expect(first.headers['ratelimit-remaining']).toBe('19');
+    expect(second.headers['ratelimit-remaining']).toBe('18');
+  });
+
+  it('should charge more for database hits and blockchain fallbacks', async () => {
+    const database = await verify('database', '203.0.113.11');
+    const chain = await verify('chain', '203.0.113.11');
+
+    expect(database.headers['ratelimit-remaining']).toBe('18');
+    expect(chain.headers['ratelimit-remaining']).toBe('8');
+  });
+
+  it('should reject requests once the budget is spent', async () => {
+    await verify('chain', '203.0.113.12');
+    await verify('chain', '203.0.113.12');
+
+    const rejected = await verify('cache', '203.0.113.12');
+
+    expect(rejected.status).toBe(429);
+    expect(rejected.body.success).toBe(false);
+    expect(rejected.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(rejected.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should let an expensive request overdraw the bucket', async () => {
+    for (let i = 0; i < 15; i++) {
+      await verify('cache', '203.0.113.13');
+    }
+
+    const chain = await verify('chain', '203.0.113.13');
+    expect(chain.status).toBe(200);
+    expect(chain.headers['ratelimit-remaining']).toBe('0');
+
+    const next = await verify('cache', '203.0.113.13');
+    expect(next.status).toBe(429);
+  });
+
+  it('should keep a separate budget per client', async () => {
+    await verify('chain', '203.0.113.14');
+    await verify('chain', '203.0.113.14');
+
+    const other = await verify('cache', '203.0.113.15');
+    expect(other.status).toBe(200);
+    expect(other.headers['ratelimit-remaining']).toBe('19');
+  });
+
+  it('should ignore charges on routes without a cost limiter', async () => {
+    const plain = express();
+    plain.get('/verify', async (req, res) => {
+      await chargeRequest(req, 'chain');
+      res.json({ success: true });
+    });
+
+    const response = await request(plain).get('/verify');
+    expect(response.status).toBe(200);
+    expect(response.headers['ratelimit-remaining']).toBeUndefined();
+  });
+});
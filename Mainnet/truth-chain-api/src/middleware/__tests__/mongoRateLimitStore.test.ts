@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { Options } from 'express-rate-limit';
+import { RateLimitCounter } from '../../../../shared/models/RateLimitCounter';
+import { MongoRateLimitStore } from '../mongoRateLimitStore';
+
+jest.mock('mongoose', () => ({
+  __esModule: true,
+  default: { connection: { readyState: 0 } }
+}));
+
+jest.mock('../../../../shared/models/RateLimitCounter', () => ({
+  RateLimitCounter: {
+    hit: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+    deleteMany: jest.fn()
+  }
+}));
+
+const options = { windowMs: 60000 } as Options;
+
+const setReadyState = (state: number) => {
+  (mongoose.connection as { readyState: number }).readyState = state;
+};
+
+describe('MongoRateLimitStore', () => {
+  let store: MongoRateLimitStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    store = new MongoRateLimitStore('registration');
+    store.init(options);
+  });
+
+  afterEach(() => {
+    store.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should count hits in MongoDB when connected', async () => {
+    setReadyState(1);
+    const resetTime = new Date(Date.now() + 60000);
+    (RateLimitCounter.hit as jest.Mock).mockResolvedValue({ hits: 3, resetTime });
+
+    const result = await store.increment('wallet_sp123');
+
+    expect(RateLimitCounter.hit).toHaveBeenCalledWith('registration', 'wallet_sp123', 60000);
+    expect(result).toEqual({ totalHits: 3, resetTime });
+  });
+
+  it('should use in-memory counters until MongoDB is connected', async () => {
+    setReadyState(0);
+
+    await store.increment('ip_1');
+    const result = await store.increment('ip_1');
+
+    expect(result.totalHits).toBe(2);
+    expect(RateLimitCounter.hit).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to in-memory counters when a query fails', async () => {
+    setReadyState(1);
+    (RateLimitCounter.hit as jest.Mock).mockRejectedValue(new Error('connection reset'));
+
+    const result = await store.increment('ip_1');
+
+    expect(result.totalHits).toBe(1);
+  });
+
+  it('should only reset its own limiter', async () => {
+    setReadyState(1);
+
+    await store.resetAll();
+
+    expect(RateLimitCounter.deleteMany).toHaveBeenCalledWith({ limiter: 'registration' });
+  });
+});
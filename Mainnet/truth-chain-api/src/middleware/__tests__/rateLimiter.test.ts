@@ -4,7 +4,9 @@ import {
   globalLimiter, 
   authLimiter, 
   registrationLimiter, 
-  verificationLimiter 
+  verificationLimiter,
+  createRateLimiter,
+  parseTrustProxy
 } from '../rateLimiter';
 
 describe('Rate Limiter Middleware', () => {
@@ -66,6 +68,114 @@ describe('Rate Limiter Middleware', () => {
 
       expect(response.status).toBe(200);
     });
+
+    it('should keep a separate bucket per API key', async () => {
+      // Stand-in for apiKeyAuth having resolved the key
+      app.post('/register', (req, res, next) => {
+        const keyId = req.headers['x-test-key-id'] as string;
+        req.apiKey = { keyId, ownerWallet: 'SP000000000000000000002Q6VF78', scopes: ['register'] };
+        req.wallet = { address: 'SP000000000000000000002Q6VF78', apiKeyId: keyId, source: 'api' };
+        next();
+      }, registrationLimiter, (req, res) => {
+        res.json({ success: true });
+      });
+
+      const responses = [];
+      for (let i = 0; i < 21; i++) {
+        responses.push(await request(app).post('/register').set('X-Test-Key-Id', 'integrator-a'));
+      }
+      expect(responses[19].status).toBe(200);
+      expect(responses[20].status).toBe(429);
+
+      const otherKey = await request(app).post('/register').set('X-Test-Key-Id', 'integrator-b');
+      expect(otherKey.status).toBe(200);
+    });
+  });
+
+  describe('Client identity spoofing', () => {
+    // Each test uses its own client IP so registration buckets don't overlap
+    beforeEach(() => {
+      app.set('trust proxy', 1);
+      app.post('/register', registrationLimiter, (req, res) => {
+        res.json({ success: true });
+      });
+    });
+
+    const sendAll = async (count: number, build: (i: number) => request.Test) => {
+      const statuses: number[] = [];
+      for (let i = 0; i < count; i++) {
+        statuses.push((await build(i)).status);
+      }
+      return statuses;
+    };
+
+    it('should ignore wallet addresses in the request body', async () => {
+      const statuses = await sendAll(6, (i) =>
+        request(app).post('/register').set('X-Forwarded-For', '203.0.113.1').send({ walletAddress: `SPFAKE${i}` })
+      );
+
+      expect(statuses.slice(0, 5)).toEqual([200, 200, 200, 200, 200]);
+      expect(statuses[5]).toBe(429);
+    });
+
+    it('should ignore wallet addresses in headers and query', async () => {
+      const statuses = await sendAll(6, (i) =>
+        request(app)
+          .post(`/register?walletAddress=SPQUERY${i}`)
+          .set('X-Forwarded-For', '203.0.113.2')
+          .set('X-Wallet-Address', `SPHEADER${i}`)
+      );
+
+      expect(statuses[5]).toBe(429);
+    });
+
+    it('should not give unverified API keys or tokens their own bucket', async () => {
+      const statuses = await sendAll(6, (i) =>
+        request(app)
+          .post('/register')
+          .set('X-Forwarded-For', '203.0.113.3')
+          .set(i % 2 ? 'X-API-Key' : 'Authorization', i % 2 ? `tc_made_up_${i}` : `Bearer made-up-${i}`)
+      );
+
+      expect(statuses[5]).toBe(429);
+    });
+
+    it('should give signed-in wallets the full registration budget', async () => {
+      app.post('/register-signed-in', (req, res, next) => {
+        req.wallet = { address: 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7', sessionId: 'session-1', source: 'web' };
+        next();
+      }, registrationLimiter, (req, res) => {
+        res.json({ success: true });
+      });
+
+      const statuses = await sendAll(6, () =>
+        request(app).post('/register-signed-in').set('X-Forwarded-For', '203.0.113.4')
+      );
+
+      expect(statuses.every(status => status === 200)).toBe(true);
+    });
+
+    it('should ignore X-Forwarded-For unless the proxy is trusted', async () => {
+      const untrusted = express();
+      untrusted.get('/test', createRateLimiter({ name: 'xff-test', windowMs: 60000, max: 2 }), (req, res) => {
+        res.json({ success: true });
+      });
+
+      const statuses = [];
+      for (let i = 0; i < 3; i++) {
+        statuses.push((await request(untrusted).get('/test').set('X-Forwarded-For', `198.51.100.${i}`)).status);
+      }
+
+      expect(statuses).toEqual([200, 200, 429]);
+    });
+
+    it('should parse TRUST_PROXY settings', () => {
+      expect(parseTrustProxy(undefined)).toBe(false);
+      expect(parseTrustProxy('false')).toBe(false);
+      expect(parseTrustProxy('true')).toBe(true);
+      expect(parseTrustProxy('2')).toBe(2);
+      expect(parseTrustProxy('loopback, 10.0.0.0/8')).toBe('loopback, 10.0.0.0/8');
+    });
   });
 
   describe('Verification Rate Limiter', () => {
@@ -0,0 +1,266 @@
+import { Request, Response, NextFunction } from 'express';
+import { User } from '../../../shared/models/User';
+import { Session, IAuthSession } from '../../../shared/models/Session';
+import { ApiKey, ApiKeyScope } from '../../../shared/models/ApiKey';
+
+/**
+ * Authentication Middleware for TruthChain API
+ *
+ * 1. requireAuth - Resolves a wallet login session from `Authorization: Bearer <accessToken>`
+ *    and puts the authenticated wallet on `req.wallet` (401 when missing/invalid). Only
+ *    `connection` sign-ins get through; requireSession lets routes accept other scopes (403)
+ * 2. requireWalletOwnership - Rejects requests whose target wallet is not the
+ *    authenticated one (403)
+ * 3. apiKeyAuth - Resolves an integrator API key from `X-API-Key`, checks its scope
+ *    and daily quota, and acts as the key's owner wallet
+ * 4. requireAdmin - Restricts operator endpoints to wallets listed in ADMIN_WALLETS
+ */
+
+export interface AuthenticatedWallet {
+  address: string;
+  sessionId?: string;  // Set for wallet login sessions
+  apiKeyId?: string;   // Set when authenticated with an API key
+  source: 'extension' | 'web' | 'mobile' | 'api';
+}
+
+export interface AuthenticatedApiKey {
+  keyId: string;
+  ownerWallet: string;
+  scopes: ApiKeyScope[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      wallet?: AuthenticatedWallet;
+      apiKey?: AuthenticatedApiKey;
+    }
+  }
+}
+
+const unauthorized = (res: Response, message: string) => {
+  res.status(401).json({
+    success: false,
+    error: 'Unauthorized',
+    message
+  });
+};
+
+/**
+ * Extract the access token from a Bearer Authorization header
+ */
+export const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token?.trim()) return null;
+
+  return token.trim();
+};
+
+/**
+ * Require a valid session created by a signed wallet login for one of the given scopes
+ * Sessions from before scopes were recorded count as `connection`
+ * @param scopes - Sign-in scopes allowed on this route
+ */
+export const requireSession = (scopes: Array<NonNullable<IAuthSession['scope']>>) => async (req: Request, res: Response, next: NextFunction) => {
+  // Already authenticated by apiKeyAuth on a route that accepts API keys
+  if (req.apiKey && req.wallet) {
+    return next();
+  }
+
+  const accessToken = getBearerToken(req);
+
+  if (!accessToken) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return unauthorized(res, 'A Bearer access token is required');
+  }
+
+  try {
+    const session = await Session.findByAccessToken(accessToken);
+
+    if (!session) {
+      return unauthorized(res, 'Session not found');
+    }
+
+    if (!session.active) {
+      return unauthorized(res, 'Session is no longer active');
+    }
+
+    if (new Date() > new Date(session.expiresAt)) {
+      return unauthorized(res, 'Session has expired');
+    }
+
+    if (!session.accessTokenExpiresAt || new Date() > new Date(session.accessTokenExpiresAt)) {
+      res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return unauthorized(res, 'Access token has expired, refresh the session');
+    }
+
+    if (!session.walletVerified) {
+      return unauthorized(res, 'Session was not created by a wallet signature');
+    }
+
+    const scope = session.scope || 'connection';
+    if (!scopes.includes(scope)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: `Session was signed in for ${scope} only; sign in with the connection scope`
+      });
+    }
+
+    const { sessionId } = session;
+
+    req.wallet = {
+      address: session.walletAddress,
+      sessionId,
+      source: session.source
+    };
+
+    // Track activity without delaying the request
+    const now = new Date();
+    Promise.all([
+      Session.updateOne({ sessionId }, { $set: { lastActivity: now } }),
+      User.updateOne(
+        { 'sessions.sessionId': sessionId },
+        { $set: { 'sessions.$.lastActivity': now } }
+      )
+    ]).catch((error) => console.error('⚠️ Failed to update session activity:', error));
+
+    next();
+  } catch (error) {
+    console.error('❌ Session lookup failed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authentication failed',
+      message: 'Could not validate session'
+    });
+  }
+};
+
+/**
+ * Require a session signed in to manage content (the connection scope)
+ */
+export const requireAuth = requireSession(['connection']);
+
+/**
+ * Require the wallet targeted by the request to be the authenticated wallet
+ * Must run after requireAuth. Requests without a target wallet are left for
+ * the controller to reject as invalid input.
+ * @param location - Where the request carries `walletAddress`
+ */
+export const requireWalletOwnership = (location: 'params' | 'body') => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.wallet) {
+      return unauthorized(res, 'Authentication is required');
+    }
+
+    const target = location === 'params' ? req.params?.walletAddress : req.body?.walletAddress;
+
+    if (target && typeof target === 'string' && target.toUpperCase() !== req.wallet.address.toUpperCase()) {
+      console.warn(`🚫 Wallet ${req.wallet.address.substring(0, 10)}... attempted to act on ${target.substring(0, 10)}...`);
+      return res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: 'Authenticated wallet does not match the requested wallet'
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Require the authenticated wallet (via a wallet session, not an API key) to be an admin
+ * Must run after requireAuth. Admins are configured with ADMIN_WALLETS (comma-separated).
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.wallet) {
+    return unauthorized(res, 'Authentication is required');
+  }
+
+  const adminWallets = (process.env.ADMIN_WALLETS || '')
+    .split(',')
+    .map(wallet => wallet.trim().toUpperCase())
+    .filter(Boolean);
+
+  if (req.apiKey || !adminWallets.includes(req.wallet.address.toUpperCase())) {
+    return res.status(403).json({
+      success: false,
+      error: 'Forbidden',
+      message: 'Admin access is required'
+    });
+  }
+
+  next();
+};
+
+/**
+ * Authenticate an integrator API key sent as `X-API-Key`
+ * Requests without the header pass through untouched so routes can still
+ * fall back to wallet sessions or stay public.
+ * @param scope - Scope the key must have for this route
+ */
+export const apiKeyAuth = (scope: ApiKeyScope) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const rawKey = req.headers['x-api-key'];
+
+    if (!rawKey) {
+      return next();
+    }
+
+    if (typeof rawKey !== 'string') {
+      return unauthorized(res, 'Send a single X-API-Key header');
+    }
+
+    try {
+      const apiKey = await ApiKey.findByKey(rawKey.trim());
+
+      if (!apiKey) {
+        return unauthorized(res, 'Invalid or revoked API key');
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Forbidden',
+          message: `API key is missing the ${scope} scope`
+        });
+      }
+
+      const updated = await ApiKey.consumeQuota(apiKey.keyId, req.ip);
+
+      if (!updated) {
+        return res.status(429).json({
+          success: false,
+          error: 'Quota exceeded',
+          message: `API key has used its daily quota of ${apiKey.dailyQuota} requests`
+        });
+      }
+
+      res.setHeader('X-API-Quota-Limit', String(updated.dailyQuota));
+      res.setHeader('X-API-Quota-Remaining', String(Math.max(0, updated.dailyQuota - updated.usage.periodRequests)));
+
+      req.apiKey = {
+        keyId: apiKey.keyId,
+        ownerWallet: apiKey.ownerWallet,
+        scopes: apiKey.scopes
+      };
+      req.wallet = {
+        address: apiKey.ownerWallet,
+        apiKeyId: apiKey.keyId,
+        source: 'api'
+      };
+
+      next();
+    } catch (error) {
+      console.error('❌ API key lookup failed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authentication failed',
+        message: 'Could not validate API key'
+      });
+    }
+  };
+};
@@ -0,0 +1,195 @@
+import mongoose from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import { TokenBucket, TokenBucketPolicy } from '../../../shared/models/TokenBucket';
+import { customKeyGenerator } from './rateLimiter';
+
+/**
+ * Cost-aware rate limiting for TruthChain API
+ *
+ * Each client has a token bucket that refills steadily. A request is admitted
+ * if the bucket can pay the base cost, and the handler then charges for what it
+ * actually did: a cache hit is cheap, a database lookup costs more and a
+ * blockchain fallback (several read-only contract calls) costs the most.
+ * The bucket may go negative after an expensive request; the client then waits
+ * for it to refill.
+ *
+ * The remaining budget is returned in `RateLimit-*` headers after every charge.
+ */
+
+export type CostSource = 'cache' | 'database' | 'chain';
+
+export interface CostLimiterOptions {
+  name: string;  // Identifies the limiter's buckets in the shared store
+  capacity: number;
+  refillWindowMs: number;  // Time for an empty bucket to fill up again
+  costs: Record<CostSource, number>;
+}
+
+interface CostLimitContext {
+  charged: number;
+  charge(source: CostSource, units: number): Promise<void>;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      costLimit?: CostLimitContext;
+    }
+  }
+}
+
+/**
+ * Token buckets kept in MongoDB, with a per-process fallback while the
+ * database is unavailable (startup, tests, query errors)
+ */
+class TokenBucketStore {
+  private fallback = new Map<string, { tokens: number; refilledAt: number }>();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor(private limiter: string, private policy: TokenBucketPolicy) {
+    // Full buckets carry no state, so the fallback only needs the rest
+    this.cleanupTimer = setInterval(() => this.cleanupFallback(), 60 * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Take tokens from a bucket (negative to refund)
+   * @returns tokens left
+   */
+  async take(key: string, cost: number): Promise<number> {
+    if (mongoose.connection.readyState === 1) {
+      try {
+        const bucket = await TokenBucket.take(this.limiter, key, cost, this.policy);
+        return bucket.tokens;
+      } catch (error) {
+        console.error(`⚠️ Cost limiter (${this.limiter}) failed, using in-memory buckets:`,
+          error instanceof Error ? error.message : error);
+      }
+    }
+
+    return this.takeFromFallback(key, cost);
+  }
+
+  private takeFromFallback(key: string, cost: number): number {
+    const now = Date.now();
+    const bucket = this.fallback.get(key);
+    const tokens = bucket ? this.refill(bucket.tokens, bucket.refilledAt, now) : this.policy.capacity;
+
+    const remaining = tokens - cost;
+    this.fallback.set(key, { tokens: remaining, refilledAt: now });
+    return remaining;
+  }
+
+  private refill(tokens: number, refilledAt: number, now: number): number {
+    return Math.min(this.policy.capacity, tokens + (now - refilledAt) * this.policy.refillPerMs);
+  }
+
+  private cleanupFallback(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.fallback) {
+      if (this.refill(bucket.tokens, bucket.refilledAt, now) >= this.policy.capacity) {
+        this.fallback.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Create a cost-aware limiter
+ * Handlers report what a request did with `chargeRequest`; requests that are
+ * never charged only pay the base (cache) cost taken on admission.
+ */
+export const createCostLimiter = (options: CostLimiterOptions) => {
+  const policy: TokenBucketPolicy = {
+    capacity: options.capacity,
+    refillPerMs: options.capacity / options.refillWindowMs
+  };
+  const store = new TokenBucketStore(options.name, policy);
+  const baseCost = options.costs.cache;
+
+  const setHeaders = (res: Response, tokens: number) => {
+    if (res.headersSent) return;
+
+    res.setHeader('RateLimit-Policy', `${policy.capacity};w=${Math.ceil(options.refillWindowMs / 1000)}`);
+    res.setHeader('RateLimit-Limit', String(policy.capacity));
+    res.setHeader('RateLimit-Remaining', String(Math.max(0, Math.floor(tokens))));
+    res.setHeader('RateLimit-Reset', String(Math.ceil(Math.max(0, policy.capacity - tokens) / policy.refillPerMs / 1000)));
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = await customKeyGenerator(req);
+      const tokens = await store.take(key, baseCost);
+
+      if (tokens < 0) {
+        // Rejected requests don't cost anything
+        const refunded = await store.take(key, -baseCost);
+        const retryAfter = Math.ceil((baseCost - refunded) / policy.refillPerMs / 1000);
+
+        setHeaders(res, refunded);
+        res.setHeader('Retry-After', String(retryAfter));
+        console.warn(`Rate limit budget exhausted for ${req.ip} on ${req.path}`);
+
+        return res.status(429).json({
+          success: false,
+          error: 'Too many requests',
+          message: 'Rate limit budget exhausted. Please try again later.',
+          retryAfter
+        });
+      }
+
+      setHeaders(res, tokens);
+
+      req.costLimit = {
+        charged: baseCost,
+        charge: async (source: CostSource, units: number) => {
+          const cost = options.costs[source] * units;
+          const extra = cost - req.costLimit!.charged;
+          if (extra <= 0) return;
+
+          req.costLimit!.charged = cost;
+          setHeaders(res, await store.take(key, extra));
+        }
+      };
+
+      next();
+    } catch (error) {
+      // Never block requests because the limiter itself failed
+      console.error('❌ Cost limiter error:', error);
+      next();
+    }
+  };
+};
+
+/**
+ * Charge the request for the work it did (no-op on routes without a cost limiter)
+ * Call before sending the response so the headers reflect the charge.
+ * @param units - Number of items the work was done for (e.g. batch size)
+ */
+export const chargeRequest = async (req: Request, source: CostSource, units: number = 1): Promise<void> => {
+  if (!req.costLimit) return;
+
+  try {
+    await req.costLimit.charge(source, units);
+  } catch (error) {
+    console.error('❌ Failed to charge request cost:', error);
+  }
+};
+
+/**
+ * VERIFICATION COST LIMITER
+ * Applied to verification endpoints that can fall back to the blockchain
+ *
+ * Budget: 200 tokens, refilled over 15 minutes per IP/wallet/API key
+ * Cost: cache hit 1, database hit 2, blockchain fallback 10
+ */
+export const verificationCostLimiter = createCostLimiter({
+  name: 'verification-cost',
+  capacity: parseInt(process.env.VERIFICATION_BUDGET || '200'),
+  refillWindowMs: parseInt(process.env.VERIFICATION_BUDGET_WINDOW_MS || '900000'),
+  costs: {
+    cache: 1,
+    database: 2,
+    chain: 10
+  }
+});
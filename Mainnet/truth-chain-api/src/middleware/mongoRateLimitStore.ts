@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import { MemoryStore, Options, Store, ClientRateLimitInfo, IncrementResponse } from 'express-rate-limit';
+import { RateLimitCounter } from '../../../shared/models/RateLimitCounter';
+
+/**
+ * MongoDB-backed store for express-rate-limit
+ *
+ * Counters live in the `rate_limits` collection so limits hold across restarts
+ * and are shared by every API instance. Until MongoDB is connected (startup,
+ * tests) or if a query fails, the store falls back to a per-process memory
+ * store rather than blocking or rejecting requests.
+ */
+export class MongoRateLimitStore implements Store {
+  /**
+   * Counters are shared between processes, so the limiter must not assume
+   * it's the only one writing to them
+   */
+  localKeys = false;
+
+  prefix: string;
+
+  private windowMs = 60 * 1000;
+  private fallback = new MemoryStore();
+
+  /**
+   * @param limiter - Name that identifies this limiter's counters (and shows up in the admin view)
+   */
+  constructor(private limiter: string) {
+    this.prefix = `${limiter}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+    this.fallback.init(options);
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    if (!this.isConnected()) {
+      return this.fallback.get(key);
+    }
+
+    try {
+      const counter = await RateLimitCounter.findOne({
+        limiter: this.limiter,
+        key,
+        resetTime: { $gt: new Date() }
+      }).lean();
+
+      return counter ? { totalHits: counter.hits, resetTime: counter.resetTime } : undefined;
+    } catch (error) {
+      this.logFallback(error);
+      return this.fallback.get(key);
+    }
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    if (!this.isConnected()) {
+      return this.fallback.increment(key);
+    }
+
+    try {
+      const counter = await RateLimitCounter.hit(this.limiter, key, this.windowMs);
+      return { totalHits: counter.hits, resetTime: counter.resetTime };
+    } catch (error) {
+      this.logFallback(error);
+      return this.fallback.increment(key);
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    if (!this.isConnected()) {
+      return this.fallback.decrement(key);
+    }
+
+    try {
+      await RateLimitCounter.updateOne(
+        { limiter: this.limiter, key, hits: { $gt: 0 }, resetTime: { $gt: new Date() } },
+        { $inc: { hits: -1 } }
+      );
+    } catch (error) {
+      this.logFallback(error);
+      await this.fallback.decrement(key);
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.fallback.resetKey(key);
+
+    if (this.isConnected()) {
+      await RateLimitCounter.deleteOne({ limiter: this.limiter, key });
+    }
+  }
+
+  async resetAll(): Promise<void> {
+    await this.fallback.resetAll();
+
+    if (this.isConnected()) {
+      await RateLimitCounter.deleteMany({ limiter: this.limiter });
+    }
+  }
+
+  shutdown(): void {
+    this.fallback.shutdown();
+  }
+
+  private isConnected(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  private logFallback(error: unknown): void {
+    console.error(`⚠️ Rate limit store (${this.limiter}) failed, using in-memory counters:`,
+      error instanceof Error ? error.message : error);
+  }
+}
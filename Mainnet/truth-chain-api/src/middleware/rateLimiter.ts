@@ -1,5 +1,10 @@
 import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ApiKey } from '../../../shared/models/ApiKey';
+import { Session } from '../../../shared/models/Session';
+import { MongoRateLimitStore } from './mongoRateLimitStore';
+import { getBearerToken } from './auth';
 
 /**
  * Rate Limiting Middleware for TruthChain API
@@ -9,28 +14,118 @@ import { Request, Response } from 'express';
  * 2. Auth limiter - Stricter limits for authentication endpoints
  * 3. Registration limiter - Moderate limits for content registration
  * 4. Verification limiter - Generous limits for read-only operations
+ *
+ * Counters are kept in MongoDB (see MongoRateLimitStore) so limits are shared
+ * by all API instances and survive restarts.
+ *
+ * Clients are identified by their API key or wallet login session only.
+ * Wallet addresses sent in the body, query or headers are never used, since
+ * anyone can make those up. Everything else is limited by IP, which relies on
+ * `trust proxy` being set correctly (see parseTrustProxy).
  */
 
+interface ClientIdentity {
+  key: string;
+  authenticated: boolean;
+}
+
+// Identity per request, so limiters stacked on one route share a single lookup
+const identities = new WeakMap<Request, Promise<ClientIdentity>>();
+
+/**
+ * Look up the API key or access token the request carries
+ * Unknown, revoked or expired credentials count as unauthenticated.
+ */
+const lookupCredentials = async (req: Request): Promise<ClientIdentity | null> => {
+  // Set when an auth middleware already ran for this request
+  if (req.apiKey) {
+    return { key: `apikey_${req.apiKey.keyId}`, authenticated: true };
+  }
+  if (req.wallet) {
+    return { key: `wallet_${req.wallet.address.toLowerCase()}`, authenticated: true };
+  }
+
+  // Credentials can't be checked without the database
+  if (mongoose.connection.readyState !== 1) {
+    return null;
+  }
+
+  try {
+    const rawKey = req.headers['x-api-key'];
+    if (rawKey && typeof rawKey === 'string') {
+      const apiKey = await ApiKey.findByKey(rawKey.trim());
+      return apiKey ? { key: `apikey_${apiKey.keyId}`, authenticated: true } : null;
+    }
+
+    const accessToken = getBearerToken(req);
+    if (accessToken) {
+      const session = await Session.findByAccessToken(accessToken);
+      const now = new Date();
+
+      if (
+        session?.active &&
+        session.walletVerified &&
+        new Date(session.expiresAt) > now &&
+        session.accessTokenExpiresAt &&
+        new Date(session.accessTokenExpiresAt) > now
+      ) {
+        return { key: `wallet_${session.walletAddress.toLowerCase()}`, authenticated: true };
+      }
+    }
+  } catch (error) {
+    console.error('⚠️ Rate limit identity lookup failed, limiting by IP:', error instanceof Error ? error.message : error);
+  }
+
+  return null;
+};
+
 /**
- * Simple key generator - Uses wallet address if available, otherwise falls back to IP address
- * This allows us to track both anonymous and authenticated users
+ * Resolve who a request counts against
  */
-const customKeyGenerator = (req: Request): string => {
-  // Try to get wallet address from various sources
-  const walletAddress = 
-    req.body?.walletAddress || 
-    req.query?.walletAddress || 
-    req.params?.walletAddress ||
-    req.headers['x-wallet-address'];
-
-  // Use wallet address if available
-  if (walletAddress && typeof walletAddress === 'string') {
-    return `wallet_${walletAddress.toLowerCase()}`;
+const resolveClientIdentity = (req: Request): Promise<ClientIdentity> => {
+  let identity = identities.get(req);
+
+  if (!identity) {
+    identity = lookupCredentials(req).then((credentials) => credentials || {
+      // Use the official ipKeyGenerator helper for IPv6 support
+      key: ipKeyGenerator(req.ip || req.socket.remoteAddress || ''),
+      authenticated: false
+    });
+    identities.set(req, identity);
   }
 
-  // Use the official ipKeyGenerator helper for IPv6 support
-  const ip = req.ip || req.socket.remoteAddress || '';
-  return ipKeyGenerator(ip);
+  return identity;
+};
+
+/**
+ * Key generator - Uses the authenticated API key or wallet session, otherwise the client IP
+ */
+export const customKeyGenerator = async (req: Request): Promise<string> => {
+  return (await resolveClientIdentity(req)).key;
+};
+
+/**
+ * Parse the TRUST_PROXY setting into Express's `trust proxy` value
+ * Accepts `true`/`false`, a number of proxy hops, or addresses/subnets
+ * (comma-separated, e.g. `loopback,10.0.0.0/8`). Defaults to not trusting
+ * X-Forwarded-For, so clients can't pick their own IP.
+ */
+export const parseTrustProxy = (value?: string): boolean | number | string => {
+  const setting = value?.trim();
+
+  if (!setting || setting === 'false') {
+    return false;
+  }
+
+  if (setting === 'true') {
+    return true;
+  }
+
+  if (/^\d+$/.test(setting)) {
+    return parseInt(setting);
+  }
+
+  return setting;
 };
 
 /**
@@ -60,6 +155,7 @@ export const globalLimiter = rateLimit({
   standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
   legacyHeaders: false, // Disable `X-RateLimit-*` headers
   keyGenerator: customKeyGenerator,
+  store: new MongoRateLimitStore('global'),
   handler: rateLimitExceededHandler,
   skip: (req) => {
     // Skip rate limiting for health checks
@@ -85,6 +181,7 @@ export const authLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: customKeyGenerator,
+  store: new MongoRateLimitStore('auth'),
   handler: rateLimitExceededHandler,
   skipSuccessfulRequests: false, // Count all requests, even successful ones
   message: {
@@ -98,19 +195,26 @@ export const authLimiter = rateLimit({
  * Applied to content registration endpoints
  * Moderate limits to prevent spam while allowing legitimate use
  * 
- * Limit: 20 registrations per hour per wallet/IP
+ * Limit: 20 registrations per hour per wallet/API key,
+ *        5 per hour per IP for unauthenticated requests (UNAUTHENTICATED_REGISTRATION_LIMIT)
  */
+const UNAUTHENTICATED_REGISTRATION_LIMIT = parseInt(process.env.UNAUTHENTICATED_REGISTRATION_LIMIT || '5');
+
 export const registrationLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
-  max: 20, // 20 registrations per hour
+  max: async (req: Request) => {
+    const { authenticated } = await resolveClientIdentity(req);
+    return authenticated ? 20 : UNAUTHENTICATED_REGISTRATION_LIMIT;
+  },
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: customKeyGenerator,
+  store: new MongoRateLimitStore('registration'),
   handler: rateLimitExceededHandler,
   skipSuccessfulRequests: false,
   message: {
     success: false,
-    error: 'Registration limit exceeded. You can register up to 20 items per hour.'
+    error: 'Registration limit exceeded. Signed-in wallets can register up to 20 items per hour.'
   }
 });
 
@@ -127,6 +231,7 @@ export const verificationLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: customKeyGenerator,
+  store: new MongoRateLimitStore('verification'),
   handler: rateLimitExceededHandler,
   skipSuccessfulRequests: true, // Only count failed requests
   message: {
@@ -148,6 +253,7 @@ export const devLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: customKeyGenerator,
+  store: new MongoRateLimitStore('dev'),
   skip: (req) => process.env.NODE_ENV === 'production', // Skip in production
   message: {
     success: false,
@@ -167,6 +273,7 @@ export const strictLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: customKeyGenerator,
+  store: new MongoRateLimitStore('strict'),
   handler: rateLimitExceededHandler,
   message: {
     success: false,
@@ -178,6 +285,7 @@ export const strictLimiter = rateLimit({
  * Helper function to create custom rate limiter
  */
 export const createRateLimiter = (options: {
+  name: string; // Identifies the limiter's counters in the shared store
   windowMs: number;
   max: number;
   message?: string;
@@ -188,6 +296,7 @@ export const createRateLimiter = (options: {
     standardHeaders: true,
     legacyHeaders: false,
     keyGenerator: customKeyGenerator,
+    store: new MongoRateLimitStore(options.name),
     handler: rateLimitExceededHandler,
     message: {
       success: false,
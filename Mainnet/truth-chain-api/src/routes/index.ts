@@ -4,21 +4,28 @@ import { VerificationController } from '../controllers/VerificationController';
 import { AuthController } from '../controllers/AuthController';
 import { WalletAuthController } from '../controllers/WalletAuthController';
 import { UserController } from '../controllers/UserController';
-import { BlockchainService } from '../services/BlockchainService';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { AdminController } from '../controllers/AdminController';
+import { BlockchainService, ContractConfig } from '../services/BlockchainService';
+import { ContractRegistry, StacksNetworkName } from '../services/ContractRegistry';
 import { 
   authLimiter, 
   registrationLimiter, 
   verificationLimiter,
   strictLimiter 
 } from '../middleware/rateLimiter';
+import { verificationCostLimiter } from '../middleware/costLimiter';
+import { requireAuth, requireSession, requireWalletOwnership, requireAdmin, apiKeyAuth } from '../middleware/auth';
 
 const router = express.Router();
 
 // Initialize blockchain service
-const blockchainConfig = {
-  contractAddress: process.env.CONTRACT_ADDRESS || 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F',  // v3 address
-  contractName: process.env.CONTRACT_NAME || 'truthchain_v3',  // v3: All features + BNS
-  network: (process.env.NETWORK as 'mainnet' | 'mainnet') || 'mainnet'
+const network: StacksNetworkName = ContractRegistry.getNetwork();
+const blockchainConfig: ContractConfig = {
+  network,
+  deployments: ContractRegistry.getDeployments(network),  // src/config/contracts.json or CONTRACT_REGISTRY_PATH
+  readOnlyTimeoutMs: parseInt(process.env.CONTRACT_CALL_TIMEOUT_MS || '5000'),
+  apiUrl: process.env.STACKS_API_URL || undefined
 };
 
 const blockchainService = new BlockchainService(blockchainConfig);
@@ -29,35 +36,52 @@ const verificationController = new VerificationController(blockchainService);
 const authController = new AuthController();
 const walletAuthController = new WalletAuthController();
 const userController = new UserController();
+const apiKeyController = new ApiKeyController();
+const adminController = new AdminController();
+
+// Routes a verification-only sign-in may use: proving the wallet and managing its own sessions
+const requireAnySession = requireSession(['connection', 'verification']);
 
 // Registration Routes (Development/Testing with senderKey)
 // Apply registration limiter to prevent spam
 router.post('/register', registrationLimiter, registrationController.registerTweet.bind(registrationController));
 router.post('/check-registration', verificationLimiter, registrationController.checkRegistration.bind(registrationController));
+router.post('/hash', verificationLimiter, registrationController.hashContent.bind(registrationController));
 router.get('/registration/:txId', verificationLimiter, registrationController.getRegistrationByTxId.bind(registrationController));
 
 // Secure Registration Routes (Frontend Integration - no senderKey)
 // Apply stricter rate limiting for production endpoints
-router.post('/secure/register', registrationLimiter, registrationController.secureRegisterTweet.bind(registrationController));
+// Require a wallet login session (Authorization: Bearer <accessToken>) for the wallet being written,
+// or an API key with the register scope (X-API-Key) acting as its owner wallet
+router.post('/secure/register', registrationLimiter, apiKeyAuth('register'), requireAuth, requireWalletOwnership('body'), registrationController.secureRegisterTweet.bind(registrationController));
+router.post('/secure/register/batched', registrationLimiter, apiKeyAuth('register'), requireAuth, requireWalletOwnership('body'), registrationController.registerBatched.bind(registrationController));
+router.post('/secure/register/thread', registrationLimiter, apiKeyAuth('register'), requireAuth, requireWalletOwnership('body'), registrationController.registerThread.bind(registrationController));
+router.post('/secure/register/file', registrationLimiter, requireAuth, registrationController.registerFile.bind(registrationController));
+router.post('/secure/register/sponsored', registrationLimiter, requireAuth, requireWalletOwnership('body'), registrationController.sponsorRegistration.bind(registrationController));
 router.post('/secure/confirm-registration', registrationLimiter, registrationController.confirmRegistration.bind(registrationController));
 
 // IPFS Content Retrieval
 router.get('/content/:contentHash', verificationLimiter, registrationController.retrieveOriginalContent.bind(registrationController));
 
 // Verification Routes
-// More generous limits for read-only operations
-router.post('/verify', verificationLimiter, verificationController.verifyTweet.bind(verificationController));
-router.get('/verify/:hash', verificationLimiter, verificationController.quickVerify.bind(verificationController));
-router.post('/verify/batch', verificationLimiter, verificationController.batchVerify.bind(verificationController));
+// Charged by what each request did: cache hit, database hit or blockchain fallback
+router.post('/verify', verificationCostLimiter, verificationController.verifyTweet.bind(verificationController));
+router.get('/verify/:hash', verificationCostLimiter, verificationController.quickVerify.bind(verificationController));
+router.post('/verify/batch', verificationCostLimiter, apiKeyAuth('verify'), verificationController.batchVerify.bind(verificationController));
+router.post('/verify/excerpt', verificationCostLimiter, verificationController.verifyExcerpt.bind(verificationController));
 
 // BNS Validation Routes (Hybrid Approach)
-router.post('/validate-bns', strictLimiter, verificationController.validateBNS.bind(verificationController));
+router.post('/validate-bns', strictLimiter, requireAnySession, requireWalletOwnership('body'), verificationController.validateBNS.bind(verificationController));
 router.get('/validate-bns/:walletAddress', verificationLimiter, verificationController.getBNSValidationStatus.bind(verificationController));
 
 // Wallet Authentication Routes (Primary auth method for TruthChain)
 // Strict limits on authentication to prevent brute force
 router.get('/auth/wallet/challenge', authLimiter, walletAuthController.getChallenge.bind(walletAuthController));
 router.post('/auth/login/wallet', authLimiter, walletAuthController.loginWithWallet.bind(walletAuthController));
+router.post('/auth/refresh', authLimiter, walletAuthController.refreshSession.bind(walletAuthController));
+router.get('/auth/sessions', authLimiter, requireAnySession, walletAuthController.listSessions.bind(walletAuthController));
+router.post('/auth/sessions/revoke-others', authLimiter, requireAnySession, walletAuthController.revokeOtherSessions.bind(walletAuthController));
+router.delete('/auth/session/:sessionId', authLimiter, requireAnySession, walletAuthController.logout.bind(walletAuthController));
 router.get('/auth/wallet/health', walletAuthController.health.bind(walletAuthController));
 
 // Legacy Authentication/Session Routes (Extension compatibility)
@@ -67,14 +91,23 @@ router.get('/auth/session/:sessionId', authLimiter, authController.validateSessi
 router.get('/auth/sessions/wallet/:walletAddress', authLimiter, authController.getWalletSessions.bind(authController));
 router.get('/auth/health', authController.health.bind(authController));
 
+// API Key Management (wallet session only - API keys can't manage keys)
+router.post('/keys', strictLimiter, requireAuth, apiKeyController.createKey.bind(apiKeyController));
+router.get('/keys', authLimiter, requireAuth, apiKeyController.listKeys.bind(apiKeyController));
+router.delete('/keys/:keyId', strictLimiter, requireAuth, apiKeyController.revokeKey.bind(apiKeyController));
+router.post('/keys/:keyId/rotate', strictLimiter, requireAuth, apiKeyController.rotateKey.bind(apiKeyController));
+
+// Admin Routes (wallets listed in ADMIN_WALLETS)
+router.get('/admin/rate-limits', authLimiter, requireAuth, requireAdmin, adminController.getRateLimitConsumers.bind(adminController));
+
 // User & Dashboard Routes
 // Apply verification limiter for read operations
 router.get('/users/:walletAddress/stats', verificationLimiter, userController.getUserStats.bind(userController));
 router.get('/users/:walletAddress/profile', verificationLimiter, userController.getUserProfile.bind(userController));
-router.put('/users/:walletAddress/profile', strictLimiter, userController.updateUserProfile.bind(userController));
+router.put('/users/:walletAddress/profile', strictLimiter, requireAuth, requireWalletOwnership('params'), userController.updateUserProfile.bind(userController));
 router.get('/users/by-wallet-hash/:hash', verificationLimiter, userController.getUserByWalletHash.bind(userController));
-router.get('/registrations/wallet/:walletAddress', verificationLimiter, userController.getUserRegistrations.bind(userController));
-router.get('/registrations/search', verificationLimiter, userController.searchRegistrations.bind(userController));
+router.get('/registrations/wallet/:walletAddress', verificationLimiter, apiKeyAuth('read:registrations'), requireAnySession, userController.getUserRegistrations.bind(userController));
+router.get('/registrations/search', verificationLimiter, apiKeyAuth('read:registrations'), requireAnySession, userController.searchRegistrations.bind(userController));
 router.get('/stats/global', verificationLimiter, userController.getGlobalStats.bind(userController));
 
 // Health check
@@ -87,7 +120,12 @@ router.get('/health', async (req, res) => {
       blockchain: {
         connected: !!stats,
         network: blockchainConfig.network,
-        contract: `${blockchainConfig.contractAddress}.${blockchainConfig.contractName}`
+        contract: blockchainService.getActiveContractId(),
+        deployments: blockchainConfig.deployments.map(deployment => ({
+          contractId: ContractRegistry.getContractId(deployment),
+          version: deployment.version,
+          status: deployment.status
+        }))
       },
       timestamp: new Date().toISOString()
     });
@@ -100,4 +138,6 @@ router.get('/health', async (req, res) => {
   }
 });
 
+export { blockchainService };
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,242 @@
+/**
+ * Batch Anchor Service
+ * Registers many content hashes with a single contract call
+ *
+ * Hashes queued through /api/secure/register/batched wait until BATCH_MAX_ITEMS
+ * are queued or the oldest has waited BATCH_INTERVAL_MS. A Merkle tree is then
+ * built over them and only its root is registered, with the anchor wallet
+ * (BATCH_ANCHOR_PRIVATE_KEY) paying the fee. Each registration keeps its leaf
+ * index and inclusion proof, and shares the root's transaction, so the
+ * reconciler confirms the whole batch once that transaction is mined.
+ *
+ * The transaction id is stored on the batch before the broadcast, so a batch
+ * interrupted mid-broadcast is finished from that transaction instead of
+ * being anchored a second time.
+ */
+
+import mongoose from 'mongoose';
+import { Registration, IRegistration } from '../../../shared/models/Registration';
+import { AnchorBatch } from '../../../shared/models/AnchorBatch';
+import { BlockchainService } from './BlockchainService';
+import { HashService } from './HashService';
+import { MerkleService } from './MerkleService';
+
+export interface BatchPolicy {
+  maxItems: number;    // Anchor as soon as this many hashes are queued
+  intervalMs: number;  // ...or once the oldest queued hash has waited this long
+}
+
+export interface AnchorResult {
+  batchId: mongoose.Types.ObjectId;
+  status: 'submitted' | 'failed';
+  root: string;
+  leafCount: number;
+  txId?: string;
+  error?: string;
+}
+
+export class BatchAnchorService {
+  private blockchainService: BlockchainService;
+
+  // A batch still building or broadcasting after this long was interrupted (e.g. by a restart)
+  private static STALE_BUILD_MS = 10 * 60 * 1000;
+
+  constructor(blockchainService: BlockchainService) {
+    this.blockchainService = blockchainService;
+  }
+
+  /**
+   * Whether an anchor wallet is configured
+   */
+  static isEnabled(): boolean {
+    return !!process.env.BATCH_ANCHOR_PRIVATE_KEY;
+  }
+
+  static getPolicy(): BatchPolicy {
+    return {
+      maxItems: parseInt(process.env.BATCH_MAX_ITEMS || '500'),
+      intervalMs: parseInt(process.env.BATCH_INTERVAL_MS || '600000')
+    };
+  }
+
+  /**
+   * Anchor the queued hashes if the batch is full or has waited long enough
+   * @param force - Anchor whatever is queued right away
+   * @returns Promise with the batch outcome, or null if nothing was anchored
+   */
+  async anchorQueued(force: boolean = false): Promise<AnchorResult | null> {
+    if (!BatchAnchorService.isEnabled()) {
+      return null;
+    }
+
+    await this.requeueStaleBatches();
+
+    const { maxItems, intervalMs } = BatchAnchorService.getPolicy();
+    const queued = await Registration.find({ 'batch.status': 'queued' })
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(maxItems)
+      .select('_id createdAt');
+
+    if (queued.length === 0) {
+      return null;
+    }
+
+    const due = force || queued.length >= maxItems || Date.now() - queued[0].createdAt.getTime() >= intervalMs;
+    if (!due) {
+      return null;
+    }
+
+    // Claim the hashes first so another instance can't put them in a second batch
+    const batch = await AnchorBatch.create({ status: 'building' });
+    await Registration.updateMany(
+      { _id: { $in: queued.map(registration => registration._id) }, 'batch.status': 'queued' },
+      { $set: { 'batch.status': 'anchoring', 'batch.batchId': batch._id } }
+    );
+
+    const claimed = await Registration.find({ 'batch.batchId': batch._id }).sort({ createdAt: 1, _id: 1 });
+    if (claimed.length === 0) {
+      await AnchorBatch.deleteOne({ _id: batch._id });
+      return null;
+    }
+
+    const tree = MerkleService.buildTree(claimed.map(registration => HashService.hexToBuffer(registration.contentHash)));
+    const root = MerkleService.getRoot(tree);
+    const rootHex = root.toString('hex');
+
+    await AnchorBatch.updateOne({ _id: batch._id }, { $set: { root: rootHex, leafCount: claimed.length } });
+
+    console.log(`🌳 Anchoring ${claimed.length} hashes under root ${rootHex}`);
+    const registration = await this.blockchainService.registerContent(
+      root,
+      process.env.BATCH_ANCHOR_PRIVATE_KEY!,
+      'document',
+      undefined,
+      async builtTxId => {
+        await AnchorBatch.updateOne(
+          { _id: batch._id, status: 'building' },
+          {
+            $set: {
+              status: 'broadcasting',
+              txId: builtTxId.startsWith('0x') ? builtTxId : `0x${builtTxId}`,
+              contractId: this.blockchainService.getActiveContractId()
+            }
+          }
+        );
+      }
+    );
+
+    if (!registration.success || !registration.txId) {
+      await this.requeue(batch._id as mongoose.Types.ObjectId, registration.error || 'Broadcast failed');
+      console.error(`❌ Batch root ${rootHex} was not broadcast: ${registration.error}`);
+
+      return {
+        batchId: batch._id as mongoose.Types.ObjectId,
+        status: 'failed',
+        root: rootHex,
+        leafCount: claimed.length,
+        error: registration.error
+      };
+    }
+
+    const txId = registration.txId.startsWith('0x') ? registration.txId : `0x${registration.txId}`;
+    await this.recordSubmitted(
+      batch._id as mongoose.Types.ObjectId,
+      claimed,
+      tree,
+      txId,
+      this.blockchainService.getActiveContractId()
+    );
+
+    return {
+      batchId: batch._id as mongoose.Types.ObjectId,
+      status: 'submitted',
+      root: rootHex,
+      leafCount: claimed.length,
+      txId
+    };
+  }
+
+  /**
+   * Give every claimed hash its proof and the root's transaction
+   */
+  private async recordSubmitted(
+    batchId: mongoose.Types.ObjectId,
+    claimed: IRegistration[],
+    tree: Buffer[][],
+    txId: string,
+    contractId?: string
+  ): Promise<void> {
+    const rootHex = MerkleService.getRoot(tree).toString('hex');
+
+    await Registration.bulkWrite(claimed.map((leaf, leafIndex) => ({
+      updateOne: {
+        filter: { _id: leaf._id, 'batch.batchId': batchId },
+        update: {
+          $set: {
+            'batch.status': 'anchored',
+            'batch.root': rootHex,
+            'batch.leafIndex': leafIndex,
+            'batch.proof': MerkleService.getProof(tree, leafIndex),
+            'blockchain.txId': txId
+          }
+        }
+      }
+    })));
+
+    await AnchorBatch.updateOne(
+      { _id: batchId },
+      { $set: { status: 'submitted', txId, contractId } }
+    );
+
+    console.log(`✅ Batch root ${rootHex} submitted: ${txId}`);
+  }
+
+  /**
+   * Settle batches interrupted by a restart
+   * Batches left building never reached the chain and go back in the queue; batches left
+   * broadcasting are finished from their recorded transaction if the node has it
+   */
+  private async requeueStaleBatches(): Promise<void> {
+    const stale = await AnchorBatch.find({
+      status: { $in: ['building', 'broadcasting'] },
+      createdAt: { $lt: new Date(Date.now() - BatchAnchorService.STALE_BUILD_MS) }
+    });
+
+    for (const batch of stale) {
+      const batchId = batch._id as mongoose.Types.ObjectId;
+
+      if (batch.status === 'broadcasting' && batch.txId) {
+        const txStatus = await this.blockchainService.getTransactionStatus(batch.txId);
+
+        // An orphaned transaction goes back to the mempool, so it still counts as sent
+        if (txStatus.status === 'pending' || txStatus.status === 'success' || txStatus.status === 'orphaned') {
+          console.warn(`⚠️  Recording interrupted batch ${batchId} from its transaction ${batch.txId}`);
+          const claimed = await Registration.find({ 'batch.batchId': batchId }).sort({ createdAt: 1, _id: 1 });
+          const tree = MerkleService.buildTree(claimed.map(registration => HashService.hexToBuffer(registration.contentHash)));
+          await this.recordSubmitted(batchId, claimed, tree, batch.txId, batch.contractId);
+          continue;
+        }
+
+        console.warn(`⚠️  Requeueing hashes of interrupted batch ${batchId} (transaction ${txStatus.status})`);
+        await this.requeue(batchId, txStatus.status === 'failed'
+          ? txStatus.error || 'Transaction failed'
+          : 'Interrupted before broadcast');
+        continue;
+      }
+
+      console.warn(`⚠️  Requeueing hashes of interrupted batch ${batchId}`);
+      await this.requeue(batchId, 'Interrupted before broadcast');
+    }
+  }
+
+  private async requeue(batchId: mongoose.Types.ObjectId, error: string): Promise<void> {
+    await Registration.updateMany(
+      { 'batch.batchId': batchId, 'batch.status': 'anchoring' },
+      {
+        $set: { 'batch.status': 'queued' },
+        $unset: { 'batch.batchId': '' }
+      }
+    );
+    await AnchorBatch.updateOne({ _id: batchId }, { $set: { status: 'failed', error } });
+  }
+}
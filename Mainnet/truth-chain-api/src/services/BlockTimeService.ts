@@ -0,0 +1,226 @@
+import mongoose from 'mongoose';
+import { BlockTime } from '../../../shared/models/BlockTime';
+import { StacksNetworkName } from './ContractRegistry';
+import { FinalityService } from './FinalityService';
+
+/**
+ * Block Time Service
+ * Maps Stacks block heights to wall-clock time using the node API
+ *
+ * The contracts store `time-stamp` as the block height the registration was
+ * mined at, so every registration date has to be looked up from the block
+ * header. Blocks don't change once they are final (FINALITY_CONFIRMATIONS deep),
+ * so those are kept in memory and in the `block_times` collection. Blocks closer
+ * to the tip can still be reorged away and are only remembered briefly.
+ */
+
+export interface ResolvedBlockTime {
+  height: number;
+  hash: string;
+  blockTime: Date;
+  burnBlockTime: Date;
+  burnBlockHeight: number;
+}
+
+// Where a registration date came from: the block header, or our own records
+export type TimestampSource = 'chain' | 'database';
+
+export interface RegistrationTime {
+  registeredAt: Date;
+  burnBlockTime?: Date;  // Only set for chain times
+  timestampSource: TimestampSource;
+}
+
+const MEMORY_CACHE_SIZE = 10000;
+const SHALLOW_BLOCK_TTL_MS = 30 * 1000;
+
+interface CachedBlockTime {
+  block: ResolvedBlockTime;
+  expiresAt?: number;  // Unset for final blocks
+}
+
+export class BlockTimeService {
+  private network: StacksNetworkName;
+  private apiUrl: string;
+  private timeoutMs: number;
+  private getChainTip?: () => Promise<number>;
+  private memory = new Map<number, CachedBlockTime>();
+  private inFlight = new Map<number, Promise<ResolvedBlockTime | null>>();
+
+  /**
+   * @param network - Network the heights belong to (cache key)
+   * @param apiUrl - Stacks API base URL
+   * @param timeoutMs - Timeout for each block lookup
+   * @param getChainTip - Current tip height, used to tell final blocks from ones that may still reorg
+   */
+  constructor(network: StacksNetworkName, apiUrl: string, timeoutMs: number = 5000, getChainTip?: () => Promise<number>) {
+    this.network = network;
+    this.apiUrl = apiUrl;
+    this.timeoutMs = timeoutMs;
+    this.getChainTip = getChainTip;
+  }
+
+  /**
+   * Look up the time of a Stacks block
+   * @param height - Stacks block height
+   * @returns Promise with the block times, or null if the block is unknown or the lookup failed
+   */
+  async resolve(height: number): Promise<ResolvedBlockTime | null> {
+    if (!Number.isInteger(height) || height <= 0) {
+      return null;
+    }
+
+    const cached = this.memory.get(height);
+    if (cached && (!cached.expiresAt || cached.expiresAt > Date.now())) {
+      return cached.block;
+    }
+
+    // Share one lookup between concurrent verifications of the same block
+    let lookup = this.inFlight.get(height);
+    if (!lookup) {
+      lookup = this.load(height).finally(() => this.inFlight.delete(height));
+      this.inFlight.set(height, lookup);
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Registration date for a block height, falling back to a date we stored ourselves
+   * @param blockHeight - Block the registration was mined at (the contract's `time-stamp`)
+   * @param fallback - Date from our database, used when the block can't be resolved
+   * @returns Promise with the date and its source, or null if neither is available
+   */
+  async resolveRegistrationTime(blockHeight?: number, fallback?: Date): Promise<RegistrationTime | null> {
+    const block = blockHeight ? await this.resolve(blockHeight) : null;
+
+    if (block) {
+      return {
+        registeredAt: block.blockTime,
+        burnBlockTime: block.burnBlockTime,
+        timestampSource: 'chain'
+      };
+    }
+
+    return fallback ? { registeredAt: fallback, timestampSource: 'database' } : null;
+  }
+
+  /**
+   * Read a block from MongoDB, or fetch it and store it once it is final
+   */
+  private async load(height: number): Promise<ResolvedBlockTime | null> {
+    try {
+      const useDatabase = mongoose.connection.readyState === 1;
+
+      if (useDatabase) {
+        const stored = await BlockTime.findOne({ network: this.network, height }).lean();
+        if (stored) {
+          return this.remember({
+            height: stored.height,
+            hash: stored.hash,
+            blockTime: stored.blockTime,
+            burnBlockTime: stored.burnBlockTime,
+            burnBlockHeight: stored.burnBlockHeight
+          }, true);
+        }
+      }
+
+      const block = await this.fetchBlock(height);
+      if (!block) {
+        return null;
+      }
+
+      const final = await this.isFinal(height);
+
+      if (useDatabase && final) {
+        await BlockTime.updateOne(
+          { network: this.network, height },
+          { $setOnInsert: { network: this.network, ...block } },
+          { upsert: true }
+        ).catch(error => {
+          // Another instance stored it first
+          if (error?.code !== 11000) {
+            throw error;
+          }
+        });
+      }
+
+      return this.remember(block, final);
+    } catch (error) {
+      console.warn(`⚠️  Could not resolve time of block ${height}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a block header from the Stacks API (null on 404)
+   */
+  private async fetchBlock(height: number): Promise<ResolvedBlockTime | null> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json'
+    };
+
+    if (process.env.HIRO_API_KEY) {
+      headers['x-api-key'] = process.env.HIRO_API_KEY;
+    }
+
+    const response = await fetch(`${this.apiUrl}/extended/v2/blocks/${height}`, {
+      headers,
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Stacks API returned ${response.status} for block ${height}`);
+    }
+
+    const block: any = await response.json();
+
+    if (!Number.isFinite(block?.block_time) || !Number.isFinite(block?.burn_block_time)) {
+      throw new Error(`Stacks API returned no block time for block ${height}`);
+    }
+
+    return {
+      height: block.height,
+      hash: block.hash,
+      blockTime: new Date(block.block_time * 1000),
+      burnBlockTime: new Date(block.burn_block_time * 1000),
+      burnBlockHeight: block.burn_block_height
+    };
+  }
+
+  /**
+   * Check if a block has enough confirmations that it can no longer be reorged
+   * Blocks count as shallow when the tip is unknown
+   */
+  private async isFinal(height: number): Promise<boolean> {
+    if (!this.getChainTip) {
+      return false;
+    }
+
+    try {
+      return FinalityService.classify(await this.getChainTip() - height + 1) === 'final';
+    } catch (error) {
+      console.warn('⚠️  Could not fetch chain tip for block time caching:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  private remember(block: ResolvedBlockTime, final: boolean): ResolvedBlockTime {
+    this.memory.delete(block.height);
+
+    if (this.memory.size >= MEMORY_CACHE_SIZE) {
+      // Drop the oldest entry
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+
+    this.memory.set(block.height, {
+      block,
+      expiresAt: final ? undefined : Date.now() + SHALLOW_BLOCK_TTL_MS
+    });
+    return block;
+  }
+}
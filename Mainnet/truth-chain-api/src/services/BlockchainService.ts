@@ -6,25 +6,64 @@ import {
     PostConditionMode,
     bufferCV,
     stringAsciiCV,
+    someCV,
+    noneCV,
+    getAddressFromPrivateKey,
     listCV,
     fetchCallReadOnlyFunction,
-    cvToJSON
+    cvToJSON,
+    hexToCV,
+    deserializeTransaction,
+    sponsorTransaction,
+    addressToString,
+    addressFromVersionHash,
+    addressHashModeToVersion,
+    AuthType,
+    PayloadType,
+    StacksTransactionWire,
+    ContractCallPayload,
+    ClarityValue
   } from '@stacks/transactions';
   import { STACKS_TESTNET, STACKS_MAINNET, StacksNetwork } from '@stacks/network';
+  import { ContractContentType } from './ContentTypeService';
+  import { ContractDeployment, ContractRegistry, ContractVersion } from './ContractRegistry';
+  import { BlockTimeService } from './BlockTimeService';
   
   export interface ContractConfig {
-    contractAddress: string;
-    contractName: string;
     network: 'testnet' | 'mainnet';
+    deployments: ContractDeployment[];  // From ContractRegistry; exactly one active
+    readOnlyTimeoutMs?: number;  // Per-call timeout for read-only contract calls (default 5000)
+    apiUrl?: string;  // Stacks API base URL (defaults to Hiro's for the network)
+  }
+
+  export interface ContractLookup {
+    contractId: string;
+    version: ContractVersion;
+    status: 'found' | 'not_found' | 'timeout' | 'error';
+    durationMs: number;
+    error?: string;
+  }
+
+  export interface ContentVerification {
+    registration: TweetRegistration | null;
+    match?: {
+      contractId: string;
+      contractVersion: ContractVersion;
+    };
+    lookups: ContractLookup[];  // Newest contract first; older contracts are left out once a newer one matched
+    complete: boolean;  // false when a miss may be wrong because a lookup timed out or failed
   }
   
   export interface TweetRegistration {
     hash: Buffer;
     author: string;
     bnsName?: string;  // NEW: BNS name from contract
+    contentType?: string;  // Contract content-type (v1/v3 only)
     blockHeight: number;
-    timestamp: number;
+    timestamp: number;  // Contract `time-stamp`: the block height, not a Unix time
     registrationId: number;
+    contractId: string;  // Deployment the registration was read from
+    contractVersion: ContractVersion;
   }
   
   export interface RegistrationResult {
@@ -33,22 +72,104 @@ import {
     error?: string;
     registrationId?: number;
   }
+
+  export interface TransactionStatus {
+    txId: string;
+    status: 'pending' | 'success' | 'failed' | 'orphaned' | 'not_found';  // orphaned: mined in a block that is no longer canonical
+    blockHeight?: number;
+    blockTime?: Date;
+    registrationId?: number;
+    contractId?: string;  // Contract the transaction called
+    contractVersion?: ContractVersion;  // Set when the contract is a known deployment
+    error?: string;
+  }
+
+  export interface SponsoredTransactionCheck {
+    valid: boolean;
+    error?: string;
+    transaction?: StacksTransactionWire;
+    senderAddress?: string;
+  }
+
+  export interface RegistrationTransaction extends TransactionStatus {
+    contractId: string;
+    functionName: string;
+    sender: string;
+    contentHash?: string;  // hex, no 0x prefix
+    contentType?: string;
+    bnsName?: string;
+    result?: any;  // cvToJSON of the tx result
+    resultRepr?: string;
+  }
   
   export class BlockchainService {
+    private static CHAIN_TIP_TTL_MS = 10 * 1000;
     private config: ContractConfig;
     private network: StacksNetwork;
-    // v2 contract for fallback verification (BNS-only registrations)
-    private contractAddressV2: string = 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F';
-    private contractNameV2: string = 'truthchain_v2';
-    // v1 contract for fallback verification (backward compatibility)
-    private contractAddressV1: string = 'SP1S7KX8TVSAWJ8CVJZQSFERBQ8BNCDXYFHXT21Z9';
-    private contractNameV1: string = 'truthchain_v1';
+    // Contract that takes new registrations; older deployments are only read
+    private activeContract: ContractDeployment;
+    private readOnlyTimeoutMs: number;
+    private blockTimes: BlockTimeService;
+    private chainTip: { height: number; fetchedAt: number } | null = null;
   
     constructor(config: ContractConfig) {
+      const active = config.deployments.filter(deployment => deployment.status === 'active');
+      if (active.length !== 1) {
+        throw new Error(`Expected exactly one active contract for ${config.network}, found ${active.length}`);
+      }
+
       this.config = config;
-      this.network = config.network === 'mainnet' 
+      this.activeContract = active[0];
+      this.readOnlyTimeoutMs = config.readOnlyTimeoutMs || 5000;
+      const network = config.network === 'mainnet' 
         ? STACKS_MAINNET 
         : STACKS_TESTNET;
+      this.network = config.apiUrl
+        ? { ...network, client: { ...network.client, baseUrl: config.apiUrl } }
+        : network;
+      this.blockTimes = new BlockTimeService(config.network, this.network.client.baseUrl, this.readOnlyTimeoutMs, () => this.getChainTip());
+    }
+
+    /**
+     * Resolver for block heights to wall-clock time (contracts store heights, not times)
+     */
+    getBlockTimes(): BlockTimeService {
+      return this.blockTimes;
+    }
+
+    /**
+     * The deployment new registrations are sent to
+     */
+    getActiveContract(): ContractDeployment {
+      return this.activeContract;
+    }
+
+    /**
+     * Contract ID (`address.name`) of the active deployment
+     */
+    getActiveContractId(): string {
+      return ContractRegistry.getContractId(this.activeContract);
+    }
+
+    /**
+     * Every deployment on this network, newest first
+     */
+    getDeployments(): ContractDeployment[] {
+      return this.getVerificationContracts();
+    }
+
+    /**
+     * Network the service talks to
+     */
+    getNetworkName(): ContractConfig['network'] {
+      return this.config.network;
+    }
+
+    /**
+     * Find one of this network's deployments by contract ID
+     */
+    getDeployment(contractId: string): ContractDeployment | undefined {
+      return this.config.deployments.find(deployment => ContractRegistry.getContractId(deployment) === contractId);
     }
    
     /**
@@ -60,16 +181,48 @@ import {
     async registerTweet(
       contentHash: Buffer, 
       senderKey: string
+    ): Promise<RegistrationResult> {
+      return this.registerContent(contentHash, senderKey, 'tweet');
+    }
+
+    /**
+     * Register content of any supported type on the blockchain
+     * @param contentHash - SHA-256 hash of the content
+     * @param senderKey - Private key of the sender
+     * @param contentType - Contract content-type constant
+     * @param bnsName - Optional BNS name to record on chain (caller must check ownership)
+     * @param beforeBroadcast - Optional hook given the signed transaction's id before it is sent;
+     *   if it throws, nothing is broadcast
+     * @returns Promise with registration result
+     */
+    async registerContent(
+      contentHash: Buffer,
+      senderKey: string,
+      contentType: ContractContentType,
+      bnsName?: string,
+      beforeBroadcast?: (txId: string) => Promise<void>
     ): Promise<RegistrationResult> {
       try {
+        const supportsBns = ContractRegistry.supports(this.activeContract, 'register-content-with-bns');
+        if (bnsName && !supportsBns) {
+          return {
+            success: false,
+            error: `${this.getActiveContractId()} does not support BNS registrations`,
+          };
+        }
+
+        // Contracts that only take BNS registrations get an explicit `none`
+        const withBns = !!bnsName || !ContractRegistry.supports(this.activeContract, 'register-content');
+
         // Create the contract call transaction
         const txOptions = {
-          contractAddress: this.config.contractAddress,
-          contractName: this.config.contractName,
-          functionName: 'register-content',
+          contractAddress: this.activeContract.contractAddress,
+          contractName: this.activeContract.contractName,
+          functionName: withBns ? 'register-content-with-bns' : 'register-content',
           functionArgs: [
             bufferCV(contentHash),
-            stringAsciiCV('tweet') // content type
+            stringAsciiCV(contentType),
+            ...(withBns ? [bnsName ? someCV(stringAsciiCV(bnsName)) : noneCV()] : [])
           ],
           senderKey,
           network: this.network,
@@ -78,6 +231,7 @@ import {
         };
   
         const transaction = await makeContractCall(txOptions);
+        await beforeBroadcast?.(transaction.txid());
         
         // Broadcast the transaction
         const broadcastResponse = await broadcastTransaction({ transaction });
@@ -102,129 +256,161 @@ import {
       }
     }
   
+    /**
+     * Derive the Stacks address that signs with a private key on this network
+     * @param senderKey - Private key of the sender
+     * @returns Stacks address
+     */
+    getSenderAddress(senderKey: string): string {
+      return getAddressFromPrivateKey(senderKey, this.network);
+    }
+
     /**
      * Verify if content exists on blockchain
-     * Checks v2 first (with BNS), falls back to v1 (without BNS)
      * @param contentHash - SHA-256 hash to verify
-     * @returns Promise with verification result
+     * @returns Promise with the newest contract's registration, or null
      */
     async verifyTweet(contentHash: Buffer): Promise<TweetRegistration | null> {
-      try {
-        console.log('🔍 Verifying content on blockchain (v3 + v2 + v1 fallback)');
-        
-        // Try v3 first (all features + BNS support)
-        const v3Result = await this.verifyOnContract(
-          this.config.contractAddress,
-          this.config.contractName,
-          contentHash
-        );
-        if (v3Result) {
-          console.log('✅ Found in v3 with BNS:', v3Result.bnsName || 'none');
-          return v3Result;
-        }
+      const verification = await this.verifyContent(contentHash);
+      return verification.registration;
+    }
 
-        // Fallback to v2 (BNS-only) - only on mainnet
-        if (this.config.network === 'mainnet') {
-          console.log('⏭️  Not found in v3, checking v2...');
-          const v2Result = await this.verifyOnContract(
-            this.contractAddressV2,
-            this.contractNameV2,
-            contentHash
-          );
-          if (v2Result) {
-            console.log('✅ Found in v2 (BNS-only)');
-            return v2Result;
-          }
+    /**
+     * Look content up on every TruthChain contract deployed on the network
+     * All contracts are queried at once with a single `verify-content` call each;
+     * the newest contract holding the hash wins, so older contracts are only
+     * waited for while every newer one has missed.
+     * @param contentHash - SHA-256 hash to verify
+     * @returns Promise with the match (if any) and the outcome of each lookup
+     */
+    async verifyContent(contentHash: Buffer): Promise<ContentVerification> {
+      const contracts = this.getVerificationContracts();
+      console.log(`🔍 Verifying content on blockchain (${contracts.map(c => c.version).join(' + ')})`);
 
-          console.log('⏭️  Not found in v2, checking v1...');
-          const v1Result = await this.verifyOnContract(
-            this.contractAddressV1,
-            this.contractNameV1,
-            contentHash
-          );
-          if (v1Result) {
-            console.log('✅ Found in v1 (no BNS)');
-            return v1Result;
-          }
-        }
+      const pending = contracts.map(contract => this.verifyOnContract(contract, contentHash));
+      const lookups: ContractLookup[] = [];
 
-        console.log('❌ Not found in v3, v2, or v1');
-        return null;
-      } catch (error) {
-        console.error('❌ Error verifying content:', error);
-        return null;
+      for (const lookup of pending) {
+        const { registration, ...outcome } = await lookup;
+        lookups.push(outcome);
+
+        if (registration) {
+          console.log(`✅ Found in ${outcome.version} (${outcome.durationMs}ms)${registration.bnsName ? ` with BNS: ${registration.bnsName}` : ''}`);
+          return {
+            registration,
+            match: { contractId: outcome.contractId, contractVersion: outcome.version },
+            lookups,
+            complete: true
+          };
+        }
       }
+
+      const complete = lookups.every(lookup => lookup.status === 'not_found');
+      console.log(complete
+        ? `❌ Not found in ${contracts.map(c => c.version).join(', ')}`
+        : `⚠️  Not found, but ${lookups.filter(l => l.status !== 'not_found').map(l => `${l.version} ${l.status}`).join(', ')}`);
+
+      return { registration: null, lookups, complete };
     }
 
     /**
-     * Verify content on a specific contract
-     * @param contractAddress - Contract address to check
-     * @param contractName - Contract name to check
+     * Contracts to verify against, newest first
+     */
+    private getVerificationContracts(): ContractDeployment[] {
+      return [...this.config.deployments].sort(
+        (a, b) => parseInt(b.version.slice(1)) - parseInt(a.version.slice(1))
+      );
+    }
+
+    /**
+     * Verify content on a specific contract with a single `verify-content` call
+     * (it returns `(err ...)` when the hash isn't registered)
+     * @param contract - Contract to check
      * @param contentHash - SHA-256 hash to verify
-     * @returns Promise with verification result or null
+     * @returns Promise with the lookup outcome, including the registration when found
      */
     private async verifyOnContract(
-      contractAddress: string,
-      contractName: string,
+      contract: ContractDeployment,
       contentHash: Buffer
-    ): Promise<TweetRegistration | null> {
+    ): Promise<ContractLookup & { registration?: TweetRegistration }> {
+      const contractId = ContractRegistry.getContractId(contract);
+      const startedAt = Date.now();
+      const outcome = (status: ContractLookup['status'], error?: string) => ({
+        contractId,
+        version: contract.version,
+        status,
+        durationMs: Date.now() - startedAt,
+        ...(error ? { error } : {})
+      });
+
       try {
-        // First check if hash exists using the working method
-        const exists = await this.hashExistsOnContract(contractAddress, contractName, contentHash);
-        if (!exists) {
-          return null;
+        const result = await this.callReadOnly(
+          contract.contractAddress,
+          contract.contractName,
+          'verify-content',
+          [bufferCV(contentHash)]
+        );
+
+        const jsonResult = cvToJSON(result);
+        if (!jsonResult.success || !jsonResult.value) {
+          return outcome('not_found');
         }
 
-        // If hash exists, try to get full details
-        try {
-          const result = await fetchCallReadOnlyFunction({
-            contractAddress: contractAddress,
-            contractName: contractName,
-            functionName: 'verify-content',
-            functionArgs: [bufferCV(contentHash)],
-            network: this.network,
-            senderAddress: contractAddress,
-          });
-
-          // Parse the result
-          const jsonResult = cvToJSON(result);
-          
-          if (jsonResult.success && jsonResult.value) {
-            const data = jsonResult.value.value;
-            
-            // Extract BNS name if present (it's optional in contract)
-            let bnsName: string | undefined;
-            if (data['bns-name'] && data['bns-name'].type === 'some') {
-              bnsName = data['bns-name'].value.value;
-            }
-            
-            return {
-              hash: contentHash,
-              author: data.author.value,
-              bnsName: bnsName,  // Include BNS name from contract
-              blockHeight: parseInt(data['block-height'].value),
-              timestamp: parseInt(data['time-stamp'].value),
-              registrationId: parseInt(data['registration-id'].value),
-            };
-          }
-        } catch (detailError) {
-          console.log(`Error getting detailed verification from ${contractName}, falling back to basic info:`, detailError);
+        const data = jsonResult.value.value;
+
+        // Extract BNS name if present (it's optional in contract, and missing in v1)
+        let bnsName: string | undefined;
+        if (data['bns-name'] && data['bns-name'].type?.startsWith('(optional') && data['bns-name'].value) {
+          bnsName = data['bns-name'].value.value;
         }
 
-        // Fallback: if hash exists but we can't get details, return basic info
         return {
-          hash: contentHash,
-          author: 'unknown',
-          blockHeight: 0,
-          timestamp: Date.now() / 1000,
-          registrationId: 0,
+          ...outcome('found'),
+          registration: {
+            hash: contentHash,
+            author: data.author.value,
+            bnsName: bnsName,  // Include BNS name from contract
+            contentType: data['content-type']?.value,
+            blockHeight: parseInt(data['block-height'].value),
+            timestamp: parseInt(data['time-stamp'].value),
+            registrationId: parseInt(data['registration-id'].value),
+            contractId,
+            contractVersion: contract.version
+          }
         };
 
       } catch (error) {
-        console.error(`Error verifying on ${contractName}:`, error);
-        return null;
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          console.warn(`⏱️  verify-content on ${contract.contractName} timed out after ${this.readOnlyTimeoutMs}ms`);
+          return outcome('timeout', `Timed out after ${this.readOnlyTimeoutMs}ms`);
+        }
+
+        console.error(`Error verifying on ${contract.contractName}:`, error);
+        return outcome('error', error instanceof Error ? error.message : 'Unknown error');
       }
     }
+
+    /**
+     * Call a read-only contract function, aborting after readOnlyTimeoutMs
+     */
+    private callReadOnly(
+      contractAddress: string,
+      contractName: string,
+      functionName: string,
+      functionArgs: ClarityValue[]
+    ): Promise<ClarityValue> {
+      return fetchCallReadOnlyFunction({
+        contractAddress,
+        contractName,
+        functionName,
+        functionArgs,
+        network: this.network,
+        senderAddress: contractAddress,
+        client: {
+          fetch: (url, init) => fetch(url, { ...init, signal: AbortSignal.timeout(this.readOnlyTimeoutMs) })
+        }
+      });
+    }
   
     /**
      * Check if content hash exists (simple boolean check)
@@ -232,7 +418,7 @@ import {
      * @returns Promise<boolean>
      */
     async hashExists(contentHash: Buffer): Promise<boolean> {
-      return this.hashExistsOnContract(this.config.contractAddress, this.config.contractName, contentHash);
+      return this.hashExistsOnContract(this.activeContract.contractAddress, this.activeContract.contractName, contentHash);
     }
 
     /**
@@ -248,14 +434,7 @@ import {
       contentHash: Buffer
     ): Promise<boolean> {
       try {
-        const result = await fetchCallReadOnlyFunction({
-          contractAddress: contractAddress,
-          contractName: contractName,
-          functionName: 'hash-exists',
-          functionArgs: [bufferCV(contentHash)],
-          network: this.network,
-          senderAddress: contractAddress,
-        });
+        const result = await this.callReadOnly(contractAddress, contractName, 'hash-exists', [bufferCV(contentHash)]);
   
         const jsonResult = cvToJSON(result);
         return jsonResult.value === true;
@@ -272,12 +451,12 @@ import {
     async getContractStats(): Promise<any> {
       try {
         const result = await fetchCallReadOnlyFunction({
-          contractAddress: this.config.contractAddress,
-          contractName: this.config.contractName,
+          contractAddress: this.activeContract.contractAddress,
+          contractName: this.activeContract.contractName,
           functionName: 'get-contract-stats',
           functionArgs: [],
           network: this.network,
-          senderAddress: this.config.contractAddress,
+          senderAddress: this.activeContract.contractAddress,
         });
   
         return cvToJSON(result);
@@ -297,12 +476,12 @@ import {
         const hashCVs = hashes.map(hash => bufferCV(hash));
         
         const result = await fetchCallReadOnlyFunction({
-          contractAddress: this.config.contractAddress,
-          contractName: this.config.contractName,
+          contractAddress: this.activeContract.contractAddress,
+          contractName: this.activeContract.contractName,
           functionName: 'batch-verify',
           functionArgs: [listCV(hashCVs)],
           network: this.network,
-          senderAddress: this.config.contractAddress,
+          senderAddress: this.activeContract.contractAddress,
         });
   
         return cvToJSON(result);
@@ -311,4 +490,382 @@ import {
         return null;
       }
     }
+
+    /**
+     * Look up a transaction on the Stacks node
+     * @param txId - Transaction ID (with or without 0x prefix)
+     * @returns Promise with the normalized transaction status
+     */
+    async getTransactionStatus(txId: string): Promise<TransactionStatus> {
+      const normalizedTxId = this.normalizeTxId(txId);
+      const tx = await this.fetchTransaction(normalizedTxId);
+
+      if (!tx) {
+        return { txId: normalizedTxId, status: 'not_found' };
+      }
+
+      return this.toTransactionStatus(tx);
+    }
+
+    /**
+     * Decode a TruthChain registration contract call from its transaction
+     * @param txId - Transaction ID (with or without 0x prefix)
+     * @returns Promise with the decoded call, or null if the tx is unknown or not a contract call
+     */
+    async getRegistrationTransaction(txId: string): Promise<RegistrationTransaction | null> {
+      const tx = await this.fetchTransaction(this.normalizeTxId(txId));
+      return tx ? this.decodeRegistrationTransaction(tx) : null;
+    }
+
+    /**
+     * Check a decoded transaction is a register-content call on one of our deployments for the hash
+     * Transaction IDs reported by clients are only trusted after this check
+     * @param call - Decoded transaction from getRegistrationTransaction
+     * @param contentHashHex - Hash the transaction must register (hex)
+     */
+    isRegistrationOf(call: RegistrationTransaction | null, contentHashHex: string): call is RegistrationTransaction {
+      return !!call &&
+        call.functionName.startsWith('register-content') &&
+        !!this.getDeployment(call.contractId) &&
+        call.contentHash?.toLowerCase() === contentHashHex.replace(/^0x/, '').toLowerCase();
+    }
+
+    /**
+     * Compare transaction IDs with or without their 0x prefix
+     */
+    static isSameTxId(a: string, b: string): boolean {
+      return a.replace(/^0x/, '').toLowerCase() === b.replace(/^0x/, '').toLowerCase();
+    }
+
+    /**
+     * Decode a contract call from raw Stacks API transaction JSON
+     * @param tx - Transaction as returned by the Stacks API
+     * @returns The decoded call, or null if the tx is not a contract call
+     */
+    decodeRegistrationTransaction(tx: any): RegistrationTransaction | null {
+      if (tx.tx_type !== 'contract_call' || !tx.contract_call) {
+        return null;
+      }
+
+      const args: Array<{ name: string; hex: string; repr: string }> = tx.contract_call.function_args || [];
+      const decodeArg = (name: string) => {
+        const arg = args.find(a => a.name === name);
+        return arg ? cvToJSON(hexToCV(arg.hex)) : undefined;
+      };
+
+      const hashArg = decodeArg('hash') || decodeArg('content-hash');
+      const contentTypeArg = decodeArg('content-type');
+      const bnsArg = decodeArg('bns-name');
+
+      let result: any;
+      if (tx.tx_result?.hex && tx.tx_status !== 'pending') {
+        try {
+          result = cvToJSON(hexToCV(tx.tx_result.hex));
+        } catch (error) {
+          console.warn('Could not decode transaction result:', error);
+        }
+      }
+
+      return {
+        ...this.toTransactionStatus(tx),
+        contractId: tx.contract_call.contract_id,
+        functionName: tx.contract_call.function_name,
+        sender: tx.sender_address,
+        contentHash: typeof hashArg?.value === 'string' ? hashArg.value.replace(/^0x/, '') : undefined,
+        contentType: contentTypeArg?.value,
+        bnsName: bnsArg?.type?.startsWith('(optional') && bnsArg.value ? bnsArg.value.value : undefined,
+        result,
+        resultRepr: tx.tx_result?.repr
+      };
+    }
+
+    /**
+     * Current Stacks chain tip height
+     * Cached for a few seconds so verification bursts share one node call
+     * @returns Promise with the tip block height
+     */
+    async getChainTip(): Promise<number> {
+      if (this.chainTip && Date.now() - this.chainTip.fetchedAt < BlockchainService.CHAIN_TIP_TTL_MS) {
+        return this.chainTip.height;
+      }
+
+      const response = await fetch(`${this.network.client.baseUrl}/v2/info`, {
+        headers: this.apiHeaders(),
+        signal: AbortSignal.timeout(this.readOnlyTimeoutMs)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Stacks API returned ${response.status} for /v2/info`);
+      }
+
+      const info: any = await response.json();
+      if (!Number.isInteger(info?.stacks_tip_height)) {
+        throw new Error('Stacks API returned no chain tip');
+      }
+
+      this.chainTip = { height: info.stacks_tip_height, fetchedAt: Date.now() };
+      return info.stacks_tip_height;
+    }
+
+    /**
+     * Page through the transactions involving a contract, newest first
+     * @param contractId - Contract ID (`address.name`)
+     * @param limit - Page size (the API caps it at 50)
+     * @param offset - Transactions to skip from the newest
+     * @returns Promise with the page and the total number of transactions
+     */
+    async getContractTransactions(contractId: string, limit: number, offset: number): Promise<{ total: number; results: any[] }> {
+      const response = await fetch(
+        `${this.network.client.baseUrl}/extended/v1/address/${contractId}/transactions?limit=${limit}&offset=${offset}`,
+        { headers: this.apiHeaders(), signal: AbortSignal.timeout(this.readOnlyTimeoutMs) }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Stacks API returned ${response.status} for ${contractId} transactions`);
+      }
+
+      const page: any = await response.json();
+      return { total: page.total, results: page.results || [] };
+    }
+
+    /**
+     * Fetch raw transaction JSON from the Stacks API (null on 404)
+     */
+    private async fetchTransaction(txId: string): Promise<any | null> {
+      // The id ends up in the request path
+      if (!/^(0x)?[0-9a-f]{64}$/i.test(txId)) {
+        throw new Error(`Invalid transaction ID: ${txId.substring(0, 80)}`);
+      }
+
+      const response = await fetch(
+        `${this.network.client.baseUrl}/extended/v1/tx/${txId}`,
+        { headers: this.apiHeaders(), signal: AbortSignal.timeout(this.readOnlyTimeoutMs) }
+      );
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Stacks API returned ${response.status} for ${txId}`);
+      }
+
+      return response.json();
+    }
+
+    private apiHeaders(): Record<string, string> {
+      const headers: Record<string, string> = {
+        'Accept': 'application/json'
+      };
+
+      if (process.env.HIRO_API_KEY) {
+        headers['x-api-key'] = process.env.HIRO_API_KEY;
+      }
+
+      return headers;
+    }
+
+    /**
+     * Map a raw Stacks API transaction onto our status shape
+     */
+    private toTransactionStatus(tx: any): TransactionStatus {
+      const contractId: string | undefined = tx.contract_call?.contract_id;
+      const contract = contractId
+        ? { contractId, contractVersion: this.getDeployment(contractId)?.version }
+        : {};
+
+      if (tx.tx_status === 'pending') {
+        return { txId: tx.tx_id, status: 'pending', ...contract };
+      }
+
+      // A reorg or orphaned microblock leaves the tx in the API with its old result, flagged non-canonical
+      if (tx.canonical === false || tx.microblock_canonical === false) {
+        return { txId: tx.tx_id, status: 'orphaned', ...contract };
+      }
+
+      const blockTime = tx.burn_block_time ? new Date(tx.burn_block_time * 1000) : undefined;
+
+      if (tx.tx_status === 'success') {
+        return {
+          txId: tx.tx_id,
+          status: 'success',
+          ...contract,
+          blockHeight: tx.block_height,
+          blockTime,
+          registrationId: this.parseRegistrationId(tx.tx_result?.hex)
+        };
+      }
+
+      // abort_by_response, abort_by_post_condition, dropped_* ...
+      return {
+        txId: tx.tx_id,
+        status: 'failed',
+        ...contract,
+        blockHeight: tx.block_height,
+        blockTime,
+        error: tx.tx_result?.repr ? `${tx.tx_status}: ${tx.tx_result.repr}` : tx.tx_status
+      };
+    }
+
+    /**
+     * Whether a sponsor key is configured for gasless registrations
+     */
+    isSponsorEnabled(): boolean {
+      return !!process.env.SPONSOR_PRIVATE_KEY;
+    }
+
+    /**
+     * Check a client-signed sponsored transaction before we co-sign it
+     * Must be a sponsored register-content-with-bns call on our contract for the expected hash
+     * @param serializedTx - Hex-encoded signed transaction from the wallet
+     * @param expectedHashHex - Content hash of the pending registration
+     * @param expectedContentType - Contract content-type of the pending registration
+     * @param expectedBnsName - BNS name of the pending registration (the call must pass `none` without one);
+     *   the caller checks the wallet owns it
+     * @returns Validation result with the decoded transaction and origin address
+     */
+    validateSponsoredRegistration(
+      serializedTx: string,
+      expectedHashHex: string,
+      expectedContentType: ContractContentType,
+      expectedBnsName?: string
+    ): SponsoredTransactionCheck {
+      let transaction: StacksTransactionWire;
+      try {
+        transaction = deserializeTransaction(serializedTx.replace(/^0x/, ''));
+      } catch (error) {
+        return { valid: false, error: 'Transaction could not be decoded' };
+      }
+
+      if (transaction.auth.authType !== AuthType.Sponsored) {
+        return { valid: false, error: 'Transaction must be built with sponsored: true' };
+      }
+
+      if (transaction.chainId !== this.network.chainId) {
+        return { valid: false, error: `Transaction is not for ${this.config.network}` };
+      }
+
+      if (transaction.payload.payloadType !== PayloadType.ContractCall) {
+        return { valid: false, error: 'Transaction is not a contract call' };
+      }
+
+      const payload = transaction.payload as ContractCallPayload;
+      const contractId = `${addressToString(payload.contractAddress)}.${payload.contractName.content}`;
+
+      if (contractId !== this.getActiveContractId()) {
+        return { valid: false, error: `Transaction calls ${contractId}, not the TruthChain contract` };
+      }
+
+      if (!ContractRegistry.supports(this.activeContract, 'register-content-with-bns')) {
+        return { valid: false, error: `${contractId} does not support register-content-with-bns` };
+      }
+
+      if (payload.functionName.content !== 'register-content-with-bns') {
+        return { valid: false, error: 'Only register-content-with-bns can be sponsored' };
+      }
+
+      const hashArg = payload.functionArgs[0] ? cvToJSON(payload.functionArgs[0]) : undefined;
+      if (!hashArg || typeof hashArg.value !== 'string' ||
+          hashArg.value.replace(/^0x/, '').toLowerCase() !== expectedHashHex.toLowerCase()) {
+        return { valid: false, error: 'Transaction hash argument does not match the pending registration' };
+      }
+
+      const contentTypeArg = payload.functionArgs[1] ? cvToJSON(payload.functionArgs[1]) : undefined;
+      if (contentTypeArg?.value !== expectedContentType) {
+        return { valid: false, error: `Transaction content-type must be ${expectedContentType}` };
+      }
+
+      // The contract records whatever name it is given, so only the one we checked can be paid for
+      const bnsArg = payload.functionArgs[2] ? cvToJSON(payload.functionArgs[2]) : undefined;
+      const bnsName = bnsArg?.type?.startsWith('(optional') && bnsArg.value ? bnsArg.value.value : undefined;
+      if (payload.functionArgs.length !== 3 || !bnsArg?.type?.startsWith('(optional') || bnsName !== expectedBnsName) {
+        return {
+          valid: false,
+          error: expectedBnsName
+            ? `Transaction bns-name must be ${expectedBnsName}`
+            : 'Transaction bns-name must be none'
+        };
+      }
+
+      try {
+        // Throws if the origin signature doesn't cover this transaction
+        transaction.verifyOrigin();
+      } catch (error) {
+        return { valid: false, error: 'Origin signature is invalid' };
+      }
+
+      const origin = transaction.auth.spendingCondition;
+      const senderAddress = addressToString(addressFromVersionHash(
+        addressHashModeToVersion(origin.hashMode, this.network),
+        origin.signer
+      ));
+
+      return { valid: true, transaction, senderAddress };
+    }
+
+    /**
+     * Co-sign a validated sponsored transaction with the server sponsor key and broadcast it
+     * @param transaction - Transaction returned by validateSponsoredRegistration
+     * @returns Promise with registration result
+     */
+    async sponsorAndBroadcast(transaction: StacksTransactionWire): Promise<RegistrationResult> {
+      try {
+        const sponsorPrivateKey = process.env.SPONSOR_PRIVATE_KEY;
+        if (!sponsorPrivateKey) {
+          return { success: false, error: 'Sponsor mode is not configured' };
+        }
+
+        const sponsored = await sponsorTransaction({
+          transaction,
+          sponsorPrivateKey,
+          fee: process.env.SPONSOR_FEE_MICROSTX ? BigInt(process.env.SPONSOR_FEE_MICROSTX) : undefined,
+          network: this.network
+        });
+
+        const broadcastResponse = await broadcastTransaction({
+          transaction: sponsored,
+          network: this.network
+        });
+
+        if ('error' in broadcastResponse) {
+          return {
+            success: false,
+            error: broadcastResponse.reason ? `${broadcastResponse.error}: ${broadcastResponse.reason}` : broadcastResponse.error,
+          };
+        }
+
+        return {
+          success: true,
+          txId: broadcastResponse.txid,
+        };
+
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+
+    private normalizeTxId(txId: string): string {
+      return txId.startsWith('0x') ? txId : `0x${txId}`;
+    }
+
+    /**
+     * Extract registration-id from a register-content (ok { ... }) result
+     */
+    private parseRegistrationId(resultHex?: string): number | undefined {
+      if (!resultHex) {
+        return undefined;
+      }
+
+      try {
+        const jsonResult = cvToJSON(hexToCV(resultHex));
+        const registrationId = jsonResult.success && jsonResult.value?.value?.['registration-id'];
+        return registrationId ? parseInt(registrationId.value) : undefined;
+      } catch (error) {
+        console.warn('Could not decode transaction result:', error);
+        return undefined;
+      }
+    }
   }
\ No newline at end of file
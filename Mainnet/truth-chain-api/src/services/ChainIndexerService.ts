@@ -0,0 +1,194 @@
+/**
+ * Chain Indexer Service
+ * Copies registrations made straight against the contracts (from a wallet or
+ * another dApp) into the registrations collection
+ *
+ * Each contract's transactions are read oldest first, a page at a time, from a
+ * cursor stored in `indexer_cursors`. The Stacks API lists transactions newest
+ * first, so the cursor counts transactions from the oldest end, which doesn't
+ * move as new ones arrive. Each run re-reads a few already indexed
+ * transactions in case a reorg shifted them; documents are only ever inserted
+ * when the content hash is new, so re-reading is harmless.
+ */
+
+import { Registration } from '../../../shared/models/Registration';
+import { User } from '../../../shared/models/User';
+import { IndexerCursor } from '../../../shared/models/IndexerCursor';
+import { AnchorBatch } from '../../../shared/models/AnchorBatch';
+import { BlockchainService } from './BlockchainService';
+import { ContractDeployment, ContractRegistry } from './ContractRegistry';
+import { ContentTypeService } from './ContentTypeService';
+
+export interface IndexResult {
+  contractId: string;
+  scanned: number;   // Transactions read
+  indexed: number;   // New registrations inserted
+  existing: number;  // Registrations we already had
+  skipped: number;   // Failed transactions, calls to other functions and our batch roots
+  offset: number;    // Cursor after this run
+  total: number;     // Transactions the contract has
+}
+
+type IndexOutcome = 'indexed' | 'existing' | 'skipped';
+
+export class ChainIndexerService {
+  private blockchainService: BlockchainService;
+
+  private static PAGE_SIZE = 50;
+  // Already indexed transactions to read again each run
+  private static REORG_OVERLAP = 20;
+
+  constructor(blockchainService: BlockchainService) {
+    this.blockchainService = blockchainService;
+  }
+
+  /**
+   * Index every configured deployment on the network
+   * @param maxPages - Pages to read per contract in this run
+   */
+  async indexAll(maxPages: number = 20): Promise<IndexResult[]> {
+    const results: IndexResult[] = [];
+
+    for (const deployment of this.blockchainService.getDeployments()) {
+      try {
+        results.push(await this.indexContract(deployment, maxPages));
+      } catch (error) {
+        console.error(`❌ Failed to index ${ContractRegistry.getContractId(deployment)}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Read a contract's transactions from its cursor and index the registrations
+   * The cursor is saved after every page, so a restart picks up where this left off
+   */
+  async indexContract(deployment: ContractDeployment, maxPages: number = 20): Promise<IndexResult> {
+    const network = this.blockchainService.getNetworkName();
+    const contractId = ContractRegistry.getContractId(deployment);
+    const cursor = await IndexerCursor.findOne({ network, contractId });
+
+    let { total } = await this.blockchainService.getContractTransactions(contractId, 1, 0);
+    let start = Math.min(Math.max((cursor?.offset || 0) - ChainIndexerService.REORG_OVERLAP, 0), total);
+
+    const result: IndexResult = { contractId, scanned: 0, indexed: 0, existing: 0, skipped: 0, offset: start, total };
+
+    for (let pages = 0; start < total && pages < maxPages; pages++) {
+      const count = Math.min(ChainIndexerService.PAGE_SIZE, total - start);
+      const page = await this.blockchainService.getContractTransactions(contractId, count, total - start - count);
+
+      if (page.total !== total) {
+        // New transactions landed in between and shifted the offsets; read the page again
+        total = page.total;
+        result.total = total;
+        continue;
+      }
+
+      const transactions = [...page.results].reverse();  // oldest first
+      for (const tx of transactions) {
+        result.scanned++;
+        result[await this.indexTransaction(tx, deployment)]++;
+      }
+
+      start += count;
+      const last = transactions[transactions.length - 1];
+
+      await IndexerCursor.updateOne(
+        { network, contractId },
+        { $set: { offset: start, lastBlockHeight: last?.block_height, lastTxId: last?.tx_id } },
+        { upsert: true }
+      );
+      result.offset = start;
+    }
+
+    return result;
+  }
+
+  /**
+   * Insert the registration made by one transaction, unless we already have the hash
+   */
+  async indexTransaction(tx: any, deployment: ContractDeployment): Promise<IndexOutcome> {
+    const contractId = ContractRegistry.getContractId(deployment);
+    const call = this.blockchainService.decodeRegistrationTransaction(tx);
+
+    if (
+      !call ||
+      call.contractId !== contractId ||
+      !call.functionName.startsWith('register-content') ||
+      call.status !== 'success' ||
+      !call.result?.success ||
+      !/^[0-9a-f]{64}$/i.test(call.contentHash || '')
+    ) {
+      return 'skipped';
+    }
+
+    // Our own batch roots - the hashes under them are registrations already
+    if (await AnchorBatch.exists({ txId: call.txId })) {
+      return 'skipped';
+    }
+
+    const blockTime = call.blockHeight
+      ? await this.blockchainService.getBlockTimes().resolve(call.blockHeight)
+      : null;
+    const timestamp = blockTime?.blockTime || call.blockTime || new Date();
+
+    try {
+      const upsert = await Registration.updateOne(
+        { contentHash: call.contentHash!.toLowerCase() },
+        {
+          $setOnInsert: {
+            contentHash: call.contentHash!.toLowerCase(),
+            authorWallet: call.sender,
+            bnsName: call.bnsName,
+            content: {
+              type: ContentTypeService.fromContractType(call.contentType) || 'other'
+            },
+            blockchain: {
+              txId: call.txId,
+              status: 'confirmed',
+              blockHeight: call.blockHeight,
+              registrationId: call.registrationId,
+              confirmations: 0,
+              timestamp,
+              contractId,
+              contractVersion: deployment.version
+            },
+            metadata: { source: 'chain' }
+          }
+        },
+        { upsert: true }
+      );
+
+      if (upsert.upsertedCount === 0) {
+        return 'existing';
+      }
+    } catch (error: any) {
+      // Registered through the API at the same moment
+      if (error?.code === 11000) {
+        return 'existing';
+      }
+      throw error;
+    }
+
+    // Wallets that only ever registered on chain have no user yet
+    await User.findOneAndUpdate(
+      { walletAddress: call.sender.toUpperCase() },
+      {
+        $inc: {
+          'stats.totalRegistrations': 1,
+          'stats.confirmedRegistrations': 1
+        },
+        $max: { 'stats.lastRegistration': timestamp },
+        $setOnInsert: {
+          walletAddress: call.sender.toUpperCase(),
+          'metadata.firstSeen': timestamp
+        }
+      },
+      { upsert: true, setDefaultsOnInsert: false }
+    );
+
+    console.log(`📥 Indexed chain registration ${call.contentHash} from ${contractId} (${call.txId})`);
+    return 'indexed';
+  }
+}
@@ -0,0 +1,124 @@
+import { IContentData } from '../../../shared/models/Registration';
+
+export type ContentType = IContentData['type'];
+
+// Content-type constants accepted by truthchain_v3 (CONTENT-TYPE-*)
+export type ContractContentType = 'blog_post' | 'page' | 'media' | 'document' | 'tweet';
+
+export interface ContentFields {
+  title?: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  author?: string;
+}
+
+const CONTRACT_CONTENT_TYPES: Record<ContentType, ContractContentType> = {
+  tweet: 'tweet',
+  article: 'blog_post',
+  image: 'media',
+  video: 'media',
+  document: 'document',
+  other: 'page'
+};
+
+// Tweets keep the historical 4000 character cap; long-form content gets more room
+const MAX_CONTENT_LENGTH: Record<ContentType, number> = {
+  tweet: 4000,
+  article: 200000,
+  image: 4000,
+  video: 4000,
+  document: 200000,
+  other: 200000
+};
+
+export class ContentTypeService {
+  /**
+   * Check if a value is a supported content type
+   * @param type - Content type from the request
+   * @returns boolean indicating if the type is supported
+   */
+  static isContentType(type: unknown): type is ContentType {
+    return typeof type === 'string' && Object.prototype.hasOwnProperty.call(CONTRACT_CONTENT_TYPES, type);
+  }
+
+  /**
+   * Map an API content type to the contract's content-type constant
+   * @param type - Content type stored on the registration
+   * @returns content-type string for register-content
+   */
+  static toContractType(type: ContentType): ContractContentType {
+    return CONTRACT_CONTENT_TYPES[type];
+  }
+
+  /**
+   * Map a contract content-type back to an API content type
+   * @param contractType - content-type stored on chain
+   * @returns API content type, or undefined when ambiguous (media = image or video)
+   */
+  static fromContractType(contractType?: string): ContentType | undefined {
+    switch (contractType) {
+      case 'tweet': return 'tweet';
+      case 'blog_post': return 'article';
+      case 'document': return 'document';
+      case 'page': return 'other';
+      default: return undefined;
+    }
+  }
+
+  /**
+   * Maximum text length accepted for a content type
+   */
+  static getMaxLength(type: ContentType): number {
+    return MAX_CONTENT_LENGTH[type];
+  }
+
+  /**
+   * Validate the type-specific fields of a registration
+   * @param type - Content type being registered
+   * @param content - Text content to hash
+   * @param fields - Type-specific metadata
+   * @returns error message, or null if valid
+   */
+  static validate(type: ContentType, content: string, fields: ContentFields): string | null {
+    if (content.length > MAX_CONTENT_LENGTH[type]) {
+      return `Content exceeds ${MAX_CONTENT_LENGTH[type]} characters for type ${type}`;
+    }
+
+    if ((type === 'article' || type === 'document') && !fields.title?.trim()) {
+      return `A title is required for type ${type}`;
+    }
+
+    if (type === 'image' && !fields.imageUrl) {
+      return 'An imageUrl is required for type image';
+    }
+
+    if (type === 'video' && !fields.videoUrl) {
+      return 'A videoUrl is required for type video';
+    }
+
+    for (const key of ['imageUrl', 'videoUrl'] as const) {
+      if (fields[key] && !this.isHttpUrl(fields[key]!)) {
+        return `${key} must be an http(s) URL`;
+      }
+    }
+
+    if (fields.title && fields.title.length > 300) {
+      return 'Title exceeds 300 characters';
+    }
+
+    if (fields.author && fields.author.length > 100) {
+      return 'Author exceeds 100 characters';
+    }
+
+    return null;
+  }
+
+  private static isHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Contract Backfill Service
+ * Records which contract deployment holds registrations confirmed before
+ * `blockchain.contractId` / `blockchain.contractVersion` were stored
+ */
+
+import mongoose from 'mongoose';
+import { Registration, IRegistration } from '../../../shared/models/Registration';
+import { BlockchainService } from './BlockchainService';
+import { HashService } from './HashService';
+
+export interface BackfillResult {
+  checked: number;
+  backfilled: number;
+  notFound: number;  // Hash isn't held by any configured deployment
+  failed: number;    // Lookup errored or timed out - retried on the next run
+  lastId?: mongoose.Types.ObjectId;  // Cursor for the next batch
+}
+
+export class ContractBackfillService {
+  private blockchainService: BlockchainService;
+
+  constructor(blockchainService: BlockchainService) {
+    this.blockchainService = blockchainService;
+  }
+
+  /**
+   * Backfill one batch of confirmed registrations that have no contract recorded
+   * @param batchSize - Registrations per batch
+   * @param afterId - Continue after this registration (from the previous batch's lastId)
+   */
+  async backfillBatch(batchSize: number = 50, afterId?: mongoose.Types.ObjectId): Promise<BackfillResult> {
+    const registrations = await Registration.find({
+      'blockchain.status': 'confirmed',
+      'blockchain.contractId': { $exists: false },
+      ...(afterId ? { _id: { $gt: afterId } } : {})
+    })
+      .sort({ _id: 1 })
+      .limit(batchSize);
+
+    const result: BackfillResult = {
+      checked: 0,
+      backfilled: 0,
+      notFound: 0,
+      failed: 0,
+      lastId: registrations[registrations.length - 1]?._id as mongoose.Types.ObjectId
+    };
+
+    for (const registration of registrations) {
+      result.checked++;
+
+      try {
+        const outcome = await this.backfillRegistration(registration);
+
+        if (outcome === 'backfilled') {
+          result.backfilled++;
+        } else if (outcome === 'not_found') {
+          result.notFound++;
+        } else {
+          result.failed++;
+        }
+
+        // Rate limiting: wait 100ms between requests
+        await new Promise(resolve => setTimeout(resolve, 100));
+      } catch (error) {
+        console.error(`Failed to backfill contract for registration ${registration._id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the deployment holding one registration
+   * Uses the registration transaction when we have it, otherwise looks the hash up on every contract
+   */
+  async backfillRegistration(registration: IRegistration): Promise<'backfilled' | 'not_found' | 'failed'> {
+    const { txId } = registration.blockchain;
+
+    if (txId) {
+      const txStatus = await this.blockchainService.getTransactionStatus(txId);
+
+      // Only trust the transaction if it called one of our deployments
+      if (txStatus.status === 'success' && txStatus.contractId && txStatus.contractVersion) {
+        await this.saveContract(registration, txStatus.contractId, txStatus.contractVersion);
+        return 'backfilled';
+      }
+    }
+
+    const verification = await this.blockchainService.verifyContent(
+      HashService.hexToBuffer(registration.contentHash)
+    );
+
+    if (verification.match) {
+      await this.saveContract(registration, verification.match.contractId, verification.match.contractVersion);
+      return 'backfilled';
+    }
+
+    return verification.complete ? 'not_found' : 'failed';
+  }
+
+  /**
+   * Set the contract unless another writer already did
+   */
+  private async saveContract(registration: IRegistration, contractId: string, contractVersion: string): Promise<void> {
+    await Registration.updateOne(
+      { _id: registration._id, 'blockchain.contractId': { $exists: false } },
+      {
+        $set: {
+          'blockchain.contractId': contractId,
+          'blockchain.contractVersion': contractVersion
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import defaultRegistry from '../config/contracts.json';
+
+/**
+ * Registry of TruthChain contract deployments per network
+ *
+ * Deployments are read from src/config/contracts.json, or from the JSON file
+ * at CONTRACT_REGISTRY_PATH. Each network lists every contract that may hold
+ * registrations; exactly one of them is `active` and takes new registrations,
+ * the rest are `read-only` and only used for verification. Adding a contract
+ * (e.g. a v4) is a config change: list it as active and mark the old one read-only.
+ */
+
+export type StacksNetworkName = 'mainnet' | 'testnet';
+
+export type ContractVersion = `v${number}`;
+
+// Public registration functions a deployment may implement
+export type RegistrationFunction = 'register-content' | 'register-content-with-bns';
+
+export interface ContractDeployment {
+  version: ContractVersion;
+  contractAddress: string;
+  contractName: string;
+  deployHeight: number;  // Block the contract was deployed at (0 if unknown)
+  functions: RegistrationFunction[];
+  status: 'active' | 'read-only';
+}
+
+export type ContractRegistryConfig = Record<StacksNetworkName, ContractDeployment[]>;
+
+const REGISTRATION_FUNCTIONS: RegistrationFunction[] = ['register-content', 'register-content-with-bns'];
+
+const ADDRESS_PATTERN: Record<StacksNetworkName, RegExp> = {
+  mainnet: /^S[PM][0-9A-HJKMNP-TV-Z]{28,41}$/,
+  testnet: /^S[TN][0-9A-HJKMNP-TV-Z]{28,41}$/
+};
+
+export class ContractRegistry {
+  private static registry: ContractRegistryConfig | null = null;
+
+  /**
+   * Network the API runs on (process.env.NETWORK, mainnet unless set to testnet)
+   */
+  static getNetwork(): StacksNetworkName {
+    return process.env.NETWORK === 'testnet' ? 'testnet' : 'mainnet';
+  }
+
+  /**
+   * Deployments for a network, newest version first
+   */
+  static getDeployments(network: StacksNetworkName): ContractDeployment[] {
+    return [...this.load()[network]].sort((a, b) => this.versionNumber(b.version) - this.versionNumber(a.version));
+  }
+
+  /**
+   * The deployment that takes new registrations on a network
+   */
+  static getActive(network: StacksNetworkName): ContractDeployment {
+    return this.getDeployments(network).find(deployment => deployment.status === 'active')!;
+  }
+
+  /**
+   * Find a deployment by its `address.name` contract ID
+   */
+  static findByContractId(network: StacksNetworkName, contractId: string): ContractDeployment | undefined {
+    return this.load()[network].find(deployment => this.getContractId(deployment) === contractId);
+  }
+
+  static getContractId(deployment: ContractDeployment): string {
+    return `${deployment.contractAddress}.${deployment.contractName}`;
+  }
+
+  /**
+   * Check if a deployment implements a registration function
+   */
+  static supports(deployment: ContractDeployment, fn: RegistrationFunction): boolean {
+    return deployment.functions.includes(fn);
+  }
+
+  /**
+   * Load and validate the registry (once)
+   * @throws Error if the config file can't be read or is invalid
+   */
+  static load(): ContractRegistryConfig {
+    if (!this.registry) {
+      const path = process.env.CONTRACT_REGISTRY_PATH;
+      const config = path ? JSON.parse(fs.readFileSync(path, 'utf8')) : defaultRegistry;
+
+      const errors = this.validate(config);
+      if (errors.length > 0) {
+        throw new Error(`Invalid contract registry${path ? ` (${path})` : ''}: ${errors.join('; ')}`);
+      }
+
+      this.registry = config as ContractRegistryConfig;
+    }
+
+    return this.registry;
+  }
+
+  /**
+   * Replace the loaded registry (tests, or reloading after a config change)
+   * @param config - New registry, or null to load from config again on next use
+   */
+  static reset(config: ContractRegistryConfig | null = null): void {
+    if (config) {
+      const errors = this.validate(config);
+      if (errors.length > 0) {
+        throw new Error(`Invalid contract registry: ${errors.join('; ')}`);
+      }
+    }
+
+    this.registry = config;
+  }
+
+  /**
+   * Check a registry config
+   * @returns list of problems, empty if valid
+   */
+  static validate(config: any): string[] {
+    const errors: string[] = [];
+
+    for (const network of ['mainnet', 'testnet'] as const) {
+      const deployments = config?.[network];
+
+      if (!Array.isArray(deployments) || deployments.length === 0) {
+        errors.push(`${network}: at least one deployment is required`);
+        continue;
+      }
+
+      const seen = new Set<string>();
+      deployments.forEach((deployment: ContractDeployment, index: number) => {
+        const label = `${network}[${index}]`;
+
+        if (!/^v\d+$/.test(deployment?.version)) {
+          errors.push(`${label}: version must look like v1, v2, ...`);
+        }
+        if (!ADDRESS_PATTERN[network].test(deployment?.contractAddress)) {
+          errors.push(`${label}: contractAddress is not a ${network} address`);
+        }
+        if (typeof deployment?.contractName !== 'string' || !/^[a-zA-Z][a-zA-Z0-9_-]{0,127}$/.test(deployment.contractName)) {
+          errors.push(`${label}: invalid contractName`);
+        }
+        if (!Number.isInteger(deployment?.deployHeight) || deployment.deployHeight < 0) {
+          errors.push(`${label}: deployHeight must be a non-negative integer`);
+        }
+        if (!Array.isArray(deployment?.functions) || deployment.functions.some(fn => !REGISTRATION_FUNCTIONS.includes(fn))) {
+          errors.push(`${label}: functions must be a list of ${REGISTRATION_FUNCTIONS.join(', ')}`);
+        }
+        if (deployment?.status !== 'active' && deployment?.status !== 'read-only') {
+          errors.push(`${label}: status must be active or read-only`);
+        }
+
+        const contractId = `${deployment?.contractAddress}.${deployment?.contractName}`;
+        if (seen.has(contractId)) {
+          errors.push(`${label}: ${contractId} is listed twice`);
+        }
+        seen.add(contractId);
+      });
+
+      const active = deployments.filter((deployment: ContractDeployment) => deployment?.status === 'active');
+      if (active.length !== 1) {
+        errors.push(`${network}: exactly one deployment must be active (found ${active.length})`);
+      } else if (!Array.isArray(active[0].functions) || active[0].functions.length === 0) {
+        errors.push(`${network}: the active deployment must support a registration function`);
+      }
+
+      const versions = deployments.map((deployment: ContractDeployment) => deployment?.version);
+      if (new Set(versions).size !== versions.length) {
+        errors.push(`${network}: versions must be unique`);
+      }
+    }
+
+    return errors;
+  }
+
+  private static versionNumber(version: ContractVersion): number {
+    return parseInt(version.slice(1));
+  }
+}
@@ -0,0 +1,165 @@
+import { Request } from 'express';
+import Busboy from 'busboy';
+import { Readable } from 'stream';
+import { HashService } from './HashService';
+import { ContentType } from './ContentTypeService';
+
+export interface UploadedFile {
+  filename: string;
+  mimeType: string;
+  contentType: ContentType;
+  size: number;
+  hash: Buffer;
+  hashHex: string;
+  buffer?: Buffer; // Only kept when storeOnIPFS was sent before the file part
+}
+
+export interface FileUploadResult {
+  success: boolean;
+  status?: number; // HTTP status to return when parsing failed
+  error?: string;
+  fields?: Record<string, string>;
+  file?: UploadedFile;
+}
+
+// Accepted MIME types and the registration content type they map to
+const ALLOWED_MIME_TYPES: Record<string, ContentType> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'application/pdf': 'document',
+  'video/mp4': 'video',
+  'video/webm': 'video',
+  'video/quicktime': 'video'
+};
+
+const MAX_FILE_BYTES: Partial<Record<ContentType, number>> = {
+  image: 10 * 1024 * 1024,     // 10 MB
+  document: 25 * 1024 * 1024,  // 25 MB
+  video: 100 * 1024 * 1024     // 100 MB
+};
+
+const MAX_UPLOAD_BYTES = Math.max(...Object.values(MAX_FILE_BYTES) as number[]);
+
+export class FileUploadService {
+  /**
+   * Parse a multipart/form-data request with a single `file` part
+   * The file is hashed as it streams in; it is only held in memory when the
+   * client asked for IPFS storage (storeOnIPFS=true sent before the file part)
+   * @param req - Incoming multipart request
+   * @returns Promise with the parsed fields and file, or an HTTP status and error
+   */
+  static parseUpload(req: Request): Promise<FileUploadResult> {
+    return new Promise((resolve) => {
+      const contentLength = parseInt(req.headers['content-length'] || '0');
+      if (contentLength > MAX_UPLOAD_BYTES + 1024 * 1024) {
+        resolve({ success: false, status: 413, error: 'Upload exceeds the maximum file size' });
+        req.resume();
+        return;
+      }
+
+      let busboy: Busboy.Busboy;
+      try {
+        busboy = Busboy({
+          headers: req.headers,
+          limits: { files: 1, fields: 20, fileSize: MAX_UPLOAD_BYTES }
+        });
+      } catch (error) {
+        resolve({ success: false, status: 400, error: 'Expected a multipart/form-data request' });
+        return;
+      }
+
+      const fields: Record<string, string> = {};
+      let fileResult: Promise<FileUploadResult> | null = null;
+      let fileStream: Readable | null = null;
+
+      busboy.on('field', (name, value) => {
+        fields[name] = value;
+      });
+
+      busboy.on('file', (name, stream, info) => {
+        if (name !== 'file' || fileResult) {
+          stream.resume();
+          return;
+        }
+
+        const contentType = ALLOWED_MIME_TYPES[info.mimeType];
+        if (!contentType) {
+          stream.resume();
+          fileResult = Promise.resolve({
+            success: false,
+            status: 415,
+            error: `Unsupported file type: ${info.mimeType}. Allowed: ${Object.keys(ALLOWED_MIME_TYPES).join(', ')}`
+          });
+          return;
+        }
+
+        fileStream = stream;
+        const maxBytes = MAX_FILE_BYTES[contentType]!;
+        const keepBuffer = fields.storeOnIPFS === 'true';
+        const chunks: Buffer[] = [];
+        let collected = 0;
+
+        fileResult = HashService.hashStream(stream, keepBuffer ? (chunk) => {
+          collected += chunk.length;
+          if (collected <= maxBytes) {
+            chunks.push(chunk);
+          }
+        } : undefined).then(({ hash, size }): FileUploadResult => {
+          if (stream.truncated || size > maxBytes) {
+            return {
+              success: false,
+              status: 413,
+              error: `File exceeds the ${maxBytes / (1024 * 1024)} MB limit for ${contentType} uploads`
+            };
+          }
+
+          if (size === 0) {
+            return { success: false, status: 400, error: 'Uploaded file is empty' };
+          }
+
+          return {
+            success: true,
+            fields,
+            file: {
+              filename: info.filename,
+              mimeType: info.mimeType,
+              contentType,
+              size,
+              hash,
+              hashHex: hash.toString('hex'),
+              buffer: keepBuffer ? Buffer.concat(chunks) : undefined
+            }
+          };
+        }).catch((error): FileUploadResult => ({
+          // Body ended or was aborted mid-file
+          success: false,
+          status: 400,
+          error: error instanceof Error ? error.message : 'Malformed multipart request'
+        }));
+      });
+
+      busboy.on('close', async () => {
+        if (!fileResult) {
+          resolve({ success: false, status: 400, error: 'A file part named "file" is required' });
+          return;
+        }
+        resolve(await fileResult);
+      });
+
+      busboy.on('error', (error) => {
+        req.unpipe(busboy);
+        req.resume();
+        fileStream?.destroy(error instanceof Error ? error : undefined);
+        resolve({
+          success: false,
+          status: 400,
+          error: error instanceof Error ? error.message : 'Malformed multipart request'
+        });
+      });
+
+      req.pipe(busboy);
+    });
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Finality Service
+ * Tracks how deep confirmed registrations are buried under the chain tip and
+ * undoes confirmations whose transaction was dropped by a reorg
+ */
+
+import { Registration, IRegistration } from '../../../shared/models/Registration';
+import { User } from '../../../shared/models/User';
+import { VerificationCache } from '../../../shared/models/VerificationCache';
+import { BlockchainService } from './BlockchainService';
+import { HashService } from './HashService';
+
+// pending: not in a block yet; soft: in a block that could still be reorged; final: past the threshold
+export type Finality = 'pending' | 'soft' | 'final';
+
+export interface FinalityStatus {
+  finality: Finality;
+  confirmations: number;
+}
+
+export interface ConfirmationResult {
+  checked: number;
+  updated: number;    // Confirmations recomputed, still below the threshold
+  finalized: number;  // Reached the finality threshold
+  reorged: number;    // Transaction left the chain; moved back to pending
+  failed: number;     // Transaction re-executed and failed on the new fork
+  errors: number;     // Lookup failed - retried on the next pass
+}
+
+type TrackOutcome = 'updated' | 'finalized' | 'reorged' | 'failed' | 'unchanged';
+
+export class FinalityService {
+  private blockchainService: BlockchainService;
+
+  constructor(blockchainService: BlockchainService) {
+    this.blockchainService = blockchainService;
+  }
+
+  /**
+   * Confirmations a registration needs before it counts as final
+   */
+  static getThreshold(): number {
+    const threshold = parseInt(process.env.FINALITY_CONFIRMATIONS || '6');
+    return Number.isInteger(threshold) && threshold > 0 ? threshold : 6;
+  }
+
+  /**
+   * Classify a registration by its confirmation count
+   */
+  static classify(confirmations: number): Finality {
+    if (confirmations <= 0) {
+      return 'pending';
+    }
+    return confirmations >= this.getThreshold() ? 'final' : 'soft';
+  }
+
+  /**
+   * Finality of a registration mined at a block
+   * @param blockHeight - Block the registration was mined in (unset while pending)
+   * @param storedConfirmations - Last count recorded by the finality job, used when the tip can't be fetched
+   */
+  async getFinality(blockHeight?: number, storedConfirmations?: number): Promise<FinalityStatus> {
+    if (!blockHeight) {
+      return { finality: 'pending', confirmations: 0 };
+    }
+
+    let confirmations: number;
+    try {
+      confirmations = this.countConfirmations(blockHeight, await this.blockchainService.getChainTip());
+    } catch (error) {
+      console.warn('⚠️  Could not fetch chain tip:', error instanceof Error ? error.message : error);
+      confirmations = Math.max(storedConfirmations || 0, 1);
+    }
+
+    return { finality: FinalityService.classify(confirmations), confirmations };
+  }
+
+  /**
+   * Recompute confirmations for confirmed registrations that aren't final yet
+   * Newest blocks first, since they are the ones a reorg can still remove
+   */
+  async trackConfirmations(batchSize: number = 100): Promise<ConfirmationResult> {
+    const tipHeight = await this.blockchainService.getChainTip();
+
+    const registrations = await Registration.find({
+      'blockchain.status': 'confirmed',
+      $or: [
+        { 'blockchain.confirmations': { $lt: FinalityService.getThreshold() } },
+        { 'blockchain.confirmations': { $exists: false } }
+      ]
+    })
+      .sort({ 'blockchain.blockHeight': -1 })
+      .limit(batchSize);
+
+    const result: ConfirmationResult = {
+      checked: 0,
+      updated: 0,
+      finalized: 0,
+      reorged: 0,
+      failed: 0,
+      errors: 0
+    };
+
+    for (const registration of registrations) {
+      result.checked++;
+
+      try {
+        const outcome = await this.trackRegistration(registration, tipHeight);
+
+        if (outcome !== 'unchanged') {
+          result[outcome]++;
+        }
+
+        // Rate limiting: wait 100ms between requests
+        await new Promise(resolve => setTimeout(resolve, 100));
+      } catch (error) {
+        console.error(`Failed to track confirmations for registration ${registration._id}:`, error);
+        result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Check one confirmed registration is still on chain and record its depth
+   */
+  async trackRegistration(registration: IRegistration, tipHeight: number): Promise<TrackOutcome> {
+    const { txId } = registration.blockchain;
+    let blockHeight: number | undefined;
+
+    if (txId) {
+      const txStatus = await this.blockchainService.getTransactionStatus(txId);
+
+      if (txStatus.status === 'failed') {
+        await this.markFailed(registration, txStatus.error || 'Transaction failed after reorg');
+        return 'failed';
+      }
+
+      if (txStatus.status !== 'success') {
+        // Back in the mempool (pending), left in an orphaned block (orphaned) or gone altogether
+        // (not_found); the reconciler takes it from here
+        await this.markReorged(registration, `transaction is ${txStatus.status}`);
+        return 'reorged';
+      }
+
+      blockHeight = txStatus.blockHeight;
+    } else {
+      // Tweets in a thread are on chain through the thread's root
+      const verification = await this.blockchainService.verifyContent(
+        HashService.hexToBuffer(registration.thread?.root || registration.contentHash)
+      );
+
+      if (!verification.registration) {
+        if (!verification.complete) {
+          throw new Error('Contract lookup incomplete');
+        }
+
+        await this.markReorged(registration, 'hash no longer registered on chain');
+        return 'reorged';
+      }
+
+      blockHeight = verification.registration.blockHeight;
+    }
+
+    if (!blockHeight) {
+      return 'unchanged';
+    }
+
+    const confirmations = this.countConfirmations(blockHeight, tipHeight);
+    const $set: Record<string, unknown> = {
+      'blockchain.blockHeight': blockHeight,
+      'blockchain.confirmations': confirmations
+    };
+
+    if (blockHeight !== registration.blockchain.blockHeight) {
+      // Re-mined in another block by a reorg, so its time moved too
+      console.log(`🔀 Registration ${registration.contentHash} moved from block ${registration.blockchain.blockHeight} to ${blockHeight}`);
+      const blockTime = await this.blockchainService.getBlockTimes().resolve(blockHeight);
+      if (blockTime) {
+        $set['blockchain.timestamp'] = blockTime.blockTime;
+      }
+      await VerificationCache.deleteOne({ contentHash: registration.contentHash });
+    }
+
+    await Registration.updateOne(
+      { _id: registration._id, 'blockchain.status': 'confirmed' },
+      { $set }
+    );
+
+    return FinalityService.classify(confirmations) === 'final' ? 'finalized' : 'updated';
+  }
+
+  private countConfirmations(blockHeight: number, tipHeight: number): number {
+    return Math.max(tipHeight - blockHeight + 1, 0);
+  }
+
+  /**
+   * Move a confirmed registration back to pending and the author's counters with it
+   */
+  private async markReorged(registration: IRegistration, reason: string): Promise<void> {
+    const updated = await Registration.findOneAndUpdate(
+      { _id: registration._id, 'blockchain.status': 'confirmed' },
+      {
+        $set: {
+          'blockchain.status': 'pending',
+          'blockchain.confirmations': 0
+        },
+        $unset: { 'blockchain.blockHeight': '', 'blockchain.registrationId': '' }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return;
+    }
+
+    // Thread roots aren't counted; their tweets are
+    if (!updated.thread || updated.thread.parentId) {
+      await User.findOneAndUpdate(
+        { walletAddress: updated.authorWallet },
+        {
+          $inc: {
+            'stats.confirmedRegistrations': -1,
+            'stats.pendingRegistrations': 1
+          }
+        }
+      );
+    }
+    await VerificationCache.deleteOne({ contentHash: updated.contentHash });
+
+    console.log(`⚠️  Registration reorged back to pending: ${updated.contentHash} (${reason})`);
+  }
+
+  /**
+   * Flip a confirmed registration to failed and move the author's counters
+   */
+  private async markFailed(registration: IRegistration, error: string): Promise<void> {
+    const updated = await Registration.findOneAndUpdate(
+      { _id: registration._id, 'blockchain.status': 'confirmed' },
+      {
+        $set: {
+          'blockchain.status': 'failed',
+          'blockchain.confirmations': 0,
+          'blockchain.error': error
+        }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return;
+    }
+
+    // Thread roots aren't counted; their tweets are
+    if (!updated.thread || updated.thread.parentId) {
+      await User.findOneAndUpdate(
+        { walletAddress: updated.authorWallet },
+        {
+          $inc: {
+            'stats.confirmedRegistrations': -1,
+            'stats.failedRegistrations': 1
+          }
+        }
+      );
+    }
+    await VerificationCache.deleteOne({ contentHash: updated.contentHash });
+
+    console.log(`❌ Registration failed after reorg: ${updated.contentHash} (${error})`);
+  }
+}
@@ -1,14 +1,82 @@
 import * as crypto from 'crypto';
+import { Readable } from 'stream';
+
+// How segmented registrations split a document (see splitSegments)
+export type SegmentMode = 'paragraph' | 'sentence';
+
+/**
+ * Content canonicalization versions - a version's output must never change once released,
+ * or registrations made with it stop verifying. Add a new version instead.
+ * v1: trim and collapse whitespace
+ * v2: v1 + Unicode NFC, zero-width characters removed, trailing t.co links dropped,
+ *     URL schemes and hosts lowercased
+ */
+export type CanonicalizationVersion = 'v1' | 'v2';
+
+export const CANONICALIZATION_VERSIONS: CanonicalizationVersion[] = ['v1', 'v2'];
+
+// Used when a client doesn't ask for a version (what existing clients compute)
+export const DEFAULT_CANONICALIZATION: CanonicalizationVersion = 'v1';
+
+export interface CanonicalHash {
+  version: CanonicalizationVersion;
+  canonical: string;  // Text that was hashed
+  hash: string;       // hex
+}
+
+// Zero-width space, non-joiner, joiner, word joiner and byte order mark
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+// Links Twitter appends for media and quote tweets (matched per token, so it can't backtrack)
+const TCO_LINK = /^https?:\/\/t\.co\/[A-Za-z0-9]+$/i;
+const URL_ORIGIN = /\b(https?):\/\/([^\/\s?#]+)/gi;
+
+// Whitespace after sentence-ending punctuation, allowing closing quotes/brackets in between
+const SENTENCE_BREAK = /(?<=[.!?…]["'”’)\]]*)\s+/;
 
 export class HashService {
+  /**
+   * Check if a value is a known canonicalization version
+   */
+  static isCanonicalizationVersion(version: unknown): version is CanonicalizationVersion {
+    return typeof version === 'string' && (CANONICALIZATION_VERSIONS as string[]).includes(version);
+  }
+
+  /**
+   * Canonical form of content - the exact text that gets hashed
+   * @param content - The tweet text content
+   * @param version - Canonicalization version (default v1)
+   * @returns canonical text
+   */
+  static canonicalize(content: string, version: CanonicalizationVersion = DEFAULT_CANONICALIZATION): string {
+    let text = version === 'v2'
+      ? content.normalize('NFC').replace(ZERO_WIDTH, '')
+      : content;
+
+    // Clean the content - remove extra whitespace, normalize
+    text = text.trim().replace(/\s+/g, ' ');
+
+    if (version === 'v2') {
+      const tokens = text.split(' ');
+      while (tokens.length > 0 && TCO_LINK.test(tokens[tokens.length - 1])) {
+        tokens.pop();
+      }
+
+      text = tokens
+        .join(' ')
+        .replace(URL_ORIGIN, (_match, scheme: string, host: string) => `${scheme.toLowerCase()}://${host.toLowerCase()}`);
+    }
+
+    return text;
+  }
+
   /**
    * Generate SHA-256 hash from tweet content
    * @param content - The tweet text content
+   * @param version - Canonicalization version (default v1)
    * @returns 32-byte buffer hash
    */
-  static generateContentHash(content: string): Buffer {
-    // Clean the content - remove extra whitespace, normalize
-    const cleanContent = content.trim().replace(/\s+/g, ' ');
+  static generateContentHash(content: string, version: CanonicalizationVersion = DEFAULT_CANONICALIZATION): Buffer {
+    const cleanContent = this.canonicalize(content, version);
     
     // Generate SHA-256 hash
     const hash = crypto.createHash('sha256');
@@ -20,13 +88,27 @@ export class HashService {
   /**
    * Generate hash as hex string (for debugging/logging)
    * @param content - The tweet text content  
+   * @param version - Canonicalization version (default v1)
    * @returns hex string representation
    */
-  static generateContentHashHex(content: string): string {
-    const buffer = this.generateContentHash(content);
+  static generateContentHashHex(content: string, version: CanonicalizationVersion = DEFAULT_CANONICALIZATION): string {
+    const buffer = this.generateContentHash(content, version);
     return buffer.toString('hex');
   }
 
+  /**
+   * Canonical text and hash of content under every known version
+   * @param content - The tweet text content
+   * @returns one entry per version, oldest first
+   */
+  static generateCanonicalHashes(content: string): CanonicalHash[] {
+    return CANONICALIZATION_VERSIONS.map(version => ({
+      version,
+      canonical: this.canonicalize(content, version),
+      hash: this.generateContentHashHex(content, version)
+    }));
+  }
+
   /**
    * Validate if provided hash matches content
    * @param content - Original tweet content
@@ -38,6 +120,63 @@ export class HashService {
     return computedHash.equals(expectedHash);
   }
 
+  /**
+   * Split a document into canonical segments for segmented registration
+   * Paragraphs are separated by blank lines; sentences end in . ! ? or … followed by whitespace.
+   * Each segment is normalized the same way as generateContentHash.
+   * @param content - Document text
+   * @param mode - Segment boundaries to split on
+   * @returns normalized, non-empty segments in document order
+   */
+  static splitSegments(content: string, mode: SegmentMode): string[] {
+    const parts = mode === 'paragraph'
+      ? content.split(/\n\s*\n/)
+      : content.trim().replace(/\s+/g, ' ').split(SENTENCE_BREAK);
+
+    return parts
+      .map(part => part.trim().replace(/\s+/g, ' '))
+      .filter(part => part.length > 0);
+  }
+
+  /**
+   * Hash every segment of a document (the leaves of its Merkle tree)
+   * @param content - Document text
+   * @param mode - Segment boundaries to split on
+   * @param version - Canonicalization applied to each segment (default v1)
+   * @returns hex hashes in document order
+   */
+  static generateSegmentHashes(
+    content: string,
+    mode: SegmentMode,
+    version: CanonicalizationVersion = DEFAULT_CANONICALIZATION
+  ): string[] {
+    return this.splitSegments(content, mode).map(segment => this.generateContentHashHex(segment, version));
+  }
+
+  /**
+   * Generate SHA-256 hash of a binary stream without buffering it
+   * @param stream - Readable stream of raw bytes (e.g. an uploaded file)
+   * @param onChunk - Optional callback for each chunk (e.g. to also collect for IPFS)
+   * @returns 32-byte buffer hash and the number of bytes read
+   */
+  static hashStream(
+    stream: Readable,
+    onChunk?: (chunk: Buffer) => void
+  ): Promise<{ hash: Buffer; size: number }> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      let size = 0;
+
+      stream.on('data', (chunk: Buffer) => {
+        hash.update(chunk);
+        size += chunk.length;
+        onChunk?.(chunk);
+      });
+      stream.on('end', () => resolve({ hash: hash.digest(), size }));
+      stream.on('error', reject);
+    });
+  }
+
   /**
    * Convert hex string back to buffer (for API inputs)
    * @param hexString - Hex representation of hash
@@ -0,0 +1,113 @@
+import * as crypto from 'crypto';
+
+/**
+ * Merkle trees over content hashes
+ *
+ * Leaves and inner nodes are hashed with different prefixes (0x00 / 0x01) so an
+ * inner node can never be passed off as a leaf. A node without a sibling on an
+ * odd-sized level is carried up unchanged.
+ */
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';  // Side the sibling sits on
+  hash: string;                // Sibling node (hex)
+}
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+export class MerkleService {
+  /**
+   * Build every level of the tree, leaves first
+   * @param contentHashes - 32-byte content hashes, in leaf order
+   * @returns levels of node hashes; the last level holds only the root
+   * @throws Error if there are no leaves
+   */
+  static buildTree(contentHashes: Buffer[]): Buffer[][] {
+    if (contentHashes.length === 0) {
+      throw new Error('Cannot build a Merkle tree without leaves');
+    }
+
+    const levels: Buffer[][] = [contentHashes.map(hash => this.hashLeaf(hash))];
+
+    while (levels[levels.length - 1].length > 1) {
+      const level = levels[levels.length - 1];
+      const next: Buffer[] = [];
+
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(i + 1 < level.length ? this.hashNode(level[i], level[i + 1]) : level[i]);
+      }
+
+      levels.push(next);
+    }
+
+    return levels;
+  }
+
+  /**
+   * Root of a tree built with buildTree
+   */
+  static getRoot(levels: Buffer[][]): Buffer {
+    return levels[levels.length - 1][0];
+  }
+
+  /**
+   * Inclusion proof for one leaf
+   * @param levels - Tree from buildTree
+   * @param leafIndex - Position of the content hash among the leaves
+   * @returns sibling hashes from the leaf up to the root
+   */
+  static getProof(levels: Buffer[][], leafIndex: number): MerkleProofStep[] {
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= levels[0].length) {
+      throw new Error(`Leaf index ${leafIndex} is out of range`);
+    }
+
+    const proof: MerkleProofStep[] = [];
+    let index = leafIndex;
+
+    for (const level of levels.slice(0, -1)) {
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+
+      // Carried up without a sibling
+      if (siblingIndex < level.length) {
+        proof.push({
+          position: index % 2 === 0 ? 'right' : 'left',
+          hash: level[siblingIndex].toString('hex')
+        });
+      }
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  /**
+   * Check a content hash is included under a root
+   * @param contentHash - 32-byte content hash (the leaf before hashing)
+   * @param proof - Steps from getProof
+   * @param root - Expected root
+   */
+  static verifyProof(contentHash: Buffer, proof: MerkleProofStep[], root: Buffer): boolean {
+    let node = this.hashLeaf(contentHash);
+
+    for (const step of proof) {
+      const sibling = Buffer.from(step.hash, 'hex');
+      if (sibling.length !== 32 || (step.position !== 'left' && step.position !== 'right')) {
+        return false;
+      }
+
+      node = step.position === 'left' ? this.hashNode(sibling, node) : this.hashNode(node, sibling);
+    }
+
+    return node.equals(root);
+  }
+
+  private static hashLeaf(contentHash: Buffer): Buffer {
+    return crypto.createHash('sha256').update(LEAF_PREFIX).update(contentHash).digest();
+  }
+
+  private static hashNode(left: Buffer, right: Buffer): Buffer {
+    return crypto.createHash('sha256').update(NODE_PREFIX).update(left).update(right).digest();
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Registration Reconciler Service
+ * Moves pending registrations to confirmed/failed once their transaction settles
+ */
+
+import { Registration, IRegistration } from '../../../shared/models/Registration';
+import { User } from '../../../shared/models/User';
+import { BlockchainService } from './BlockchainService';
+import { HashService } from './HashService';
+
+export interface ReconcileResult {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  stillPending: number;
+}
+
+export class RegistrationReconcilerService {
+  private blockchainService: BlockchainService;
+
+  // A transaction the node has never seen after this long was dropped from the mempool
+  private static NOT_FOUND_GRACE_MS = 24 * 60 * 60 * 1000;
+
+  constructor(blockchainService: BlockchainService) {
+    this.blockchainService = blockchainService;
+  }
+
+  /**
+   * Walk pending registrations and settle the ones whose transaction is final
+   */
+  async reconcilePendingRegistrations(batchSize: number = 50): Promise<ReconcileResult> {
+    const pending = await Registration.getPendingRegistrations().limit(batchSize);
+
+    const result: ReconcileResult = {
+      checked: 0,
+      confirmed: 0,
+      failed: 0,
+      stillPending: 0
+    };
+
+    for (const registration of pending) {
+      try {
+        const outcome = await this.reconcileRegistration(registration);
+        result.checked++;
+
+        if (outcome === 'confirmed') {
+          result.confirmed++;
+        } else if (outcome === 'failed') {
+          result.failed++;
+        } else {
+          result.stillPending++;
+          await Registration.updateOne(
+            { _id: registration._id, 'blockchain.status': 'pending' },
+            { $set: { 'blockchain.lastCheckedAt': new Date() } }
+          );
+        }
+
+        // Rate limiting: wait 100ms between requests
+        await new Promise(resolve => setTimeout(resolve, 100));
+      } catch (error) {
+        console.error(`Failed to reconcile registration ${registration._id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Reconcile a single pending registration against the chain
+   */
+  async reconcileRegistration(registration: IRegistration): Promise<'confirmed' | 'failed' | 'pending'> {
+    const { txId } = registration.blockchain;
+
+    if (!txId) {
+      // The client never reported a txId (e.g. tab closed before confirming),
+      // so the only thing we can check is whether the hash itself landed on chain
+      // (for a batched hash or a tweet in a thread, the root it is anchored under)
+      const verification = await this.blockchainService.verifyTweet(
+        HashService.hexToBuffer(registration.batch?.root || registration.thread?.root || registration.contentHash)
+      );
+
+      if (!verification) {
+        return 'pending';
+      }
+
+      // Anyone can prepare a registration for a hash; only the wallet that put it on chain owns it
+      // (batch roots are registered from the service wallet)
+      if (!registration.batch?.root && verification.author.toUpperCase() !== registration.authorWallet) {
+        const failed = await this.markFailed(registration, `Content was registered on chain by ${verification.author}`);
+        return failed ? 'failed' : 'pending';
+      }
+
+      const blockTime = await this.blockchainService.getBlockTimes().resolve(verification.blockHeight);
+      const confirmed = await this.markConfirmed(registration, {
+        blockHeight: verification.blockHeight,
+        registrationId: verification.registrationId,
+        timestamp: blockTime?.blockTime,
+        contractId: verification.contractId,
+        contractVersion: verification.contractVersion
+      });
+      return confirmed ? 'confirmed' : 'pending';
+    }
+
+    // txIds can come from the unauthenticated confirm endpoint, so decode the call and make
+    // sure it registers what this registration anchors under (batch root, thread root or own hash)
+    if (!/^(0x)?[0-9a-f]{64}$/i.test(txId)) {
+      return this.dropTxId(registration, 'not a transaction ID');
+    }
+
+    const call = await this.blockchainService.getRegistrationTransaction(txId);
+
+    if (!call) {
+      const txStatus = await this.blockchainService.getTransactionStatus(txId);
+
+      if (txStatus.status !== 'not_found') {
+        return this.dropTxId(registration, 'not a contract call');
+      }
+
+      if (Date.now() - registration.createdAt.getTime() > RegistrationReconcilerService.NOT_FOUND_GRACE_MS) {
+        const failed = await this.markFailed(registration, 'Transaction not found on chain');
+        return failed ? 'failed' : 'pending';
+      }
+
+      return 'pending';
+    }
+
+    const anchoredHash = registration.batch?.root || registration.thread?.root || registration.contentHash;
+    if (!this.blockchainService.isRegistrationOf(call, anchoredHash)) {
+      return this.dropTxId(registration, 'does not register this content');
+    }
+
+    // Batch roots are registered from the service wallet; everything else from the author's
+    if (!registration.batch?.root && call.sender.toUpperCase() !== registration.authorWallet) {
+      return this.dropTxId(registration, `sent by ${call.sender}, not the author`);
+    }
+
+    if (call.status === 'success') {
+      const blockTime = call.blockHeight
+        ? await this.blockchainService.getBlockTimes().resolve(call.blockHeight)
+        : null;
+      const confirmed = await this.markConfirmed(registration, {
+        blockHeight: call.blockHeight,
+        registrationId: call.registrationId,
+        timestamp: blockTime?.blockTime || call.blockTime,
+        contractId: call.contractId,
+        contractVersion: call.contractVersion
+      });
+      return confirmed ? 'confirmed' : 'pending';
+    }
+
+    if (call.status === 'failed') {
+      const failed = await this.markFailed(registration, call.error || 'Transaction failed');
+      return failed ? 'failed' : 'pending';
+    }
+
+    return 'pending';
+  }
+
+  /**
+   * Forget a txId that does not register this content so the hash check can pick up the real one
+   */
+  private async dropTxId(registration: IRegistration, reason: string): Promise<'pending'> {
+    console.warn(`⚠️ Ignoring txId ${registration.blockchain.txId} for ${registration.contentHash}: ${reason}`);
+
+    await Registration.updateOne(
+      { _id: registration._id, 'blockchain.status': 'pending', 'blockchain.txId': registration.blockchain.txId },
+      { $unset: { 'blockchain.txId': '' } }
+    );
+
+    return 'pending';
+  }
+
+  /**
+   * Flip a pending registration to confirmed and move the author's counters
+   * Returns false if another worker already settled it
+   */
+  private async markConfirmed(
+    registration: IRegistration,
+    data: {
+      blockHeight?: number;
+      registrationId?: number;
+      timestamp?: Date;
+      contractId?: string;
+      contractVersion?: string;
+    }
+  ): Promise<boolean> {
+    const updated = await Registration.findOneAndUpdate(
+      { _id: registration._id, 'blockchain.status': 'pending' },
+      {
+        $set: {
+          'blockchain.status': 'confirmed',
+          'blockchain.blockHeight': data.blockHeight,
+          'blockchain.registrationId': data.registrationId,
+          'blockchain.timestamp': data.timestamp || new Date(),
+          'blockchain.contractId': data.contractId,
+          'blockchain.contractVersion': data.contractVersion
+        },
+        $unset: { 'blockchain.error': '' }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return false;
+    }
+
+    // Thread roots aren't counted; their tweets are
+    if (!updated.thread || updated.thread.parentId) {
+      await User.findOneAndUpdate(
+        { walletAddress: updated.authorWallet },
+        {
+          $inc: {
+            'stats.confirmedRegistrations': 1,
+            'stats.pendingRegistrations': -1
+          }
+        }
+      );
+    }
+
+    console.log(`✅ Reconciled registration as confirmed: ${updated.contentHash}`);
+    return true;
+  }
+
+  /**
+   * Flip a pending registration to failed and move the author's counters
+   * Returns false if another worker already settled it
+   */
+  private async markFailed(registration: IRegistration, error: string): Promise<boolean> {
+    const updated = await Registration.findOneAndUpdate(
+      { _id: registration._id, 'blockchain.status': 'pending' },
+      {
+        $set: {
+          'blockchain.status': 'failed',
+          'blockchain.error': error
+        }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return false;
+    }
+
+    // Thread roots aren't counted; their tweets are
+    if (!updated.thread || updated.thread.parentId) {
+      await User.findOneAndUpdate(
+        { walletAddress: updated.authorWallet },
+        {
+          $inc: {
+            'stats.failedRegistrations': 1,
+            'stats.pendingRegistrations': -1
+          }
+        }
+      );
+    }
+
+    console.log(`❌ Reconciled registration as failed: ${updated.contentHash} (${error})`);
+    return true;
+  }
+}
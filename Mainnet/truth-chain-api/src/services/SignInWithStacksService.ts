@@ -0,0 +1,294 @@
+import { STACKS_MAINNET, STACKS_TESTNET } from '@stacks/network';
+import { ContractRegistry } from './ContractRegistry';
+
+/**
+ * Sign-In With Stacks (SIWS) messages, modelled on EIP-4361:
+ *
+ *   truth-chain.vercel.app wants you to sign in with your Stacks account:
+ *   SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7
+ *
+ *   Sign in to TruthChain to manage your content registrations.
+ *
+ *   URI: https://truth-chain.vercel.app
+ *   Version: 1
+ *   Chain ID: 1
+ *   Nonce: 8f1c0d9e2b7a4f6c9d3e1a5b7c9d2e4f
+ *   Issued At: 2025-01-01T00:00:00.000Z
+ *   Expiration Time: 2025-01-01T00:05:00.000Z
+ *   Resources:
+ *   - urn:truthchain:scope:connection
+ */
+
+export type SignInScope = 'connection' | 'verification';
+
+export interface SignInWithStacksMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  resources?: string[];
+}
+
+export interface SignInExpectations {
+  domain: string;
+  uri?: string;
+  chainId: number;
+  address?: string;
+  nonce?: string;
+  now?: Date;
+  maxAgeMs?: number;  // Reject messages issued longer ago than this
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Stacks account:';
+const SCOPE_RESOURCE_PREFIX = 'urn:truthchain:scope:';
+const CLOCK_SKEW_MS = 60 * 1000;
+
+const SCOPE_STATEMENTS: Record<SignInScope, string> = {
+  connection: 'Sign in to TruthChain to manage your content registrations.',
+  verification: 'Confirm ownership of this wallet for TruthChain verification.'
+};
+
+// Optional fields, in the order they appear after the statement
+const FIELD_LABELS: Array<[keyof SignInWithStacksMessage, string]> = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before']
+];
+
+export class SignInWithStacksService {
+  /**
+   * Domain and URI the API expects sign-in messages to be bound to
+   */
+  static getDomain(): { domain: string; uri: string } {
+    const domain = process.env.SIWS_DOMAIN || 'truth-chain.vercel.app';
+    return {
+      domain,
+      uri: process.env.SIWS_URI || `https://${domain}`
+    };
+  }
+
+  /**
+   * Chain ID for the network the API runs on
+   */
+  static getChainId(): number {
+    return ContractRegistry.getNetwork() === 'mainnet' ? STACKS_MAINNET.chainId : STACKS_TESTNET.chainId;
+  }
+
+  /**
+   * Check if a value is a supported sign-in scope
+   */
+  static isScope(scope: unknown): scope is SignInScope {
+    return typeof scope === 'string' && Object.prototype.hasOwnProperty.call(SCOPE_STATEMENTS, scope);
+  }
+
+  /**
+   * Statement and resources describing what a sign-in is for
+   */
+  static getScopeFields(scope: SignInScope): { statement: string; resources: string[] } {
+    return {
+      statement: SCOPE_STATEMENTS[scope],
+      resources: [`${SCOPE_RESOURCE_PREFIX}${scope}`]
+    };
+  }
+
+  /**
+   * Read the scope back out of a message's resources
+   */
+  static getScope(message: SignInWithStacksMessage): SignInScope | undefined {
+    const resource = message.resources?.find(r => r.startsWith(SCOPE_RESOURCE_PREFIX));
+    const scope = resource?.slice(SCOPE_RESOURCE_PREFIX.length);
+    return this.isScope(scope) ? scope : undefined;
+  }
+
+  /**
+   * Serialize a sign-in message to the text the wallet signs
+   */
+  static build(message: SignInWithStacksMessage): string {
+    const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, ''];
+
+    if (message.statement) {
+      lines.push(message.statement, '');
+    }
+
+    for (const [key, label] of FIELD_LABELS) {
+      const value = message[key];
+      if (value !== undefined && value !== null) {
+        lines.push(`${label}: ${value}`);
+      }
+    }
+
+    if (message.resources && message.resources.length > 0) {
+      lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Parse signed message text back into its fields
+   * @param text - Message exactly as it was signed
+   * @returns parsed message, or an error describing the first malformed line
+   */
+  static parse(text: string): { message?: SignInWithStacksMessage; error?: string } {
+    if (typeof text !== 'string') {
+      return { error: 'Message must be a string' };
+    }
+
+    const lines = text.split('\n');
+    let index = 0;
+
+    const header = lines[index++];
+    if (!header?.endsWith(HEADER_SUFFIX)) {
+      return { error: 'Missing sign-in header' };
+    }
+    const domain = header.slice(0, -HEADER_SUFFIX.length);
+    if (!/^[A-Za-z0-9.-]+(:\d+)?$/.test(domain)) {
+      return { error: 'Invalid domain' };
+    }
+
+    const address = lines[index++];
+    if (!address || !/^S[PMTN][0-9A-HJKMNP-TV-Z]{28,41}$/.test(address)) {
+      return { error: 'Invalid address' };
+    }
+
+    if (lines[index++] !== '') {
+      return { error: 'Expected a blank line after the address' };
+    }
+
+    let statement: string | undefined;
+    if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+      statement = lines[index++];
+      if (lines[index++] !== '') {
+        return { error: 'Expected a blank line after the statement' };
+      }
+    }
+
+    const fields: Partial<Record<keyof SignInWithStacksMessage, string>> = {};
+    for (const [key, label] of FIELD_LABELS) {
+      const prefix = `${label}: `;
+      if (lines[index]?.startsWith(prefix)) {
+        fields[key] = lines[index++].slice(prefix.length);
+      }
+    }
+
+    let resources: string[] | undefined;
+    if (lines[index] === 'Resources:') {
+      index++;
+      resources = [];
+      while (lines[index]?.startsWith('- ')) {
+        resources.push(lines[index++].slice(2));
+      }
+    }
+
+    if (index !== lines.length) {
+      return { error: `Unexpected content on line ${index + 1}` };
+    }
+
+    for (const required of ['uri', 'version', 'chainId', 'nonce', 'issuedAt'] as const) {
+      if (!fields[required]) {
+        return { error: `Missing field: ${required}` };
+      }
+    }
+
+    const chainId = Number(fields.chainId);
+    if (!Number.isInteger(chainId)) {
+      return { error: 'Invalid chain ID' };
+    }
+
+    if (!/^[A-Za-z0-9]{8,}$/.test(fields.nonce!)) {
+      return { error: 'Invalid nonce' };
+    }
+
+    for (const key of ['issuedAt', 'expirationTime', 'notBefore'] as const) {
+      if (fields[key] !== undefined && isNaN(Date.parse(fields[key]!))) {
+        return { error: `Invalid timestamp: ${key}` };
+      }
+    }
+
+    return {
+      message: {
+        domain,
+        address,
+        statement,
+        uri: fields.uri!,
+        version: fields.version!,
+        chainId,
+        nonce: fields.nonce!,
+        issuedAt: fields.issuedAt!,
+        expirationTime: fields.expirationTime,
+        notBefore: fields.notBefore,
+        resources
+      }
+    };
+  }
+
+  /**
+   * Check a parsed message against what this API issued
+   * @returns error message, or null if valid
+   */
+  static validate(message: SignInWithStacksMessage, expected: SignInExpectations): string | null {
+    const now = (expected.now || new Date()).getTime();
+
+    if (message.version !== '1') {
+      return `Unsupported message version: ${message.version}`;
+    }
+
+    if (message.domain !== expected.domain) {
+      return `Message is bound to ${message.domain}, not ${expected.domain}`;
+    }
+
+    if (expected.uri && message.uri !== expected.uri) {
+      return `Message URI ${message.uri} does not match ${expected.uri}`;
+    }
+
+    if (message.chainId !== expected.chainId) {
+      return `Message is for chain ${message.chainId}, expected ${expected.chainId}`;
+    }
+
+    const mainnet = expected.chainId === STACKS_MAINNET.chainId;
+    if (mainnet !== /^S[PM]/.test(message.address)) {
+      return `Address is not a ${mainnet ? 'mainnet' : 'testnet'} address`;
+    }
+
+    if (expected.address && message.address !== expected.address) {
+      return 'Message address does not match the wallet';
+    }
+
+    if (expected.nonce && message.nonce !== expected.nonce) {
+      return 'Nonce does not match';
+    }
+
+    const issuedAt = Date.parse(message.issuedAt);
+    if (issuedAt > now + CLOCK_SKEW_MS) {
+      return 'Message is issued in the future';
+    }
+
+    if (expected.maxAgeMs && now - issuedAt > expected.maxAgeMs) {
+      return 'Message is too old';
+    }
+
+    if (!message.expirationTime) {
+      return 'Message has no expiration time';
+    }
+
+    if (Date.parse(message.expirationTime) <= now) {
+      return 'Message has expired';
+    }
+
+    if (message.notBefore && Date.parse(message.notBefore) > now + CLOCK_SKEW_MS) {
+      return 'Message is not valid yet';
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,173 @@
+import { verifyMessageSignature, verifyMessageSignatureRsv } from '@stacks/encryption';
+import {
+  publicKeyToAddress,
+  AddressVersion,
+  encodeStructuredDataBytes,
+  stringAsciiCV,
+  tupleCV,
+  uintCV,
+  ClarityValue
+} from '@stacks/transactions';
+import { STACKS_MAINNET, STACKS_TESTNET } from '@stacks/network';
+import * as crypto from 'crypto';
+import { ContractRegistry } from './ContractRegistry';
+
+export type SignatureType = 'legacy' | 'structured';
+
+export interface SignatureVerificationInput {
+  address: string;
+  publicKey: string;
+  signature: string;
+  message: string;
+  signatureType?: SignatureType;
+}
+
+export interface SignatureVerificationResult {
+  isValid: boolean;
+  error?: string;
+  networkAddress?: string; // Address for the network the API runs on
+}
+
+export interface StructuredDomain {
+  name: string;
+  version: string;
+  chainId: number;
+}
+
+// SIP-018 domain the wallet must sign under; binds signatures to this app
+const DOMAIN_NAME = 'TruthChain';
+const DOMAIN_VERSION = '1.0.0';
+
+export class WalletSignatureService {
+  /**
+   * Verify that a wallet signed a message and owns the claimed address
+   * Legacy signatures are checked against the Stacks message prefix (with the
+   * pre-2.0 prefix as a fallback); structured signatures are checked as SIP-018
+   * data with the message wrapped in a string-ascii under the TruthChain domain
+   * @param input - Address, public key, signature and the exact signed message
+   * @returns verification result with the address for the configured network
+   */
+  static verify(input: SignatureVerificationInput): SignatureVerificationResult {
+    const { address, publicKey, signature, message, signatureType = 'legacy' } = input;
+
+    if (!address || !publicKey || !signature || !message) {
+      return { isValid: false, error: 'Missing signature fields' };
+    }
+
+    if (signatureType !== 'legacy' && signatureType !== 'structured') {
+      return { isValid: false, error: `Unsupported signature type: ${signatureType}` };
+    }
+
+    let mainnetAddress: string;
+    let testnetAddress: string;
+    try {
+      mainnetAddress = publicKeyToAddress(AddressVersion.MainnetSingleSig, publicKey);
+      testnetAddress = publicKeyToAddress(AddressVersion.TestnetSingleSig, publicKey);
+    } catch (error) {
+      return { isValid: false, error: 'Invalid public key' };
+    }
+
+    if (address !== mainnetAddress && address !== testnetAddress) {
+      return { isValid: false, error: 'Public key does not match address' };
+    }
+
+    const isMainnetAddress = address === mainnetAddress;
+    const signatureValid = signatureType === 'structured'
+      ? this.verifyStructuredSignature(message, signature, publicKey, isMainnetAddress)
+      : this.verifyLegacySignature(message, signature, publicKey);
+
+    if (!signatureValid) {
+      return { isValid: false, error: 'Signature does not match message' };
+    }
+
+    return {
+      isValid: true,
+      networkAddress: ContractRegistry.getNetwork() === 'mainnet' ? mainnetAddress : testnetAddress
+    };
+  }
+
+  /**
+   * SIP-018 domain for a network, as returned to clients with the challenge
+   */
+  static getStructuredDomain(mainnet: boolean): StructuredDomain {
+    return {
+      name: DOMAIN_NAME,
+      version: DOMAIN_VERSION,
+      chainId: mainnet ? STACKS_MAINNET.chainId : STACKS_TESTNET.chainId
+    };
+  }
+
+  /**
+   * Clarity message and domain a wallet signs for a structured login
+   */
+  static buildStructuredData(message: string, mainnet: boolean): { message: ClarityValue; domain: ClarityValue } {
+    const domain = this.getStructuredDomain(mainnet);
+    return {
+      message: stringAsciiCV(message),
+      domain: tupleCV({
+        name: stringAsciiCV(domain.name),
+        version: stringAsciiCV(domain.version),
+        'chain-id': uintCV(domain.chainId)
+      })
+    };
+  }
+
+  /**
+   * Wallets return RSV signatures, older clients VRS; try both layouts
+   */
+  private static verifyLegacySignature(message: string, signature: string, publicKey: string): boolean {
+    const sig = this.normalizeSignature(signature);
+    if (!sig) return false;
+
+    try {
+      if (verifyMessageSignatureRsv({ signature: sig, message, publicKey })) return true;
+    } catch {
+      // Fall through to VRS
+    }
+
+    try {
+      return verifyMessageSignature({ signature: sig, message, publicKey });
+    } catch {
+      return false;
+    }
+  }
+
+  private static verifyStructuredSignature(
+    message: string,
+    signature: string,
+    publicKey: string,
+    mainnet: boolean
+  ): boolean {
+    const sig = this.normalizeSignature(signature);
+    if (!sig) return false;
+
+    let messageHash: Uint8Array;
+    try {
+      messageHash = crypto.createHash('sha256')
+        .update(encodeStructuredDataBytes(this.buildStructuredData(message, mainnet)))
+        .digest();
+    } catch {
+      return false;
+    }
+
+    try {
+      if (verifyMessageSignatureRsv({ signature: sig, message: messageHash, publicKey })) return true;
+    } catch {
+      // Fall through to VRS
+    }
+
+    try {
+      return verifyMessageSignature({ signature: sig, message: messageHash, publicKey });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Strip 0x and reject anything that isn't a 65-byte recoverable signature
+   */
+  private static normalizeSignature(signature: string): string | null {
+    const hex = signature.startsWith('0x') ? signature.slice(2) : signature;
+    return /^[0-9a-fA-F]{130}$/.test(hex) ? hex : null;
+  }
+}
@@ -0,0 +1,225 @@
+import mongoose from 'mongoose';
+import { Registration } from '../../../../shared/models/Registration';
+import { AnchorBatch } from '../../../../shared/models/AnchorBatch';
+import { BlockchainService } from '../BlockchainService';
+import { BatchAnchorService } from '../BatchAnchorService';
+import { MerkleService } from '../MerkleService';
+
+jest.mock('../../../../shared/models/Registration', () => ({
+  Registration: {
+    find: jest.fn(),
+    updateMany: jest.fn(),
+    bulkWrite: jest.fn()
+  }
+}));
+
+jest.mock('../../../../shared/models/AnchorBatch', () => ({
+  AnchorBatch: {
+    find: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn()
+  }
+}));
+
+const BATCH_ID = new mongoose.Types.ObjectId();
+const TX_ID = 'cd'.repeat(32);
+
+const queued = (count: number, createdAt = new Date()) =>
+  Array.from({ length: count }, (_, i) => ({
+    _id: `registration-${i}`,
+    contentHash: i.toString(16).padStart(64, '0'),
+    createdAt
+  }));
+
+/**
+ * Mongoose query stand-in resolving to the given documents
+ */
+const query = (documents: any[]) => {
+  const chain: any = {
+    sort: () => chain,
+    limit: () => chain,
+    select: () => chain,
+    then: (resolve: any, reject: any) => Promise.resolve(documents).then(resolve, reject)
+  };
+  return chain;
+};
+
+describe('BatchAnchorService', () => {
+  let registerContent: jest.Mock;
+  let getTransactionStatus: jest.Mock;
+  let service: BatchAnchorService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    process.env.BATCH_ANCHOR_PRIVATE_KEY = 'anchor-key';
+    process.env.BATCH_MAX_ITEMS = '4';
+    process.env.BATCH_INTERVAL_MS = '60000';
+
+    (AnchorBatch.find as jest.Mock).mockResolvedValue([]);
+    (AnchorBatch.create as jest.Mock).mockResolvedValue({ _id: BATCH_ID });
+
+    // The transaction id is handed over before the broadcast, like the real service does
+    registerContent = jest.fn(async (root, key, contentType, bnsName, beforeBroadcast) => {
+      await beforeBroadcast?.(TX_ID);
+      return { success: true, txId: TX_ID };
+    });
+    getTransactionStatus = jest.fn();
+    service = new BatchAnchorService({
+      registerContent,
+      getTransactionStatus,
+      getActiveContractId: () => 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3'
+    } as unknown as BlockchainService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.BATCH_ANCHOR_PRIVATE_KEY;
+    delete process.env.BATCH_MAX_ITEMS;
+    delete process.env.BATCH_INTERVAL_MS;
+  });
+
+  it('should do nothing without an anchor wallet', async () => {
+    delete process.env.BATCH_ANCHOR_PRIVATE_KEY;
+
+    expect(await service.anchorQueued(true)).toBeNull();
+    expect(Registration.find).not.toHaveBeenCalled();
+  });
+
+  it('should wait until the batch is full or has waited long enough', async () => {
+    (Registration.find as jest.Mock).mockReturnValue(query(queued(2)));
+
+    expect(await service.anchorQueued()).toBeNull();
+    expect(AnchorBatch.create).not.toHaveBeenCalled();
+    expect(registerContent).not.toHaveBeenCalled();
+  });
+
+  it('should anchor a full batch under its Merkle root', async () => {
+    const registrations = queued(4);
+    (Registration.find as jest.Mock)
+      .mockReturnValueOnce(query(registrations))
+      .mockReturnValueOnce(query(registrations));
+
+    const result = await service.anchorQueued();
+
+    const tree = MerkleService.buildTree(registrations.map(r => Buffer.from(r.contentHash, 'hex')));
+    const root = MerkleService.getRoot(tree);
+
+    expect(result).toEqual({ batchId: BATCH_ID, status: 'submitted', root: root.toString('hex'), leafCount: 4, txId: `0x${TX_ID}` });
+    expect(registerContent).toHaveBeenCalledWith(root, 'anchor-key', 'document', undefined, expect.any(Function));
+    expect(AnchorBatch.updateOne).toHaveBeenCalledWith(
+      { _id: BATCH_ID, status: 'building' },
+      { $set: { status: 'broadcasting', txId: `0x${TX_ID}`, contractId: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3' } }
+    );
+    expect(Registration.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: registrations.map(r => r._id) }, 'batch.status': 'queued' },
+      { $set: { 'batch.status': 'anchoring', 'batch.batchId': BATCH_ID } }
+    );
+
+    const writes = (Registration.bulkWrite as jest.Mock).mock.calls[0][0];
+    expect(writes).toHaveLength(4);
+    writes.forEach((write: any, leafIndex: number) => {
+      const update = write.updateOne.update.$set;
+      expect(update).toMatchObject({ 'batch.status': 'anchored', 'batch.leafIndex': leafIndex, 'blockchain.txId': `0x${TX_ID}` });
+      expect(MerkleService.verifyProof(Buffer.from(registrations[leafIndex].contentHash, 'hex'), update['batch.proof'], root)).toBe(true);
+    });
+    expect(AnchorBatch.updateOne).toHaveBeenLastCalledWith(
+      { _id: BATCH_ID },
+      { $set: { status: 'submitted', txId: `0x${TX_ID}`, contractId: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3' } }
+    );
+  });
+
+  it('should anchor a partial batch once the oldest hash has waited long enough', async () => {
+    const registrations = queued(2, new Date(Date.now() - 120000));
+    (Registration.find as jest.Mock)
+      .mockReturnValueOnce(query(registrations))
+      .mockReturnValueOnce(query(registrations));
+
+    const result = await service.anchorQueued();
+
+    expect(result).toMatchObject({ status: 'submitted', leafCount: 2 });
+  });
+
+  it('should put the hashes back in the queue when the broadcast fails', async () => {
+    const registrations = queued(4);
+    (Registration.find as jest.Mock)
+      .mockReturnValueOnce(query(registrations))
+      .mockReturnValueOnce(query(registrations));
+    registerContent.mockImplementation(async () => ({ success: false, error: 'NotEnoughFunds' }));
+
+    const result = await service.anchorQueued();
+
+    expect(result).toMatchObject({ status: 'failed', error: 'NotEnoughFunds' });
+    expect(Registration.bulkWrite).not.toHaveBeenCalled();
+    expect(Registration.updateMany).toHaveBeenLastCalledWith(
+      { 'batch.batchId': BATCH_ID, 'batch.status': 'anchoring' },
+      { $set: { 'batch.status': 'queued' }, $unset: { 'batch.batchId': '' } }
+    );
+    expect(AnchorBatch.updateOne).toHaveBeenLastCalledWith(
+      { _id: BATCH_ID },
+      { $set: { status: 'failed', error: 'NotEnoughFunds' } }
+    );
+  });
+
+  it('should requeue batches interrupted while building', async () => {
+    const stale = new mongoose.Types.ObjectId();
+    (AnchorBatch.find as jest.Mock).mockResolvedValue([{ _id: stale }]);
+    (Registration.find as jest.Mock).mockReturnValue(query([]));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await service.anchorQueued()).toBeNull();
+    expect(Registration.updateMany).toHaveBeenCalledWith(
+      { 'batch.batchId': stale, 'batch.status': 'anchoring' },
+      { $set: { 'batch.status': 'queued' }, $unset: { 'batch.batchId': '' } }
+    );
+    expect(AnchorBatch.updateOne).toHaveBeenCalledWith(
+      { _id: stale },
+      { $set: { status: 'failed', error: 'Interrupted before broadcast' } }
+    );
+  });
+
+  it('should finish batches interrupted after broadcasting instead of anchoring them again', async () => {
+    const stale = new mongoose.Types.ObjectId();
+    const registrations = queued(3);
+    (AnchorBatch.find as jest.Mock).mockResolvedValue([
+      { _id: stale, status: 'broadcasting', txId: `0x${TX_ID}`, contractId: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3' }
+    ]);
+    (Registration.find as jest.Mock)
+      .mockReturnValueOnce(query(registrations))
+      .mockReturnValue(query([]));
+    getTransactionStatus.mockResolvedValue({ txId: `0x${TX_ID}`, status: 'pending' });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await service.anchorQueued()).toBeNull();
+    expect(getTransactionStatus).toHaveBeenCalledWith(`0x${TX_ID}`);
+    expect(Registration.updateMany).not.toHaveBeenCalled();
+    expect(registerContent).not.toHaveBeenCalled();
+
+    const root = MerkleService.getRoot(MerkleService.buildTree(registrations.map(r => Buffer.from(r.contentHash, 'hex'))));
+    const writes = (Registration.bulkWrite as jest.Mock).mock.calls[0][0];
+    expect(writes).toHaveLength(3);
+    expect(writes[0].updateOne.update.$set).toMatchObject({ 'batch.root': root.toString('hex'), 'blockchain.txId': `0x${TX_ID}` });
+    expect(AnchorBatch.updateOne).toHaveBeenCalledWith(
+      { _id: stale },
+      { $set: { status: 'submitted', txId: `0x${TX_ID}`, contractId: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3' } }
+    );
+  });
+
+  it('should requeue batches whose recorded transaction never reached the node', async () => {
+    const stale = new mongoose.Types.ObjectId();
+    (AnchorBatch.find as jest.Mock).mockResolvedValue([{ _id: stale, status: 'broadcasting', txId: `0x${TX_ID}` }]);
+    (Registration.find as jest.Mock).mockReturnValue(query([]));
+    getTransactionStatus.mockResolvedValue({ txId: `0x${TX_ID}`, status: 'not_found' });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await service.anchorQueued();
+
+    expect(Registration.bulkWrite).not.toHaveBeenCalled();
+    expect(Registration.updateMany).toHaveBeenCalledWith(
+      { 'batch.batchId': stale, 'batch.status': 'anchoring' },
+      { $set: { 'batch.status': 'queued' }, $unset: { 'batch.batchId': '' } }
+    );
+  });
+});
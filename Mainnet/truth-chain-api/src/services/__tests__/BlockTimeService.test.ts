@@ -0,0 +1,177 @@
+import mongoose from 'mongoose';
+import { BlockTime } from '../../../../shared/models/BlockTime';
+import { BlockTimeService } from '../BlockTimeService';
+
+jest.mock('../../../../shared/models/BlockTime', () => ({
+  BlockTime: {
+    findOne: jest.fn(() => ({ lean: jest.fn().mockResolvedValue(null) })),
+    updateOne: jest.fn().mockResolvedValue({})
+  }
+}));
+
+const API_URL = 'https://api.example.test';
+
+const block = (height: number) => ({
+  height,
+  hash: `0x${height.toString(16).padStart(64, '0')}`,
+  block_time: 1700000000 + height,
+  burn_block_time: 1699999000 + height,
+  burn_block_height: 870000 + height
+});
+
+const jsonResponse = (status: number, body?: unknown) => new Response(
+  body === undefined ? null : JSON.stringify(body),
+  { status, headers: { 'Content-Type': 'application/json' } }
+);
+
+describe('BlockTimeService', () => {
+  let service: BlockTimeService;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (url) =>
+      jsonResponse(200, block(parseInt(String(url).split('/').pop()!)))
+    );
+
+    service = new BlockTimeService('mainnet', API_URL);
+  });
+
+  afterEach(() => {
+    delete process.env.HIRO_API_KEY;
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should map a block height to block and burn-block time', async () => {
+    const result = await service.resolve(150003);
+
+    expect(fetchMock).toHaveBeenCalledWith(`${API_URL}/extended/v2/blocks/150003`, expect.any(Object));
+    expect(result).toEqual({
+      height: 150003,
+      hash: block(150003).hash,
+      blockTime: new Date((1700000000 + 150003) * 1000),
+      burnBlockTime: new Date((1699999000 + 150003) * 1000),
+      burnBlockHeight: 870000 + 150003
+    });
+  });
+
+  it('should send the Hiro API key when configured', async () => {
+    process.env.HIRO_API_KEY = 'test-key';
+
+    await service.resolve(150003);
+
+    expect(fetchMock.mock.calls[0][1].headers['x-api-key']).toBe('test-key');
+  });
+
+  it('should fetch each block once', async () => {
+    const [first, second] = await Promise.all([service.resolve(150003), service.resolve(150003)]);
+    const third = await service.resolve(150003);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+  });
+
+  it('should return null for unknown blocks and invalid heights', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404));
+
+    expect(await service.resolve(999999999)).toBeNull();
+    expect(await service.resolve(0)).toBeNull();
+    expect(await service.resolve(1.5)).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry blocks whose lookup failed', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(503));
+
+    expect(await service.resolve(150003)).toBeNull();
+    expect(await service.resolve(150003)).not.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  describe('blocks near the tip', () => {
+    const TIP = 150010;
+
+    beforeEach(() => {
+      // Pretend MongoDB is connected (the model itself is mocked)
+      Object.defineProperty(mongoose.connection, 'readyState', { value: 1, configurable: true });
+      service = new BlockTimeService('mainnet', API_URL, 5000, async () => TIP);
+    });
+
+    afterEach(() => {
+      delete (mongoose.connection as { readyState?: number }).readyState;
+    });
+
+    it('should only store final blocks in block_times', async () => {
+      await service.resolve(TIP - 5);
+      expect(BlockTime.updateOne).toHaveBeenCalledTimes(1);
+
+      await service.resolve(TIP - 4);
+      expect(BlockTime.updateOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch shallow blocks once their cache entry expires', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await service.resolve(TIP);
+      await service.resolve(TIP);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      clock.mockReturnValue(now + 60 * 1000);
+      await service.resolve(TIP);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep final blocks cached', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await service.resolve(TIP - 100);
+      clock.mockReturnValue(now + 60 * 60 * 1000);
+      await service.resolve(TIP - 100);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat blocks as shallow when the tip is unavailable', async () => {
+      service = new BlockTimeService('mainnet', API_URL, 5000, async () => { throw new Error('socket hang up'); });
+
+      expect(await service.resolve(TIP - 100)).not.toBeNull();
+      expect(BlockTime.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveRegistrationTime', () => {
+    it('should use the block time when the block resolves', async () => {
+      const result = await service.resolveRegistrationTime(150003, new Date('2025-01-01T00:00:00Z'));
+
+      expect(result).toEqual({
+        registeredAt: new Date((1700000000 + 150003) * 1000),
+        burnBlockTime: new Date((1699999000 + 150003) * 1000),
+        timestampSource: 'chain'
+      });
+    });
+
+    it('should fall back to the stored date', async () => {
+      fetchMock.mockRejectedValue(new Error('socket hang up'));
+      const stored = new Date('2025-01-01T00:00:00Z');
+
+      expect(await service.resolveRegistrationTime(150003, stored)).toEqual({
+        registeredAt: stored,
+        timestampSource: 'database'
+      });
+      expect(await service.resolveRegistrationTime(undefined, stored)).toEqual({
+        registeredAt: stored,
+        timestampSource: 'database'
+      });
+    });
+
+    it('should never treat the block height as a Unix time', async () => {
+      fetchMock.mockRejectedValue(new Error('socket hang up'));
+
+      expect(await service.resolveRegistrationTime(150003)).toBeNull();
+    });
+  });
+});
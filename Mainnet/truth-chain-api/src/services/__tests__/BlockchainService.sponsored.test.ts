@@ -0,0 +1,67 @@
+import {
+  makeContractCall,
+  randomPrivateKey,
+  bufferCV,
+  stringAsciiCV,
+  someCV,
+  noneCV,
+  PostConditionMode,
+  ClarityValue
+} from '@stacks/transactions';
+import { BlockchainService } from '../BlockchainService';
+import { ContractDeployment } from '../ContractRegistry';
+
+// Kept apart from BlockchainService.test.ts, whose @stacks/transactions mock breaks transaction signing
+
+const MAINNET_DEPLOYMENTS: ContractDeployment[] = [{
+  version: 'v3',
+  contractAddress: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F',
+  contractName: 'truthchain_v3',
+  deployHeight: 0,
+  functions: ['register-content', 'register-content-with-bns'],
+  status: 'active'
+}];
+
+describe('BlockchainService.validateSponsoredRegistration', () => {
+  const hashHex = 'ab'.repeat(32);
+  let service: BlockchainService;
+
+  const signed = async (bnsName: ClarityValue) => {
+    const transaction = await makeContractCall({
+      contractAddress: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F',
+      contractName: 'truthchain_v3',
+      functionName: 'register-content-with-bns',
+      functionArgs: [bufferCV(Buffer.from(hashHex, 'hex')), stringAsciiCV('tweet'), bnsName],
+      senderKey: randomPrivateKey(),
+      network: 'mainnet',
+      sponsored: true,
+      fee: 0,
+      nonce: 0,
+      postConditionMode: PostConditionMode.Allow
+    });
+    return transaction.serialize();
+  };
+
+  beforeEach(() => {
+    service = new BlockchainService({ network: 'mainnet', deployments: MAINNET_DEPLOYMENTS });
+  });
+
+  it('should accept the registration\'s own BNS name', async () => {
+    const check = service.validateSponsoredRegistration(await signed(someCV(stringAsciiCV('alice.btc'))), hashHex, 'tweet', 'alice.btc');
+
+    expect(check).toMatchObject({ valid: true });
+  });
+
+  it('should reject a BNS name that differs from the registration\'s', async () => {
+    const check = service.validateSponsoredRegistration(await signed(someCV(stringAsciiCV('bob.btc'))), hashHex, 'tweet', 'alice.btc');
+
+    expect(check).toEqual({ valid: false, error: 'Transaction bns-name must be alice.btc' });
+  });
+
+  it('should reject a BNS name when the registration has none', async () => {
+    expect(service.validateSponsoredRegistration(await signed(someCV(stringAsciiCV('bob.btc'))), hashHex, 'tweet'))
+      .toEqual({ valid: false, error: 'Transaction bns-name must be none' });
+    expect(service.validateSponsoredRegistration(await signed(noneCV()), hashHex, 'tweet'))
+      .toMatchObject({ valid: true });
+  });
+});
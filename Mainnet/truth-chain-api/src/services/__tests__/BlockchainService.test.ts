@@ -0,0 +1,223 @@
+import {
+  fetchCallReadOnlyFunction,
+  responseOkCV,
+  responseErrorCV,
+  tupleCV,
+  uintCV,
+  stringAsciiCV,
+  principalCV,
+  someCV,
+  noneCV
+} from '@stacks/transactions';
+import { BlockchainService } from '../BlockchainService';
+import { ContractDeployment } from '../ContractRegistry';
+
+jest.mock('@stacks/transactions', () => ({
+  ...jest.requireActual('@stacks/transactions'),
+  fetchCallReadOnlyFunction: jest.fn()
+}));
+
+const mockCall = fetchCallReadOnlyFunction as jest.Mock;
+
+const AUTHOR = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+const contentHash = Buffer.alloc(32, 1);
+
+const registered = (registrationId: number) => responseOkCV(tupleCV({
+  author: principalCV(AUTHOR),
+  'bns-name': registrationId === 3 ? someCV(stringAsciiCV('alice.btc')) : noneCV(),
+  'block-height': uintCV(150000 + registrationId),
+  'time-stamp': uintCV(1700000000),
+  'content-type': stringAsciiCV('tweet'),
+  'registration-id': uintCV(registrationId)
+}));
+
+const notFound = () => responseErrorCV(uintCV(104));
+
+const deployment = (version: ContractDeployment['version'], contractAddress: string, contractName: string, status: ContractDeployment['status'] = 'read-only'): ContractDeployment => ({
+  version,
+  contractAddress,
+  contractName,
+  deployHeight: 0,
+  functions: ['register-content', 'register-content-with-bns'],
+  status
+});
+
+// Listed out of order on purpose - lookups go newest first
+const MAINNET_DEPLOYMENTS = [
+  deployment('v1', 'SP1S7KX8TVSAWJ8CVJZQSFERBQ8BNCDXYFHXT21Z9', 'truthchain_v1'),
+  deployment('v3', 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F', 'truthchain_v3', 'active'),
+  deployment('v2', 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F', 'truthchain_v2')
+];
+
+/**
+ * Answer verify-content per contract name
+ */
+const respondWith = (responses: Record<string, () => Promise<unknown>>) => {
+  mockCall.mockImplementation(({ contractName }) => responses[contractName]());
+};
+
+describe('BlockchainService.verifyContent', () => {
+  let service: BlockchainService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    service = new BlockchainService({
+      network: 'mainnet',
+      deployments: MAINNET_DEPLOYMENTS
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should query every contract once and concurrently', async () => {
+    respondWith({
+      truthchain_v3: async () => notFound(),
+      truthchain_v2: async () => notFound(),
+      truthchain_v1: async () => notFound()
+    });
+
+    const result = await service.verifyContent(contentHash);
+
+    expect(mockCall).toHaveBeenCalledTimes(3);
+    expect(mockCall.mock.calls.every(([options]) => options.functionName === 'verify-content')).toBe(true);
+    expect(result.registration).toBeNull();
+    expect(result.complete).toBe(true);
+    expect(result.lookups.map(lookup => lookup.status)).toEqual(['not_found', 'not_found', 'not_found']);
+  });
+
+  it('should return the newest match without waiting for older contracts', async () => {
+    respondWith({
+      truthchain_v3: async () => registered(3),
+      truthchain_v2: () => new Promise(() => undefined),  // never answers
+      truthchain_v1: () => new Promise(() => undefined)
+    });
+
+    const result = await service.verifyContent(contentHash);
+
+    expect(result.match).toEqual({
+      contractId: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3',
+      contractVersion: 'v3'
+    });
+    expect(result.registration).toMatchObject({
+      author: AUTHOR,
+      bnsName: 'alice.btc',
+      contentType: 'tweet',
+      blockHeight: 150003,
+      timestamp: 1700000000,
+      registrationId: 3,
+      contractId: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3',
+      contractVersion: 'v3'
+    });
+    expect(result.lookups).toHaveLength(1);
+  });
+
+  it('should prefer v2 over v1 when v3 misses', async () => {
+    respondWith({
+      truthchain_v3: async () => notFound(),
+      truthchain_v2: async () => registered(2),
+      truthchain_v1: async () => registered(1)
+    });
+
+    const result = await service.verifyContent(contentHash);
+
+    expect(result.match?.contractVersion).toBe('v2');
+    expect(result.registration?.registrationId).toBe(2);
+    expect(result.registration?.bnsName).toBeUndefined();
+  });
+
+  it('should report timed out and failed lookups', async () => {
+    respondWith({
+      truthchain_v3: async () => { throw Object.assign(new Error('The operation was aborted'), { name: 'TimeoutError' }); },
+      truthchain_v2: async () => { throw new Error('socket hang up'); },
+      truthchain_v1: async () => notFound()
+    });
+
+    const result = await service.verifyContent(contentHash);
+
+    expect(result.registration).toBeNull();
+    expect(result.complete).toBe(false);
+    expect(result.lookups.map(lookup => lookup.status)).toEqual(['timeout', 'error', 'not_found']);
+    expect(result.lookups[1].error).toBe('socket hang up');
+  });
+
+  it('should pick up new deployments from config', async () => {
+    service = new BlockchainService({
+      network: 'mainnet',
+      deployments: [
+        ...MAINNET_DEPLOYMENTS.map(d => ({ ...d, status: 'read-only' as const })),
+        deployment('v4', 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F', 'truthchain_v4', 'active')
+      ]
+    });
+    respondWith({
+      truthchain_v4: async () => notFound(),
+      truthchain_v3: async () => registered(3),
+      truthchain_v2: async () => notFound(),
+      truthchain_v1: async () => notFound()
+    });
+
+    const result = await service.verifyContent(contentHash);
+
+    expect(service.getActiveContractId()).toBe('SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v4');
+    expect(result.lookups.map(lookup => lookup.version)).toEqual(['v4', 'v3']);
+    expect(result.match?.contractVersion).toBe('v3');
+  });
+
+  it('should still find older registrations when a newer lookup fails', async () => {
+    respondWith({
+      truthchain_v3: async () => { throw new Error('503 Service Unavailable'); },
+      truthchain_v2: async () => notFound(),
+      truthchain_v1: async () => registered(1)
+    });
+
+    const registration = await service.verifyTweet(contentHash);
+
+    expect(registration?.registrationId).toBe(1);
+  });
+
+  it('should only query the network\'s own deployments', async () => {
+    service = new BlockchainService({
+      network: 'testnet',
+      deployments: [deployment('v1', 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM', 'truth-chain', 'active')]
+    });
+    respondWith({ 'truth-chain': async () => notFound() });
+
+    const result = await service.verifyContent(contentHash);
+
+    expect(mockCall).toHaveBeenCalledTimes(1);
+    expect(result.lookups[0].contractId).toBe('ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.truth-chain');
+  });
+});
+
+describe('BlockchainService transaction lookups', () => {
+  let service: BlockchainService;
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    service = new BlockchainService({ network: 'mainnet', deployments: MAINNET_DEPLOYMENTS });
+    fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 404 }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject transaction IDs that are not 32 bytes of hex', async () => {
+    await expect(service.getRegistrationTransaction('../../v2/accounts/SP000')).rejects.toThrow('Invalid transaction ID');
+    await expect(service.getTransactionStatus('0x1234')).rejects.toThrow('Invalid transaction ID');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should look up well-formed transaction IDs with a timeout', async () => {
+    expect(await service.getRegistrationTransaction('ab'.repeat(32))).toBeNull();
+    expect(fetchSpy).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp(`/extended/v1/tx/0x${'ab'.repeat(32)}$`)),
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+});
@@ -0,0 +1,315 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  serializeCV,
+  bufferCV,
+  stringAsciiCV,
+  someCV,
+  responseOkCV,
+  responseErrorCV,
+  tupleCV,
+  uintCV
+} from '@stacks/transactions';
+import { Registration } from '../../../../shared/models/Registration';
+import { User } from '../../../../shared/models/User';
+import { BlockchainService } from '../BlockchainService';
+import { ChainIndexerService } from '../ChainIndexerService';
+import { ContractDeployment } from '../ContractRegistry';
+
+// In-memory stand-ins for the collections the indexer writes to
+const registrations = new Map<string, any>();
+const cursors = new Map<string, any>();
+
+jest.mock('../../../../shared/models/Registration', () => ({
+  Registration: {
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      if (registrations.has(filter.contentHash)) {
+        return { upsertedCount: 0 };
+      }
+      registrations.set(filter.contentHash, update.$setOnInsert);
+      return { upsertedCount: 1 };
+    })
+  }
+}));
+
+const users = new Map<string, any>();
+
+jest.mock('../../../../shared/models/User', () => ({
+  User: {
+    findOneAndUpdate: jest.fn(async (filter: any, update: any, options: any) => {
+      let user = users.get(filter.walletAddress);
+      if (!user) {
+        if (!options?.upsert) return null;
+        user = { ...update.$setOnInsert, stats: {} };
+        users.set(filter.walletAddress, user);
+      }
+      for (const [path, amount] of Object.entries<number>(update.$inc)) {
+        const field = path.split('.')[1];
+        user.stats[field] = (user.stats[field] || 0) + amount;
+      }
+      return user;
+    })
+  }
+}));
+
+jest.mock('../../../../shared/models/IndexerCursor', () => ({
+  IndexerCursor: {
+    findOne: jest.fn(async (filter: any) => cursors.get(filter.contractId) || null),
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      cursors.set(filter.contractId, { ...cursors.get(filter.contractId), ...update.$set });
+    })
+  }
+}));
+
+// Transactions that registered one of our batch roots
+const anchorTxIds = new Set<string>();
+
+jest.mock('../../../../shared/models/AnchorBatch', () => ({
+  AnchorBatch: {
+    exists: jest.fn(async (filter: any) => anchorTxIds.has(filter.txId) ? { _id: 'batch-1' } : null)
+  }
+}));
+
+const AUTHOR = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+const V3 = 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v3';
+const V1 = 'SP1S7KX8TVSAWJ8CVJZQSFERBQ8BNCDXYFHXT21Z9.truthchain_v1';
+
+const deployment = (contractId: string, version: ContractDeployment['version'], status: ContractDeployment['status']): ContractDeployment => ({
+  version,
+  contractAddress: contractId.split('.')[0],
+  contractName: contractId.split('.')[1],
+  deployHeight: 0,
+  functions: ['register-content', 'register-content-with-bns'],
+  status
+});
+
+const hashOf = (n: number) => n.toString(16).padStart(64, '0');
+
+let txCount = 0;
+
+/**
+ * Contract call the way the Stacks API returns it
+ */
+const contractCall = (contractId: string, options: { functionName?: string; status?: string; bnsName?: string; contentType?: string } = {}) => {
+  const n = ++txCount;
+  const functionName = options.functionName || (options.bnsName ? 'register-content-with-bns' : 'register-content');
+  const success = (options.status || 'success') === 'success';
+
+  return {
+    tx_id: `0x${hashOf(1000 + n)}`,
+    tx_type: 'contract_call',
+    tx_status: options.status || 'success',
+    sender_address: AUTHOR,
+    block_height: 150000 + n,
+    burn_block_time: 1700000000 + n,
+    contract_call: {
+      contract_id: contractId,
+      function_name: functionName,
+      function_args: [
+        { name: 'hash', hex: serializeCV(bufferCV(Buffer.from(hashOf(n), 'hex'))), repr: '' },
+        { name: 'content-type', hex: serializeCV(stringAsciiCV(options.contentType || 'tweet')), repr: '' },
+        ...(options.bnsName ? [{ name: 'bns-name', hex: serializeCV(someCV(stringAsciiCV(options.bnsName))), repr: '' }] : [])
+      ]
+    },
+    tx_result: {
+      hex: serializeCV(success ? responseOkCV(tupleCV({ 'registration-id': uintCV(n) })) : responseErrorCV(uintCV(409))),
+      repr: success ? `(ok (tuple (registration-id u${n})))` : '(err u409)'
+    }
+  };
+};
+
+describe('ChainIndexerService', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  // Transactions per contract, oldest first
+  let chain: Record<string, any[]>;
+  // Runs before each transactions page is served (simulates new blocks)
+  let beforePage: (() => void) | null;
+  let service: ChainIndexerService;
+
+  // Local stand-in for the Stacks API endpoints the indexer uses
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      const transactions = url.pathname.match(/^\/extended\/v1\/address\/([^/]+)\/transactions$/);
+      if (transactions) {
+        if (url.searchParams.get('limit') !== '1') {
+          beforePage?.();
+        }
+        const newestFirst = [...(chain[transactions[1]] || [])].reverse();
+        const limit = parseInt(url.searchParams.get('limit')!);
+        const offset = parseInt(url.searchParams.get('offset')!);
+        return send(200, { limit, offset, total: newestFirst.length, results: newestFirst.slice(offset, offset + limit) });
+      }
+
+      const block = url.pathname.match(/^\/extended\/v2\/blocks\/(\d+)$/);
+      if (block) {
+        const height = parseInt(block[1]);
+        return send(200, { height, hash: `0x${hashOf(height)}`, block_time: 1700000000 + height, burn_block_time: 1700000000 + height, burn_block_height: 870000 });
+      }
+
+      send(404, { error: 'not found' });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    registrations.clear();
+    cursors.clear();
+    users.clear();
+    anchorTxIds.clear();
+    txCount = 0;
+    beforePage = null;
+    chain = { [V3]: [], [V1]: [] };
+
+    service = new ChainIndexerService(new BlockchainService({
+      network: 'mainnet',
+      deployments: [deployment(V3, 'v3', 'active'), deployment(V1, 'v1', 'read-only')],
+      apiUrl
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should index registrations from every contract', async () => {
+    chain[V3].push(
+      contractCall(V3, { bnsName: 'alice.btc', contentType: 'blog_post' }),
+      contractCall(V3, { status: 'abort_by_response' }),
+      contractCall(V3, { functionName: 'transfer-ownership' })
+    );
+    chain[V1].push(contractCall(V1));
+
+    const results = await service.indexAll();
+
+    expect(results).toEqual([
+      { contractId: V3, scanned: 3, indexed: 1, existing: 0, skipped: 2, offset: 3, total: 3 },
+      { contractId: V1, scanned: 1, indexed: 1, existing: 0, skipped: 0, offset: 1, total: 1 }
+    ]);
+    expect(registrations.get(hashOf(1))).toEqual({
+      contentHash: hashOf(1),
+      authorWallet: AUTHOR,
+      bnsName: 'alice.btc',
+      content: { type: 'article' },
+      blockchain: {
+        txId: chain[V3][0].tx_id,
+        status: 'confirmed',
+        blockHeight: 150001,
+        registrationId: 1,
+        confirmations: 0,
+        timestamp: new Date((1700000000 + 150001) * 1000),
+        contractId: V3,
+        contractVersion: 'v3'
+      },
+      metadata: { source: 'chain' }
+    });
+    expect(registrations.get(hashOf(4))?.blockchain.contractVersion).toBe('v1');
+    expect(User.findOneAndUpdate).toHaveBeenCalledWith(
+      { walletAddress: AUTHOR },
+      {
+        $inc: { 'stats.totalRegistrations': 1, 'stats.confirmedRegistrations': 1 },
+        $max: { 'stats.lastRegistration': new Date((1700000000 + 150001) * 1000) },
+        $setOnInsert: { walletAddress: AUTHOR, 'metadata.firstSeen': new Date((1700000000 + 150001) * 1000) }
+      },
+      { upsert: true, setDefaultsOnInsert: false }
+    );
+    expect(cursors.get(V3)).toMatchObject({ offset: 3, lastBlockHeight: 150003, lastTxId: chain[V3][2].tx_id });
+  });
+
+  it('should pick up where it left off after a restart', async () => {
+    for (let i = 0; i < 30; i++) {
+      chain[V3].push(contractCall(V3));
+    }
+    await service.indexContract(deployment(V3, 'v3', 'active'));
+
+    for (let i = 0; i < 5; i++) {
+      chain[V3].push(contractCall(V3));
+    }
+    (User.findOneAndUpdate as jest.Mock).mockClear();
+
+    const result = await service.indexContract(deployment(V3, 'v3', 'active'));
+
+    // The last 20 already indexed transactions are read again, but not inserted twice
+    expect(result).toMatchObject({ scanned: 25, indexed: 5, existing: 20, offset: 35 });
+    expect(registrations.size).toBe(35);
+    expect(User.findOneAndUpdate).toHaveBeenCalledTimes(5);
+  });
+
+  it('should page through long histories oldest first', async () => {
+    for (let i = 0; i < 120; i++) {
+      chain[V3].push(contractCall(V3));
+    }
+
+    const first = await service.indexContract(deployment(V3, 'v3', 'active'), 1);
+    expect(first).toMatchObject({ scanned: 50, indexed: 50, offset: 50 });
+    expect(registrations.has(hashOf(1))).toBe(true);
+    expect(registrations.has(hashOf(51))).toBe(false);
+
+    const rest = await service.indexContract(deployment(V3, 'v3', 'active'));
+    expect(rest).toMatchObject({ indexed: 70, offset: 120, total: 120 });
+    expect(registrations.size).toBe(120);
+  });
+
+  it('should not skip transactions that land while paging', async () => {
+    for (let i = 0; i < 3; i++) {
+      chain[V3].push(contractCall(V3));
+    }
+    beforePage = () => {
+      beforePage = null;
+      chain[V3].push(contractCall(V3));
+    };
+
+    const result = await service.indexContract(deployment(V3, 'v3', 'active'));
+
+    expect(result).toMatchObject({ indexed: 4, offset: 4, total: 4 });
+    expect([...registrations.keys()]).toEqual([hashOf(1), hashOf(2), hashOf(3), hashOf(4)]);
+  });
+
+  it('should skip our own batch roots', async () => {
+    chain[V3].push(contractCall(V3, { contentType: 'document' }));
+    anchorTxIds.add(chain[V3][0].tx_id);
+
+    const result = await service.indexContract(deployment(V3, 'v3', 'active'));
+
+    expect(result).toMatchObject({ indexed: 0, skipped: 1 });
+    expect(registrations.size).toBe(0);
+  });
+
+  it('should leave registrations made through the API alone', async () => {
+    chain[V3].push(contractCall(V3));
+    registrations.set(hashOf(1), { metadata: { source: 'extension' } });
+
+    const result = await service.indexContract(deployment(V3, 'v3', 'active'));
+
+    expect(result).toMatchObject({ indexed: 0, existing: 1 });
+    expect(registrations.get(hashOf(1))).toEqual({ metadata: { source: 'extension' } });
+    expect(User.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(Registration.updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should create a user for a wallet new to the API', async () => {
+    chain[V3].push(contractCall(V3), contractCall(V3));
+
+    await service.indexContract(deployment(V3, 'v3', 'active'));
+
+    expect(users.get(AUTHOR)).toEqual({
+      walletAddress: AUTHOR,
+      'metadata.firstSeen': new Date((1700000000 + 150001) * 1000),
+      stats: { totalRegistrations: 2, confirmedRegistrations: 2 }
+    });
+  });
+});
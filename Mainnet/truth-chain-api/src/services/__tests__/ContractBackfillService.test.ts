@@ -0,0 +1,91 @@
+import { Registration, IRegistration } from '../../../../shared/models/Registration';
+import { BlockchainService } from '../BlockchainService';
+import { ContractBackfillService } from '../ContractBackfillService';
+
+jest.mock('../../../../shared/models/Registration', () => ({
+  Registration: {
+    find: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+const CONTENT_HASH = 'ab'.repeat(32);
+
+const registration = (txId?: string) => ({
+  _id: 'registration-1',
+  contentHash: CONTENT_HASH,
+  blockchain: { status: 'confirmed', txId }
+}) as unknown as IRegistration;
+
+describe('ContractBackfillService', () => {
+  let blockchainService: { getTransactionStatus: jest.Mock; verifyContent: jest.Mock };
+  let service: ContractBackfillService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    blockchainService = {
+      getTransactionStatus: jest.fn(),
+      verifyContent: jest.fn()
+    };
+    service = new ContractBackfillService(blockchainService as unknown as BlockchainService);
+  });
+
+  it('should take the contract from the registration transaction', async () => {
+    blockchainService.getTransactionStatus.mockResolvedValue({
+      txId: '0xabc',
+      status: 'success',
+      contractId: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v2',
+      contractVersion: 'v2'
+    });
+
+    const outcome = await service.backfillRegistration(registration('0xabc'));
+
+    expect(outcome).toBe('backfilled');
+    expect(blockchainService.verifyContent).not.toHaveBeenCalled();
+    expect(Registration.updateOne).toHaveBeenCalledWith(
+      { _id: 'registration-1', 'blockchain.contractId': { $exists: false } },
+      {
+        $set: {
+          'blockchain.contractId': 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F.truthchain_v2',
+          'blockchain.contractVersion': 'v2'
+        }
+      }
+    );
+  });
+
+  it('should look the hash up when the transaction called an unknown contract', async () => {
+    blockchainService.getTransactionStatus.mockResolvedValue({
+      txId: '0xabc',
+      status: 'success',
+      contractId: 'SP000000000000000000002Q6VF78.something-else'
+    });
+    blockchainService.verifyContent.mockResolvedValue({
+      registration: {},
+      match: { contractId: 'SP1S7KX8TVSAWJ8CVJZQSFERBQ8BNCDXYFHXT21Z9.truthchain_v1', contractVersion: 'v1' },
+      lookups: [],
+      complete: true
+    });
+
+    const outcome = await service.backfillRegistration(registration('0xabc'));
+
+    expect(outcome).toBe('backfilled');
+    expect(blockchainService.verifyContent).toHaveBeenCalledWith(Buffer.from(CONTENT_HASH, 'hex'));
+    expect((Registration.updateOne as jest.Mock).mock.calls[0][1].$set['blockchain.contractVersion']).toBe('v1');
+  });
+
+  it('should leave registrations alone when no lookup could answer', async () => {
+    blockchainService.verifyContent.mockResolvedValue({ registration: null, lookups: [], complete: false });
+
+    const outcome = await service.backfillRegistration(registration());
+
+    expect(outcome).toBe('failed');
+    expect(blockchainService.getTransactionStatus).not.toHaveBeenCalled();
+    expect(Registration.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should report registrations no deployment holds', async () => {
+    blockchainService.verifyContent.mockResolvedValue({ registration: null, lookups: [], complete: true });
+
+    expect(await service.backfillRegistration(registration())).toBe('not_found');
+  });
+});
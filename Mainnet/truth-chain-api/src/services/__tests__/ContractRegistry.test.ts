@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContractRegistry, ContractRegistryConfig } from '../ContractRegistry';
+import defaultRegistry from '../../config/contracts.json';
+
+const config = (): ContractRegistryConfig => JSON.parse(JSON.stringify(defaultRegistry));
+
+describe('ContractRegistry', () => {
+  afterEach(() => {
+    delete process.env.CONTRACT_REGISTRY_PATH;
+    ContractRegistry.reset();
+  });
+
+  it('should accept the bundled config', () => {
+    expect(ContractRegistry.validate(defaultRegistry)).toEqual([]);
+  });
+
+  it('should list deployments newest first', () => {
+    expect(ContractRegistry.getDeployments('mainnet').map(d => d.version)).toEqual(['v3', 'v2', 'v1']);
+    expect(ContractRegistry.getActive('mainnet').contractName).toBe('truthchain_v3');
+    expect(ContractRegistry.getActive('testnet').contractAddress).toMatch(/^ST/);
+  });
+
+  it('should find deployments by contract ID', () => {
+    const v1 = ContractRegistry.findByContractId('mainnet', 'SP1S7KX8TVSAWJ8CVJZQSFERBQ8BNCDXYFHXT21Z9.truthchain_v1');
+
+    expect(v1?.version).toBe('v1');
+    expect(ContractRegistry.supports(v1!, 'register-content-with-bns')).toBe(false);
+    expect(ContractRegistry.findByContractId('testnet', 'SP1S7KX8TVSAWJ8CVJZQSFERBQ8BNCDXYFHXT21Z9.truthchain_v1')).toBeUndefined();
+  });
+
+  it('should require exactly one active deployment per network', () => {
+    const registry = config();
+    registry.mainnet[1].status = 'active';
+
+    expect(ContractRegistry.validate(registry)).toContain('mainnet: exactly one deployment must be active (found 2)');
+  });
+
+  it('should reject addresses from the wrong network', () => {
+    const registry = config();
+    registry.testnet[0].contractAddress = 'SP1S7KX8TVSAWJ8CVJZQSFERBQ8BNCDXYFHXT21Z9';
+
+    expect(ContractRegistry.validate(registry)).toContain('testnet[0]: contractAddress is not a testnet address');
+  });
+
+  it('should reject unknown registration functions', () => {
+    const registry = config() as any;
+    registry.mainnet[0].functions = ['register-everything'];
+
+    expect(ContractRegistry.validate(registry)[0]).toMatch(/^mainnet\[0\]: functions must be/);
+  });
+
+  it('should load a registry from CONTRACT_REGISTRY_PATH', () => {
+    const registry = config();
+    registry.mainnet[0].status = 'read-only';
+    registry.mainnet.push({
+      version: 'v4',
+      contractAddress: 'SPVQ61FEWR6M4HVAT3BNE07D4BNW6A1C2ACCNQ6F',
+      contractName: 'truthchain_v4',
+      deployHeight: 250000,
+      functions: ['register-content-with-bns'],
+      status: 'active'
+    });
+
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-')), 'contracts.json');
+    fs.writeFileSync(file, JSON.stringify(registry));
+    process.env.CONTRACT_REGISTRY_PATH = file;
+
+    try {
+      expect(ContractRegistry.getActive('mainnet').version).toBe('v4');
+      expect(ContractRegistry.getDeployments('mainnet')).toHaveLength(4);
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+
+  it('should refuse to load an invalid registry', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-')), 'contracts.json');
+    fs.writeFileSync(file, JSON.stringify({ mainnet: [] }));
+    process.env.CONTRACT_REGISTRY_PATH = file;
+
+    try {
+      expect(() => ContractRegistry.load()).toThrow(/mainnet: at least one deployment is required/);
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { Readable } from 'stream';
+import { Request } from 'express';
+import { FileUploadService } from '../FileUploadService';
+
+const BOUNDARY = '----truthchain-test';
+
+/**
+ * Multipart request stand-in streaming the given body
+ */
+const multipartRequest = (body: string): Request => {
+  const req = Readable.from([Buffer.from(body)]) as unknown as Request;
+  req.headers = {
+    'content-type': `multipart/form-data; boundary=${BOUNDARY}`,
+    'content-length': String(Buffer.byteLength(body))
+  };
+  return req;
+};
+
+const filePart = (content: string) => [
+  `--${BOUNDARY}`,
+  'Content-Disposition: form-data; name="file"; filename="photo.png"',
+  'Content-Type: image/png',
+  '',
+  content
+].join('\r\n');
+
+describe('FileUploadService', () => {
+  let unhandled: jest.Mock;
+
+  beforeEach(() => {
+    unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+  });
+
+  afterEach(() => {
+    process.off('unhandledRejection', unhandled);
+  });
+
+  it('should hash a complete upload', async () => {
+    const result = await FileUploadService.parseUpload(multipartRequest(`${filePart('png bytes')}\r\n--${BOUNDARY}--\r\n`));
+
+    expect(result.success).toBe(true);
+    expect(result.file).toMatchObject({ filename: 'photo.png', contentType: 'image', size: 9 });
+  });
+
+  it('should turn a truncated upload into a 400', async () => {
+    const result = await FileUploadService.parseUpload(multipartRequest(filePart('png bytes that never end')));
+
+    // Give a stray rejection the chance to surface
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(result).toMatchObject({ success: false, status: 400 });
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import { Registration, IRegistration } from '../../../../shared/models/Registration';
+import { User } from '../../../../shared/models/User';
+import { VerificationCache } from '../../../../shared/models/VerificationCache';
+import { BlockchainService } from '../BlockchainService';
+import { FinalityService } from '../FinalityService';
+
+jest.mock('../../../../shared/models/Registration', () => ({
+  Registration: {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+    findOneAndUpdate: jest.fn()
+  }
+}));
+
+jest.mock('../../../../shared/models/User', () => ({
+  User: { findOneAndUpdate: jest.fn() }
+}));
+
+jest.mock('../../../../shared/models/VerificationCache', () => ({
+  VerificationCache: { deleteOne: jest.fn() }
+}));
+
+const CONTENT_HASH = 'ab'.repeat(32);
+const AUTHOR = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+
+const registration = (txId?: string, blockHeight = 150000) => ({
+  _id: 'registration-1',
+  contentHash: CONTENT_HASH,
+  authorWallet: AUTHOR,
+  blockchain: { status: 'confirmed', txId, blockHeight, confirmations: 1 }
+}) as unknown as IRegistration;
+
+describe('FinalityService', () => {
+  let blockchainService: {
+    getChainTip: jest.Mock;
+    getTransactionStatus: jest.Mock;
+    verifyContent: jest.Mock;
+    getBlockTimes: jest.Mock;
+  };
+  let resolveBlockTime: jest.Mock;
+  let service: FinalityService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    resolveBlockTime = jest.fn().mockResolvedValue({ blockTime: new Date('2025-06-01T12:00:00Z') });
+    blockchainService = {
+      getChainTip: jest.fn().mockResolvedValue(150009),
+      getTransactionStatus: jest.fn(),
+      verifyContent: jest.fn(),
+      getBlockTimes: jest.fn(() => ({ resolve: resolveBlockTime }))
+    };
+    service = new FinalityService(blockchainService as unknown as BlockchainService);
+
+    (Registration.findOneAndUpdate as jest.Mock).mockImplementation(async () => registration());
+  });
+
+  afterEach(() => {
+    delete process.env.FINALITY_CONFIRMATIONS;
+    jest.restoreAllMocks();
+  });
+
+  describe('getFinality', () => {
+    it('should report unmined registrations as pending', async () => {
+      expect(await service.getFinality(undefined)).toEqual({ finality: 'pending', confirmations: 0 });
+      expect(blockchainService.getChainTip).not.toHaveBeenCalled();
+    });
+
+    it('should count confirmations against the chain tip', async () => {
+      expect(await service.getFinality(150005)).toEqual({ finality: 'soft', confirmations: 5 });
+      expect(await service.getFinality(150004)).toEqual({ finality: 'final', confirmations: 6 });
+    });
+
+    it('should use the configured threshold', async () => {
+      process.env.FINALITY_CONFIRMATIONS = '20';
+
+      expect((await service.getFinality(150000)).finality).toBe('soft');
+    });
+
+    it('should fall back to the stored count when the tip is unavailable', async () => {
+      blockchainService.getChainTip.mockRejectedValue(new Error('503 Service Unavailable'));
+
+      expect(await service.getFinality(150000, 8)).toEqual({ finality: 'final', confirmations: 8 });
+      expect(await service.getFinality(150000, 0)).toEqual({ finality: 'soft', confirmations: 1 });
+    });
+  });
+
+  describe('trackRegistration', () => {
+    it('should record confirmations for a transaction still on chain', async () => {
+      blockchainService.getTransactionStatus.mockResolvedValue({ txId: '0xabc', status: 'success', blockHeight: 150000 });
+
+      const outcome = await service.trackRegistration(registration('0xabc'), 150009);
+
+      expect(outcome).toBe('finalized');
+      expect(Registration.updateOne).toHaveBeenCalledWith(
+        { _id: 'registration-1', 'blockchain.status': 'confirmed' },
+        { $set: { 'blockchain.blockHeight': 150000, 'blockchain.confirmations': 10 } }
+      );
+      expect(VerificationCache.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should follow a transaction re-mined in another block', async () => {
+      blockchainService.getTransactionStatus.mockResolvedValue({ txId: '0xabc', status: 'success', blockHeight: 150007 });
+
+      const outcome = await service.trackRegistration(registration('0xabc'), 150009);
+
+      expect(outcome).toBe('updated');
+      expect(resolveBlockTime).toHaveBeenCalledWith(150007);
+      expect(Registration.updateOne).toHaveBeenCalledWith(
+        { _id: 'registration-1', 'blockchain.status': 'confirmed' },
+        {
+          $set: {
+            'blockchain.blockHeight': 150007,
+            'blockchain.confirmations': 3,
+            'blockchain.timestamp': new Date('2025-06-01T12:00:00Z')
+          }
+        }
+      );
+      expect(VerificationCache.deleteOne).toHaveBeenCalledWith({ contentHash: CONTENT_HASH });
+    });
+
+    it('should move a reorged transaction back to pending', async () => {
+      blockchainService.getTransactionStatus.mockResolvedValue({ txId: '0xabc', status: 'pending' });
+
+      const outcome = await service.trackRegistration(registration('0xabc'), 150009);
+
+      expect(outcome).toBe('reorged');
+      expect(Registration.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'registration-1', 'blockchain.status': 'confirmed' },
+        expect.objectContaining({
+          $set: { 'blockchain.status': 'pending', 'blockchain.confirmations': 0 }
+        }),
+        { new: true }
+      );
+      expect(User.findOneAndUpdate).toHaveBeenCalledWith(
+        { walletAddress: AUTHOR },
+        { $inc: { 'stats.confirmedRegistrations': -1, 'stats.pendingRegistrations': 1 } }
+      );
+      expect(VerificationCache.deleteOne).toHaveBeenCalledWith({ contentHash: CONTENT_HASH });
+    });
+
+    it('should move a transaction left in an orphaned block back to pending', async () => {
+      // The Stacks API keeps reporting success for it, flagged non-canonical
+      const txId = `0x${'ab'.repeat(32)}`;
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+        tx_id: txId,
+        tx_type: 'contract_call',
+        tx_status: 'success',
+        canonical: false,
+        microblock_canonical: true,
+        block_height: 150000,
+        contract_call: { contract_id: 'SP000000000000000000002Q6VF78.truth-chain', function_name: 'register-content' }
+      }), { status: 200 }));
+      const stacks = new BlockchainService({
+        network: 'mainnet',
+        deployments: [{
+          version: 'v1',
+          contractAddress: 'SP000000000000000000002Q6VF78',
+          contractName: 'truth-chain',
+          deployHeight: 0,
+          functions: ['register-content'],
+          status: 'active'
+        }]
+      });
+      blockchainService.getTransactionStatus.mockImplementation(id => stacks.getTransactionStatus(id));
+
+      const outcome = await service.trackRegistration(registration(txId), 150009);
+
+      expect(outcome).toBe('reorged');
+      expect(Registration.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'registration-1', 'blockchain.status': 'confirmed' },
+        expect.objectContaining({
+          $set: { 'blockchain.status': 'pending', 'blockchain.confirmations': 0 }
+        }),
+        { new: true }
+      );
+      expect(Registration.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should fail a transaction that aborted on the new fork', async () => {
+      blockchainService.getTransactionStatus.mockResolvedValue({
+        txId: '0xabc',
+        status: 'failed',
+        error: 'abort_by_response: (err u409)'
+      });
+
+      const outcome = await service.trackRegistration(registration('0xabc'), 150009);
+
+      expect(outcome).toBe('failed');
+      expect(User.findOneAndUpdate).toHaveBeenCalledWith(
+        { walletAddress: AUTHOR },
+        { $inc: { 'stats.confirmedRegistrations': -1, 'stats.failedRegistrations': 1 } }
+      );
+    });
+
+    it('should not move counters when another worker settled it first', async () => {
+      blockchainService.getTransactionStatus.mockResolvedValue({ txId: '0xabc', status: 'not_found' });
+      (Registration.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      expect(await service.trackRegistration(registration('0xabc'), 150009)).toBe('reorged');
+      expect(User.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should check the hash on chain when there is no transaction', async () => {
+      blockchainService.verifyContent.mockResolvedValue({
+        registration: { blockHeight: 150008 },
+        lookups: [],
+        complete: true
+      });
+
+      expect(await service.trackRegistration(registration(), 150009)).toBe('updated');
+    });
+
+    it('should check a thread tweet through the thread root', async () => {
+      const root = 'cd'.repeat(32);
+      blockchainService.verifyContent.mockResolvedValue({
+        registration: { blockHeight: 150008 },
+        lookups: [],
+        complete: true
+      });
+      const tweet = { ...registration(), thread: { root, size: 3, position: 2 } } as unknown as IRegistration;
+
+      expect(await service.trackRegistration(tweet, 150009)).toBe('updated');
+      expect(blockchainService.verifyContent).toHaveBeenCalledWith(Buffer.from(root, 'hex'));
+    });
+
+    it('should leave registrations alone when the lookup was incomplete', async () => {
+      blockchainService.verifyContent.mockResolvedValue({ registration: null, lookups: [], complete: false });
+
+      await expect(service.trackRegistration(registration(), 150009)).rejects.toThrow('Contract lookup incomplete');
+      expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
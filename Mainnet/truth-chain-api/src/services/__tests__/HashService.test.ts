@@ -0,0 +1,113 @@
+import { HashService, CANONICALIZATION_VERSIONS } from '../HashService';
+
+const ARTICLE = `  Stacks settles on Bitcoin.   Every block is anchored there.
+
+Registrations are hashes. The text never leaves the author!
+
+  "Is it private?" she asked. Yes…  it is.  `;
+
+describe('HashService', () => {
+  describe('canonicalize', () => {
+    it('should keep v1 to trimming and collapsing whitespace', () => {
+      expect(HashService.canonicalize('  Just launched\n\nmy startup!  🚀 ')).toBe('Just launched my startup! 🚀');
+      expect(HashService.canonicalize('caf\u0065\u0301\u200B https://t.co/abc123', 'v1')).toBe('caf\u0065\u0301\u200B https://t.co/abc123');
+    });
+
+    it('should hash with v1 by default so existing registrations keep verifying', () => {
+      expect(HashService.generateContentHashHex('Just launched my new startup! 🚀'))
+        .toBe(HashService.generateContentHashHex('Just launched my new startup! 🚀', 'v1'));
+    });
+
+    it('should compose decomposed characters under v2', () => {
+      expect(HashService.canonicalize('cafe\u0301', 'v2')).toBe('caf\u00e9');
+      expect(HashService.generateContentHashHex('cafe\u0301', 'v2')).toBe(HashService.generateContentHashHex('caf\u00e9', 'v2'));
+    });
+
+    it('should strip zero-width characters under v2', () => {
+      expect(HashService.canonicalize('\uFEFFhello\u200B wor\u200Dld\u2060', 'v2')).toBe('hello world');
+    });
+
+    it('should drop trailing t.co links and lowercase URL origins under v2', () => {
+      expect(HashService.canonicalize('Read HTTPS://Example.COM/Post?Id=1 now https://t.co/AbC123 https://t.co/x9', 'v2'))
+        .toBe('Read https://example.com/Post?Id=1 now');
+      expect(HashService.canonicalize('https://t.co/AbC123 in the middle', 'v2')).toBe('https://t.co/AbC123 in the middle');
+    });
+
+    it('should canonicalize long whitespace runs in linear time', () => {
+      const padding = ' '.repeat(200000);
+      const started = Date.now();
+
+      HashService.generateCanonicalHashes(`${padding}x${padding}https://t.co/abc${padding}`);
+      HashService.generateCanonicalHashes(`https://t.co/abc${padding}`.repeat(10));
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should only drop t.co links at the very end', () => {
+      expect(HashService.canonicalize('a https://t.co/x1 b https://t.co/x2 \n https://t.co/x3  ', 'v2')).toBe('a https://t.co/x1 b');
+      expect(HashService.canonicalize('https://t.co/x1', 'v2')).toBe('');
+    });
+
+    it('should list every version in generateCanonicalHashes', () => {
+      const hashes = HashService.generateCanonicalHashes('Hello\u200B world https://t.co/abc');
+
+      expect(hashes.map(entry => entry.version)).toEqual(CANONICALIZATION_VERSIONS);
+      expect(hashes[0]).toEqual({
+        version: 'v1',
+        canonical: 'Hello\u200B world https://t.co/abc',
+        hash: HashService.generateContentHashHex('Hello\u200B world https://t.co/abc', 'v1')
+      });
+      expect(hashes[1].canonical).toBe('Hello world');
+    });
+
+    it('should recognize known versions only', () => {
+      expect(HashService.isCanonicalizationVersion('v2')).toBe(true);
+      expect(HashService.isCanonicalizationVersion('v9')).toBe(false);
+      expect(HashService.isCanonicalizationVersion(2)).toBe(false);
+    });
+  });
+
+  describe('splitSegments', () => {
+    it('should split paragraphs on blank lines and normalize each', () => {
+      expect(HashService.splitSegments(ARTICLE, 'paragraph')).toEqual([
+        'Stacks settles on Bitcoin. Every block is anchored there.',
+        'Registrations are hashes. The text never leaves the author!',
+        '"Is it private?" she asked. Yes… it is.'
+      ]);
+    });
+
+    it('should split sentences across line breaks and closing quotes', () => {
+      expect(HashService.splitSegments(ARTICLE, 'sentence')).toEqual([
+        'Stacks settles on Bitcoin.',
+        'Every block is anchored there.',
+        'Registrations are hashes.',
+        'The text never leaves the author!',
+        '"Is it private?"',
+        'she asked.',
+        'Yes…',
+        'it is.'
+      ]);
+    });
+
+    it('should return no segments for blank content', () => {
+      expect(HashService.splitSegments(' \n\n  \n', 'paragraph')).toEqual([]);
+      expect(HashService.splitSegments('   ', 'sentence')).toEqual([]);
+    });
+  });
+
+  describe('generateSegmentHashes', () => {
+    it('should hash each segment like standalone content', () => {
+      const hashes = HashService.generateSegmentHashes(ARTICLE, 'paragraph');
+
+      expect(hashes).toHaveLength(3);
+      expect(hashes[1]).toBe(HashService.generateContentHashHex('Registrations are hashes.\nThe text never leaves the author!'));
+    });
+
+    it('should give an excerpt the same hashes regardless of its whitespace', () => {
+      const document = HashService.generateSegmentHashes(ARTICLE, 'sentence');
+      const excerpt = HashService.generateSegmentHashes('Registrations are hashes.\n   The text never leaves the author!', 'sentence');
+
+      expect(excerpt).toEqual(document.slice(2, 4));
+    });
+  });
+});
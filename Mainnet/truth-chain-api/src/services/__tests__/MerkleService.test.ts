@@ -0,0 +1,82 @@
+import * as crypto from 'crypto';
+import { MerkleService } from '../MerkleService';
+
+const contentHash = (n: number) => crypto.createHash('sha256').update(`content ${n}`).digest();
+const leaves = (count: number) => Array.from({ length: count }, (_, i) => contentHash(i));
+
+describe('MerkleService', () => {
+  it('should use the hashed leaf as the root of a single-leaf tree', () => {
+    const tree = MerkleService.buildTree(leaves(1));
+    const root = MerkleService.getRoot(tree);
+
+    expect(tree).toHaveLength(1);
+    expect(root.equals(contentHash(0))).toBe(false);
+    expect(MerkleService.getProof(tree, 0)).toEqual([]);
+    expect(MerkleService.verifyProof(contentHash(0), [], root)).toBe(true);
+  });
+
+  it('should prove every leaf of even and odd sized trees', () => {
+    for (const size of [2, 3, 4, 5, 8, 13]) {
+      const hashes = leaves(size);
+      const tree = MerkleService.buildTree(hashes);
+      const root = MerkleService.getRoot(tree);
+
+      hashes.forEach((hash, index) => {
+        const proof = MerkleService.getProof(tree, index);
+        expect(MerkleService.verifyProof(hash, proof, root)).toBe(true);
+      });
+    }
+  });
+
+  it('should carry a node without a sibling up unchanged', () => {
+    const tree = MerkleService.buildTree(leaves(3));
+
+    expect(tree.map(level => level.length)).toEqual([3, 2, 1]);
+    expect(tree[1][1].equals(tree[0][2])).toBe(true);
+    expect(MerkleService.getProof(tree, 2)).toEqual([
+      { position: 'left', hash: tree[1][0].toString('hex') }
+    ]);
+  });
+
+  it('should depend on leaf order', () => {
+    const hashes = leaves(4);
+    const root = MerkleService.getRoot(MerkleService.buildTree(hashes));
+    const swapped = MerkleService.getRoot(MerkleService.buildTree([hashes[1], hashes[0], hashes[2], hashes[3]]));
+
+    expect(root.equals(swapped)).toBe(false);
+  });
+
+  it('should reject tampered proofs and other content', () => {
+    const hashes = leaves(5);
+    const tree = MerkleService.buildTree(hashes);
+    const root = MerkleService.getRoot(tree);
+    const proof = MerkleService.getProof(tree, 1);
+
+    expect(MerkleService.verifyProof(contentHash(99), proof, root)).toBe(false);
+    expect(MerkleService.verifyProof(hashes[2], proof, root)).toBe(false);
+    expect(MerkleService.verifyProof(hashes[1], proof.slice(1), root)).toBe(false);
+    expect(MerkleService.verifyProof(
+      hashes[1],
+      proof.map((step, i) => i === 0 ? { ...step, position: step.position === 'left' ? 'right' : 'left' } : step),
+      root
+    )).toBe(false);
+    expect(MerkleService.verifyProof(hashes[1], [{ position: 'left', hash: 'abcd' }, ...proof.slice(1)], root)).toBe(false);
+  });
+
+  it('should not accept an inner node as a leaf', () => {
+    const tree = MerkleService.buildTree(leaves(4));
+    const root = MerkleService.getRoot(tree);
+
+    // Proving the left inner node as if it were content
+    const proof = [{ position: 'right' as const, hash: tree[1][1].toString('hex') }];
+    expect(MerkleService.verifyProof(tree[1][0], proof, root)).toBe(false);
+  });
+
+  it('should reject empty trees and out of range leaves', () => {
+    expect(() => MerkleService.buildTree([])).toThrow('without leaves');
+
+    const tree = MerkleService.buildTree(leaves(3));
+    expect(() => MerkleService.getProof(tree, 3)).toThrow('out of range');
+    expect(() => MerkleService.getProof(tree, -1)).toThrow('out of range');
+  });
+});
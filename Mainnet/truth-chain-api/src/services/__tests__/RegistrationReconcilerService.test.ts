@@ -0,0 +1,244 @@
+import { Registration, IRegistration } from '../../../../shared/models/Registration';
+import { User } from '../../../../shared/models/User';
+import { BlockchainService, RegistrationTransaction } from '../BlockchainService';
+import { RegistrationReconcilerService } from '../RegistrationReconcilerService';
+
+jest.mock('../../../../shared/models/Registration', () => ({
+  Registration: {
+    updateOne: jest.fn(),
+    findOneAndUpdate: jest.fn()
+  }
+}));
+
+jest.mock('../../../../shared/models/User', () => ({
+  User: { findOneAndUpdate: jest.fn() }
+}));
+
+const CONTENT_HASH = 'ab'.repeat(32);
+const THREAD_ROOT = 'cd'.repeat(32);
+const TX_ID = `0x${'12'.repeat(32)}`;
+const AUTHOR = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+const CONTRACT_ID = 'SP000000000000000000002Q6VF78.truth-chain';
+
+const registration = (overrides: Record<string, unknown> = {}) => ({
+  _id: 'registration-1',
+  contentHash: CONTENT_HASH,
+  authorWallet: AUTHOR,
+  createdAt: new Date(),
+  blockchain: { status: 'pending', txId: TX_ID },
+  ...overrides
+}) as unknown as IRegistration;
+
+const call = (overrides: Partial<RegistrationTransaction> = {}): RegistrationTransaction => ({
+  txId: TX_ID,
+  status: 'success',
+  blockHeight: 150000,
+  registrationId: 7,
+  contractId: CONTRACT_ID,
+  contractVersion: 'v2',
+  functionName: 'register-content',
+  sender: AUTHOR,
+  contentHash: CONTENT_HASH,
+  ...overrides
+});
+
+describe('RegistrationReconcilerService', () => {
+  let blockchainService: {
+    getRegistrationTransaction: jest.Mock;
+    getTransactionStatus: jest.Mock;
+    getDeployment: jest.Mock;
+    isRegistrationOf: BlockchainService['isRegistrationOf'];
+    verifyTweet: jest.Mock;
+    getBlockTimes: jest.Mock;
+  };
+  let service: RegistrationReconcilerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    blockchainService = {
+      getRegistrationTransaction: jest.fn(),
+      getTransactionStatus: jest.fn(),
+      getDeployment: jest.fn((contractId: string) => (contractId === CONTRACT_ID ? { contractId } : undefined)),
+      isRegistrationOf: BlockchainService.prototype.isRegistrationOf,
+      verifyTweet: jest.fn(),
+      getBlockTimes: jest.fn(() => ({ resolve: jest.fn().mockResolvedValue(null) }))
+    };
+    service = new RegistrationReconcilerService(blockchainService as unknown as BlockchainService);
+
+    (Registration.findOneAndUpdate as jest.Mock).mockImplementation(async () => registration());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should confirm a registration whose transaction registers its hash', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(call());
+
+    expect(await service.reconcileRegistration(registration())).toBe('confirmed');
+    expect(Registration.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'registration-1', 'blockchain.status': 'pending' },
+      expect.objectContaining({
+        $set: expect.objectContaining({ 'blockchain.status': 'confirmed', 'blockchain.registrationId': 7 })
+      }),
+      { new: true }
+    );
+    expect(User.findOneAndUpdate).toHaveBeenCalled();
+  });
+
+  it('should drop a txId that registers a different hash', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(call({ contentHash: 'ef'.repeat(32) }));
+
+    expect(await service.reconcileRegistration(registration())).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(Registration.updateOne).toHaveBeenCalledWith(
+      { _id: 'registration-1', 'blockchain.status': 'pending', 'blockchain.txId': TX_ID },
+      { $unset: { 'blockchain.txId': '' } }
+    );
+  });
+
+  it('should drop a txId that calls a contract we did not deploy', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(
+      call({ contractId: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.look-alike' })
+    );
+
+    expect(await service.reconcileRegistration(registration())).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(Registration.updateOne).toHaveBeenCalled();
+  });
+
+  it('should drop a txId that is not a register-content call', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(call({ functionName: 'transfer' }));
+
+    expect(await service.reconcileRegistration(registration())).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should drop a txId sent from another wallet', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(
+      call({ sender: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE' })
+    );
+
+    expect(await service.reconcileRegistration(registration())).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(Registration.updateOne).toHaveBeenCalled();
+  });
+
+  it('should drop a txId that is not a contract call', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(null);
+    blockchainService.getTransactionStatus.mockResolvedValue({ txId: TX_ID, status: 'success' });
+
+    expect(await service.reconcileRegistration(registration())).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(Registration.updateOne).toHaveBeenCalled();
+  });
+
+  it('should drop a txId that is not a transaction ID', async () => {
+    const malformed = registration({ blockchain: { status: 'pending', txId: '../v2/accounts' } });
+
+    expect(await service.reconcileRegistration(malformed)).toBe('pending');
+    expect(blockchainService.getRegistrationTransaction).not.toHaveBeenCalled();
+    expect(Registration.updateOne).toHaveBeenCalled();
+  });
+
+  it('should not fail a forged transaction against the registration', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(
+      call({ status: 'failed', contentHash: 'ef'.repeat(32), error: 'abort_by_response' })
+    );
+
+    expect(await service.reconcileRegistration(registration())).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should check thread tweets against the thread root', async () => {
+    const tweet = registration({ thread: { root: THREAD_ROOT, size: 3, position: 1 } });
+
+    blockchainService.getRegistrationTransaction.mockResolvedValue(call());
+    expect(await service.reconcileRegistration(tweet)).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+
+    blockchainService.getRegistrationTransaction.mockResolvedValue(call({ contentHash: THREAD_ROOT }));
+    expect(await service.reconcileRegistration(tweet)).toBe('confirmed');
+  });
+
+  it('should not count thread roots in the author\'s stats', async () => {
+    const root = registration({ contentHash: THREAD_ROOT, thread: { root: THREAD_ROOT, size: 3 } });
+    (Registration.findOneAndUpdate as jest.Mock).mockResolvedValue(root);
+    blockchainService.getRegistrationTransaction.mockResolvedValue(call({ contentHash: THREAD_ROOT }));
+
+    expect(await service.reconcileRegistration(root)).toBe('confirmed');
+    expect(User.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should confirm a registration without a txId once its hash is on chain', async () => {
+    blockchainService.verifyTweet.mockResolvedValue({
+      author: AUTHOR,
+      blockHeight: 150000,
+      registrationId: 7,
+      contractId: CONTRACT_ID,
+      contractVersion: 'v2'
+    });
+
+    expect(await service.reconcileRegistration(registration({ blockchain: { status: 'pending' } }))).toBe('confirmed');
+    expect(User.findOneAndUpdate).toHaveBeenCalled();
+  });
+
+  it('should fail a registration whose hash another wallet registered on chain', async () => {
+    const other = 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE';
+    blockchainService.verifyTweet.mockResolvedValue({
+      author: other,
+      blockHeight: 150000,
+      registrationId: 7,
+      contractId: CONTRACT_ID,
+      contractVersion: 'v2'
+    });
+
+    expect(await service.reconcileRegistration(registration({ blockchain: { status: 'pending' } }))).toBe('failed');
+    expect(Registration.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'registration-1', 'blockchain.status': 'pending' },
+      { $set: { 'blockchain.status': 'failed', 'blockchain.error': `Content was registered on chain by ${other}` } },
+      { new: true }
+    );
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ $set: expect.objectContaining({ 'blockchain.status': 'confirmed' }) }),
+      expect.anything()
+    );
+  });
+
+  it('should look batched hashes without a txId up by their batch root', async () => {
+    blockchainService.verifyTweet.mockResolvedValue(null);
+
+    const batched = registration({ blockchain: { status: 'pending' }, batch: { status: 'anchored', root: THREAD_ROOT } });
+    expect(await service.reconcileRegistration(batched)).toBe('pending');
+    expect(blockchainService.verifyTweet).toHaveBeenCalledWith(Buffer.from(THREAD_ROOT, 'hex'));
+  });
+
+  it('should accept batch roots registered by the service wallet', async () => {
+    const batched = registration({ batch: { status: 'anchored', root: THREAD_ROOT } });
+    blockchainService.getRegistrationTransaction.mockResolvedValue(
+      call({ contentHash: THREAD_ROOT, sender: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE' })
+    );
+
+    expect(await service.reconcileRegistration(batched)).toBe('confirmed');
+  });
+
+  it('should only fail unseen transactions after the grace period', async () => {
+    blockchainService.getRegistrationTransaction.mockResolvedValue(null);
+    blockchainService.getTransactionStatus.mockResolvedValue({ txId: TX_ID, status: 'not_found' });
+
+    expect(await service.reconcileRegistration(registration())).toBe('pending');
+    expect(Registration.findOneAndUpdate).not.toHaveBeenCalled();
+
+    const stale = registration({ createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) });
+    expect(await service.reconcileRegistration(stale)).toBe('failed');
+    expect(Registration.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'registration-1', 'blockchain.status': 'pending' },
+      { $set: { 'blockchain.status': 'failed', 'blockchain.error': 'Transaction not found on chain' } },
+      { new: true }
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { SignInWithStacksService, SignInWithStacksMessage } from '../SignInWithStacksService';
+
+const MAINNET_CHAIN_ID = 1;
+const TESTNET_CHAIN_ID = 2147483648;
+const ADDRESS = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+const NOW = new Date('2025-01-01T00:01:00.000Z');
+
+const baseMessage = (overrides: Partial<SignInWithStacksMessage> = {}): SignInWithStacksMessage => ({
+  domain: 'truth-chain.vercel.app',
+  address: ADDRESS,
+  ...SignInWithStacksService.getScopeFields('connection'),
+  uri: 'https://truth-chain.vercel.app',
+  version: '1',
+  chainId: MAINNET_CHAIN_ID,
+  nonce: '8f1c0d9e2b7a4f6c9d3e1a5b7c9d2e4f',
+  issuedAt: '2025-01-01T00:00:00.000Z',
+  expirationTime: '2025-01-01T00:05:00.000Z',
+  ...overrides
+});
+
+const expectations = {
+  domain: 'truth-chain.vercel.app',
+  uri: 'https://truth-chain.vercel.app',
+  chainId: MAINNET_CHAIN_ID,
+  address: ADDRESS,
+  now: NOW,
+  maxAgeMs: 5 * 60 * 1000
+};
+
+describe('SignInWithStacksService', () => {
+  describe('build and parse', () => {
+    it('should round-trip a message', () => {
+      const message = baseMessage();
+      const { message: parsed, error } = SignInWithStacksService.parse(SignInWithStacksService.build(message));
+
+      expect(error).toBeUndefined();
+      expect(parsed).toEqual({ ...message, notBefore: undefined });
+      expect(SignInWithStacksService.getScope(parsed!)).toBe('connection');
+    });
+
+    it('should round-trip a message without a statement or resources', () => {
+      const message = baseMessage({ statement: undefined, resources: undefined });
+      const { message: parsed } = SignInWithStacksService.parse(SignInWithStacksService.build(message));
+
+      expect(parsed?.statement).toBeUndefined();
+      expect(parsed?.resources).toBeUndefined();
+      expect(SignInWithStacksService.getScope(parsed!)).toBeUndefined();
+    });
+
+    it('should reject free-form text', () => {
+      const { error } = SignInWithStacksService.parse('TruthChain Authentication\n\nWallet: ' + ADDRESS);
+      expect(error).toBe('Missing sign-in header');
+    });
+
+    it('should reject a message missing the nonce', () => {
+      const text = SignInWithStacksService.build(baseMessage()).replace(/\nNonce: .*/, '');
+      expect(SignInWithStacksService.parse(text).error).toBe('Missing field: nonce');
+    });
+
+    it('should reject trailing content', () => {
+      const text = `${SignInWithStacksService.build(baseMessage())}\nExtra: line`;
+      expect(SignInWithStacksService.parse(text).error).toMatch(/Unexpected content/);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept a message issued by this API', () => {
+      expect(SignInWithStacksService.validate(baseMessage(), expectations)).toBeNull();
+    });
+
+    it('should reject a message bound to another domain', () => {
+      const error = SignInWithStacksService.validate(baseMessage({ domain: 'evil.example' }), expectations);
+      expect(error).toMatch(/bound to evil.example/);
+    });
+
+    it('should reject a message for another network', () => {
+      const error = SignInWithStacksService.validate(baseMessage({ chainId: TESTNET_CHAIN_ID }), expectations);
+      expect(error).toMatch(/chain/);
+    });
+
+    it('should reject a testnet address on mainnet', () => {
+      const address = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQ9H6DPR';
+      const error = SignInWithStacksService.validate(baseMessage({ address }), { ...expectations, address });
+      expect(error).toBe('Address is not a mainnet address');
+    });
+
+    it('should reject a message for a different wallet', () => {
+      const error = SignInWithStacksService.validate(
+        baseMessage({ address: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE' }),
+        expectations
+      );
+      expect(error).toBe('Message address does not match the wallet');
+    });
+
+    it('should reject an expired message', () => {
+      const error = SignInWithStacksService.validate(
+        baseMessage({ expirationTime: '2025-01-01T00:00:30.000Z' }),
+        expectations
+      );
+      expect(error).toBe('Message has expired');
+    });
+
+    it('should reject a message issued in the future', () => {
+      const error = SignInWithStacksService.validate(
+        baseMessage({ issuedAt: '2025-01-01T00:10:00.000Z', expirationTime: '2025-01-01T00:15:00.000Z' }),
+        expectations
+      );
+      expect(error).toBe('Message is issued in the future');
+    });
+
+    it('should reject a message without an expiration time', () => {
+      const error = SignInWithStacksService.validate(baseMessage({ expirationTime: undefined }), expectations);
+      expect(error).toBe('Message has no expiration time');
+    });
+  });
+
+  describe('getChainId', () => {
+    const network = process.env.NETWORK;
+
+    afterEach(() => {
+      if (network === undefined) delete process.env.NETWORK;
+      else process.env.NETWORK = network;
+    });
+
+    it('should default to mainnet like the rest of the API', () => {
+      delete process.env.NETWORK;
+      expect(SignInWithStacksService.getChainId()).toBe(MAINNET_CHAIN_ID);
+    });
+
+    it('should use testnet only when NETWORK is testnet', () => {
+      process.env.NETWORK = 'testnet';
+      expect(SignInWithStacksService.getChainId()).toBe(TESTNET_CHAIN_ID);
+    });
+  });
+
+  describe('isScope', () => {
+    it('should accept the supported scopes', () => {
+      expect(SignInWithStacksService.isScope('connection')).toBe(true);
+      expect(SignInWithStacksService.isScope('verification')).toBe(true);
+    });
+
+    it('should reject prototype keys', () => {
+      expect(SignInWithStacksService.isScope('toString')).toBe(false);
+      expect(SignInWithStacksService.isScope('__proto__')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { signMessageHashRsv, signStructuredData, privateKeyToPublic, publicKeyToAddress, AddressVersion } from '@stacks/transactions';
+import { hashMessage } from '@stacks/encryption';
+import { WalletSignatureService } from '../WalletSignatureService';
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const OTHER_PRIVATE_KEY = 'f5a31c1268a1e37d4edaa05c7d11183c5fbfdcdc48aae36ea4d8cd5cb709932801';
+
+const publicKey = privateKeyToPublic(PRIVATE_KEY) as string;
+const address = publicKeyToAddress(AddressVersion.TestnetSingleSig, publicKey);
+const otherPublicKey = privateKeyToPublic(OTHER_PRIVATE_KEY) as string;
+
+const challenge = `TruthChain Authentication\n\nSign this message to verify your wallet ownership.\n\nWallet: ${address}\nTimestamp: 1700000000000\nNonce: 7d4a1c3e`;
+
+function signLegacy(message: string, privateKey: string): string {
+  return signMessageHashRsv({ messageHash: Buffer.from(hashMessage(message)).toString('hex'), privateKey });
+}
+
+function signStructured(message: string, privateKey: string): string {
+  return signStructuredData({
+    ...WalletSignatureService.buildStructuredData(message, false),
+    privateKey
+  });
+}
+
+describe('WalletSignatureService', () => {
+  // Fixtures are testnet addresses and signatures
+  const network = process.env.NETWORK;
+
+  beforeAll(() => {
+    process.env.NETWORK = 'testnet';
+  });
+
+  afterAll(() => {
+    if (network === undefined) delete process.env.NETWORK;
+    else process.env.NETWORK = network;
+  });
+
+  describe('legacy message signatures', () => {
+    it('should accept a valid signature from the wallet key', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey,
+        message: challenge,
+        signature: signLegacy(challenge, PRIVATE_KEY)
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.networkAddress).toBe(address);
+    });
+
+    it('should reject a signature made by a different key', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey,
+        message: challenge,
+        signature: signLegacy(challenge, OTHER_PRIVATE_KEY)
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Signature does not match message');
+    });
+
+    it('should reject a malformed signature', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey,
+        message: challenge,
+        signature: 'deadbeef'
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject a valid signature presented with a different message', () => {
+      const signature = signLegacy(challenge, PRIVATE_KEY);
+      const swapped = challenge.replace('Nonce: 7d4a1c3e', 'Nonce: 00000000');
+
+      const result = WalletSignatureService.verify({ address, publicKey, message: swapped, signature });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Signature does not match message');
+    });
+
+    it('should reject a public key that does not derive to the address', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey: otherPublicKey,
+        message: challenge,
+        signature: signLegacy(challenge, OTHER_PRIVATE_KEY)
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Public key does not match address');
+    });
+  });
+
+  describe('structured (SIP-018) signatures', () => {
+    it('should accept a valid structured signature', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey,
+        message: challenge,
+        signature: signStructured(challenge, PRIVATE_KEY),
+        signatureType: 'structured'
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject a structured signature presented as a legacy one', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey,
+        message: challenge,
+        signature: signStructured(challenge, PRIVATE_KEY)
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject a structured signature over a different message', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey,
+        message: challenge,
+        signature: signStructured(`${challenge}\nExtra`, PRIVATE_KEY),
+        signatureType: 'structured'
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject a structured signature from a different key', () => {
+      const result = WalletSignatureService.verify({
+        address,
+        publicKey,
+        message: challenge,
+        signature: signStructured(challenge, OTHER_PRIVATE_KEY),
+        signatureType: 'structured'
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+});
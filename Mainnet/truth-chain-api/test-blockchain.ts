@@ -1,11 +1,11 @@
 import { BlockchainService } from './src/services/BlockchainService';
 import { HashService } from './src/services/HashService';
+import { ContractRegistry } from './src/services/ContractRegistry';
 
-// Test configuration - UPDATE WITH YOUR CONTRACT DETAILS
+// Test configuration - contracts come from src/config/contracts.json (or CONTRACT_REGISTRY_PATH)
 const config = {
-  contractAddress: 'ST3S9E18YKY18RQBR6WVZQ816C19R3FB3K3M0K3XX', // Replace with your address
-  contractName: 'truth-chain', // Replace with your contract name
-  network: 'testnet' as const
+  network: 'testnet' as const,
+  deployments: ContractRegistry.getDeployments('testnet')
 };
 
 async function testBlockchainService() {
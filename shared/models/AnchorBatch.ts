@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAnchorBatch extends Document {
+  status: 'building' | 'broadcasting' | 'submitted' | 'failed';  // Confirmation is tracked on the batch's registrations
+  root?: string;       // Merkle root registered on chain (hex)
+  leafCount: number;
+  txId?: string;       // Transaction registering the root (0x-prefixed), recorded before broadcast
+  contractId?: string; // Deployment the root was sent to
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AnchorBatchSchema = new Schema<IAnchorBatch>({
+  status: {
+    type: String,
+    enum: ['building', 'broadcasting', 'submitted', 'failed'],
+    default: 'building',
+    required: true,
+    index: true
+  },
+  root: {
+    type: String,
+    lowercase: true,
+    index: true,
+    sparse: true
+  },
+  leafCount: {
+    type: Number,
+    default: 0
+  },
+  txId: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  contractId: { type: String },
+  error: { type: String }
+}, {
+  timestamps: true,
+  collection: 'anchor_batches'
+});
+
+export const AnchorBatch = mongoose.model<IAnchorBatch>('AnchorBatch', AnchorBatchSchema);
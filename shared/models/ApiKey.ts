@@ -0,0 +1,151 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import * as crypto from 'crypto';
+
+export type ApiKeyScope = 'verify' | 'register' | 'read:registrations';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['verify', 'register', 'read:registrations'];
+
+export interface IApiKeyUsage {
+  totalRequests: number;
+  periodRequests: number;  // Requests in the current quota period
+  periodStart?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+}
+
+export interface IApiKey extends Document {
+  keyId: string;
+  name: string;
+  keyHash: string;  // SHA-256 of the secret key; the raw key is only shown once
+  keyPrefix: string;  // First characters of the key, to tell keys apart in listings
+  ownerWallet: string;
+  scopes: ApiKeyScope[];
+  dailyQuota: number;
+  usage: IApiKeyUsage;
+  active: boolean;
+  revokedAt?: Date;
+  rotatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IApiKeyModel extends mongoose.Model<IApiKey> {
+  findByKey(rawKey: string): Promise<IApiKey | null>;
+  consumeQuota(keyId: string, ip?: string): Promise<IApiKey | null>;
+}
+
+const KEY_PREFIX = 'tc_';
+
+/**
+ * Generate a new secret API key
+ */
+export const generateApiKey = (): string => `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export const hashApiKey = (rawKey: string): string =>
+  crypto.createHash('sha256').update(rawKey).digest('hex');
+
+const ApiKeyUsageSchema = new Schema<IApiKeyUsage>({
+  totalRequests: { type: Number, default: 0 },
+  periodRequests: { type: Number, default: 0 },
+  periodStart: { type: Date },
+  lastUsedAt: { type: Date },
+  lastUsedIp: { type: String }
+}, { _id: false });
+
+const ApiKeySchema = new Schema<IApiKey, IApiKeyModel>({
+  keyId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  keyPrefix: {
+    type: String,
+    required: true
+  },
+  ownerWallet: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true
+  },
+  scopes: {
+    type: [{ type: String, enum: API_KEY_SCOPES }],
+    required: true
+  },
+  dailyQuota: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  usage: {
+    type: ApiKeyUsageSchema,
+    default: () => ({})
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  revokedAt: { type: Date },
+  rotatedAt: { type: Date }
+}, {
+  timestamps: true,
+  collection: 'api_keys'
+});
+
+// Statics
+ApiKeySchema.statics.findByKey = function(rawKey: string) {
+  return this.findOne({ keyHash: hashApiKey(rawKey), active: true });
+};
+
+/**
+ * Atomically count one request against the key's daily quota
+ * Returns null when the quota for the current day is used up
+ */
+ApiKeySchema.statics.consumeQuota = async function(keyId: string, ip?: string) {
+  const now = new Date();
+  const periodMs = 24 * 60 * 60 * 1000;
+
+  // Start a fresh period if the previous one has lapsed
+  await this.updateOne(
+    {
+      keyId,
+      $or: [
+        { 'usage.periodStart': { $exists: false } },
+        { 'usage.periodStart': { $lt: new Date(now.getTime() - periodMs) } }
+      ]
+    },
+    { $set: { 'usage.periodStart': now, 'usage.periodRequests': 0 } }
+  );
+
+  return this.findOneAndUpdate(
+    {
+      keyId,
+      active: true,
+      $expr: { $lt: ['$usage.periodRequests', '$dailyQuota'] }
+    },
+    {
+      $inc: { 'usage.periodRequests': 1, 'usage.totalRequests': 1 },
+      $set: { 'usage.lastUsedAt': now, 'usage.lastUsedIp': ip }
+    },
+    { new: true }
+  );
+};
+
+export const ApiKey = (mongoose.models.ApiKey || mongoose.model<IApiKey, IApiKeyModel>(
+  'ApiKey',
+  ApiKeySchema
+)) as IApiKeyModel;
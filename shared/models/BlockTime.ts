@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IBlockTime extends Document {
+  network: 'mainnet' | 'testnet';
+  height: number;          // Stacks block height
+  hash: string;
+  blockTime: Date;         // Stacks block time
+  burnBlockTime: Date;     // Time of the Bitcoin block it was anchored in
+  burnBlockHeight: number;
+  createdAt: Date;
+}
+
+const BlockTimeSchema = new Schema<IBlockTime>({
+  network: {
+    type: String,
+    enum: ['mainnet', 'testnet'],
+    required: true
+  },
+  height: {
+    type: Number,
+    required: true
+  },
+  hash: {
+    type: String,
+    required: true
+  },
+  blockTime: {
+    type: Date,
+    required: true
+  },
+  burnBlockTime: {
+    type: Date,
+    required: true
+  },
+  burnBlockHeight: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'block_times',
+  versionKey: false
+});
+
+BlockTimeSchema.index({ network: 1, height: 1 }, { unique: true });
+
+export const BlockTime = mongoose.model<IBlockTime>('BlockTime', BlockTimeSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IChallenge extends Document {
+  nonce: string;
+  address: string;
+  message: string;  // Exact Sign-In With Stacks text the wallet must sign
+  scope: 'connection' | 'verification';
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface IChallengeModel extends mongoose.Model<IChallenge> {
+  consume(address: string, message: string): Promise<IChallenge | null>;
+}
+
+const ChallengeSchema = new Schema<IChallenge, IChallengeModel>({
+  nonce: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  address: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  scope: {
+    type: String,
+    enum: ['connection', 'verification'],
+    default: 'connection'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'auth_challenges'
+});
+
+// Lookup by the signed message during login
+ChallengeSchema.index({ address: 1, message: 1 });
+
+// TTL index to automatically delete expired challenges
+ChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Statics
+/**
+ * Atomically take an unexpired challenge so it can only be used once,
+ * even with several API instances behind a load balancer
+ */
+ChallengeSchema.statics.consume = function(address: string, message: string) {
+  return this.findOneAndDelete({
+    address,
+    message,
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+export const Challenge = (mongoose.models.Challenge || mongoose.model<IChallenge, IChallengeModel>(
+  'Challenge',
+  ChallengeSchema
+)) as IChallengeModel;
@@ -0,0 +1,37 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIndexerCursor extends Document {
+  network: 'mainnet' | 'testnet';
+  contractId: string;       // Contract being indexed (`address.name`)
+  offset: number;           // Transactions indexed so far, counted from the contract's oldest
+  lastBlockHeight?: number; // Block of the last indexed transaction
+  lastTxId?: string;
+  updatedAt: Date;
+}
+
+const IndexerCursorSchema = new Schema<IIndexerCursor>({
+  network: {
+    type: String,
+    enum: ['mainnet', 'testnet'],
+    required: true
+  },
+  contractId: {
+    type: String,
+    required: true
+  },
+  offset: {
+    type: Number,
+    required: true,
+    default: 0
+  },
+  lastBlockHeight: { type: Number },
+  lastTxId: { type: String }
+}, {
+  timestamps: { createdAt: false, updatedAt: true },
+  collection: 'indexer_cursors',
+  versionKey: false
+});
+
+IndexerCursorSchema.index({ network: 1, contractId: 1 }, { unique: true });
+
+export const IndexerCursor = mongoose.model<IIndexerCursor>('IndexerCursor', IndexerCursorSchema);
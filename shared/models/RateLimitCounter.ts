@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRateLimitCounter extends Document {
+  limiter: string;  // Which limiter the counter belongs to (auth, registration, ...)
+  key: string;      // Client identity from the limiter's key generator
+  hits: number;
+  resetTime: Date;
+}
+
+export interface IRateLimitCounterModel extends mongoose.Model<IRateLimitCounter> {
+  hit(limiter: string, key: string, windowMs: number): Promise<IRateLimitCounter>;
+  getTopConsumers(limiter?: string, limit?: number): Promise<Array<{
+    limiter: string;
+    key: string;
+    hits: number;
+    resetTime: Date;
+  }>>;
+}
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter, IRateLimitCounterModel>({
+  limiter: {
+    type: String,
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  hits: {
+    type: Number,
+    default: 0
+  },
+  resetTime: {
+    type: Date,
+    required: true
+  }
+}, {
+  collection: 'rate_limits',
+  versionKey: false
+});
+
+RateLimitCounterSchema.index({ limiter: 1, key: 1 }, { unique: true });
+RateLimitCounterSchema.index({ limiter: 1, hits: -1 });
+
+// TTL index to automatically delete counters once their window has ended
+RateLimitCounterSchema.index({ resetTime: 1 }, { expireAfterSeconds: 0 });
+
+// Statics
+/**
+ * Atomically count a hit, starting a new window if the current one has ended
+ * (the TTL monitor only runs once a minute, so expired documents can linger)
+ */
+RateLimitCounterSchema.statics.hit = async function(limiter: string, key: string, windowMs: number) {
+  const now = new Date();
+  const windowActive = { $gt: ['$resetTime', now] };
+
+  const update = [{
+    $set: {
+      hits: { $cond: [windowActive, { $add: ['$hits', 1] }, 1] },
+      resetTime: { $cond: [windowActive, '$resetTime', new Date(now.getTime() + windowMs)] }
+    }
+  }];
+
+  try {
+    return await this.findOneAndUpdate({ limiter, key }, update, { upsert: true, new: true });
+  } catch (error: any) {
+    // Two instances inserted the same new counter at once - the retry updates the winner's document
+    if (error?.code === 11000) {
+      return this.findOneAndUpdate({ limiter, key }, update, { upsert: true, new: true });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Clients with the most hits in their current window, up to `limit` per limiter
+ * Without a limiter each one is queried on its own, so a busy limiter can't crowd out the rest
+ */
+RateLimitCounterSchema.statics.getTopConsumers = async function(limiter?: string, limit: number = 20) {
+  const active = { resetTime: { $gt: new Date() } };
+  const limiters: string[] = limiter ? [limiter] : await this.distinct('limiter', active);
+
+  const perLimiter = await Promise.all(limiters.map(name =>
+    this.find({ ...active, limiter: name })
+      .sort({ hits: -1 })
+      .limit(limit)
+      .select({ _id: 0, limiter: 1, key: 1, hits: 1, resetTime: 1 })
+      .lean()
+  ));
+
+  return perLimiter.flat();
+};
+
+export const RateLimitCounter = (mongoose.models.RateLimitCounter || mongoose.model<IRateLimitCounter, IRateLimitCounterModel>(
+  'RateLimitCounter',
+  RateLimitCounterSchema
+)) as IRateLimitCounterModel;
@@ -10,6 +10,16 @@ export interface IContentData {
   videoUrl?: string;
   title?: string;
   author?: string;
+  canonicalization?: 'v1' | 'v2';  // HashService canonicalization the hash was computed with
+  // Binary uploads (hash is over the raw file bytes)
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  // Segmented registrations: the content hash is a Merkle root over these segment hashes
+  segments?: {
+    mode: 'paragraph' | 'sentence';
+    hashes: string[];  // One per segment, in document order (hex)
+  };
 }
 
 export interface IBlockchainData {
@@ -20,6 +30,11 @@ export interface IBlockchainData {
   confirmations?: number;
   timestamp?: Date;
   error?: string;
+  lastCheckedAt?: Date;  // Last time the reconciler looked this registration up on chain
+  sponsored?: boolean;  // Fee paid by the server sponsor key
+  sponsoring?: boolean;  // Claimed by a sponsored broadcast that has not recorded its txId yet
+  contractId?: string;  // Deployment holding the registration (`address.name`)
+  contractVersion?: string;  // Its version in the contract registry (v1, v2, v3, ...)
 }
 
 export interface IIPFSData {
@@ -30,6 +45,30 @@ export interface IIPFSData {
   uploadedAt?: Date;
 }
 
+export interface IMerkleProofStep {
+  position: 'left' | 'right';  // Side the sibling sits on
+  hash: string;                // Sibling node (hex)
+}
+
+// Registrations anchored through a Merkle root instead of their own contract call
+export interface IBatchData {
+  status: 'queued' | 'anchoring' | 'anchored';
+  batchId?: mongoose.Types.ObjectId;  // AnchorBatch the hash was claimed by
+  root?: string;                      // Merkle root registered on chain (hex)
+  leafIndex?: number;
+  proof?: IMerkleProofStep[];         // Sibling hashes from the leaf up to the root
+}
+
+// Tweets registered together as a thread under one Merkle root
+// The parent registration's content hash is the root; each tweet gets a child registration
+export interface IThreadData {
+  root: string;                         // Merkle root over the tweet hashes (hex)
+  size: number;                         // Tweets in the thread
+  parentId?: mongoose.Types.ObjectId;   // Children only: the root's registration
+  position?: number;                    // Children only: 1 for the opening tweet
+  proof?: IMerkleProofStep[];           // Children only: sibling hashes from the tweet up to the root
+}
+
 export interface IAnalytics {
   views: number;
   verifications: number;
@@ -51,17 +90,26 @@ export interface IRegistration extends Document {
   content: IContentData;
   blockchain: IBlockchainData;
   ipfs: IIPFSData;
+  batch?: IBatchData;
+  thread?: IThreadData;
   analytics: IAnalytics;
   metadata: {
     userAgent?: string;
     ipAddress?: string;
-    source: 'extension' | 'web' | 'mobile' | 'api';
+    source: 'extension' | 'web' | 'mobile' | 'api' | 'chain';  // chain: found by the indexer, not registered through us
     platform?: string;
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface IRegistrationModel extends mongoose.Model<IRegistration> {
+  findByWallet(walletAddress: string): mongoose.Query<IRegistration[], IRegistration>;
+  findByHash(contentHash: string): mongoose.Query<IRegistration | null, IRegistration>;
+  findByTxId(txId: string): mongoose.Query<IRegistration | null, IRegistration>;
+  getPendingRegistrations(): mongoose.Query<IRegistration[], IRegistration>;
+}
+
 const ContentDataSchema = new Schema<IContentData>({
   type: {
     type: String,
@@ -75,7 +123,22 @@ const ContentDataSchema = new Schema<IContentData>({
   imageUrl: { type: String },
   videoUrl: { type: String },
   title: { type: String },
-  author: { type: String }
+  author: { type: String },
+  canonicalization: {
+    type: String,
+    enum: ['v1', 'v2'],
+    default: 'v1'  // Registrations made before versioning were all v1
+  },
+  fileName: { type: String },
+  mimeType: { type: String },
+  size: { type: Number },
+  segments: {
+    type: new Schema({
+      mode: { type: String, enum: ['paragraph', 'sentence'], required: true },
+      hashes: { type: [String], required: true }
+    }, { _id: false }),
+    default: undefined
+  }
 }, { _id: false });
 
 const BlockchainDataSchema = new Schema<IBlockchainData>({
@@ -90,7 +153,12 @@ const BlockchainDataSchema = new Schema<IBlockchainData>({
   blockHeight: { type: Number },
   confirmations: { type: Number, default: 0 },
   timestamp: { type: Date },
-  error: { type: String }
+  error: { type: String },
+  lastCheckedAt: { type: Date },
+  sponsored: { type: Boolean },
+  sponsoring: { type: Boolean },
+  contractId: { type: String },
+  contractVersion: { type: String }
 }, { _id: false });
 
 const IPFSDataSchema = new Schema<IIPFSData>({
@@ -101,6 +169,34 @@ const IPFSDataSchema = new Schema<IIPFSData>({
   uploadedAt: { type: Date }
 }, { _id: false });
 
+const BatchDataSchema = new Schema<IBatchData>({
+  status: {
+    type: String,
+    enum: ['queued', 'anchoring', 'anchored'],
+    required: true
+  },
+  batchId: { type: Schema.Types.ObjectId, ref: 'AnchorBatch' },
+  root: { type: String, lowercase: true },
+  leafIndex: { type: Number },
+  proof: [{
+    _id: false,
+    position: { type: String, enum: ['left', 'right'], required: true },
+    hash: { type: String, required: true }
+  }]
+}, { _id: false });
+
+const ThreadDataSchema = new Schema<IThreadData>({
+  root: { type: String, lowercase: true, required: true },
+  size: { type: Number, required: true },
+  parentId: { type: Schema.Types.ObjectId, ref: 'Registration' },
+  position: { type: Number },
+  proof: [{
+    _id: false,
+    position: { type: String, enum: ['left', 'right'], required: true },
+    hash: { type: String, required: true }
+  }]
+}, { _id: false });
+
 const AnalyticsSchema = new Schema<IAnalytics>({
   views: { type: Number, default: 0 },
   verifications: { type: Number, default: 0 },
@@ -108,7 +204,7 @@ const AnalyticsSchema = new Schema<IAnalytics>({
   lastVerified: { type: Date }
 }, { _id: false });
 
-const RegistrationSchema = new Schema<IRegistration>({
+const RegistrationSchema = new Schema<IRegistration, IRegistrationModel>({
   contentHash: {
     type: String,
     required: true,
@@ -157,6 +253,12 @@ const RegistrationSchema = new Schema<IRegistration>({
     type: IPFSDataSchema,
     default: () => ({ pinned: false })
   },
+  batch: {
+    type: BatchDataSchema
+  },
+  thread: {
+    type: ThreadDataSchema
+  },
   analytics: {
     type: AnalyticsSchema,
     default: () => ({ views: 0, verifications: 0 })
@@ -166,7 +268,7 @@ const RegistrationSchema = new Schema<IRegistration>({
     ipAddress: { type: String },
     source: {
       type: String,
-      enum: ['extension', 'web', 'mobile', 'api'],
+      enum: ['extension', 'web', 'mobile', 'api', 'chain'],
       required: true
     },
     platform: { type: String }
@@ -182,6 +284,10 @@ RegistrationSchema.index({ 'blockchain.status': 1, createdAt: -1 });
 RegistrationSchema.index({ 'blockchain.txId': 1 }, { sparse: true });
 RegistrationSchema.index({ 'content.type': 1, createdAt: -1 });
 RegistrationSchema.index({ createdAt: -1 });
+RegistrationSchema.index({ 'batch.status': 1, createdAt: 1 }, { sparse: true });
+RegistrationSchema.index({ 'batch.batchId': 1 }, { sparse: true });
+RegistrationSchema.index({ 'thread.parentId': 1, 'thread.position': 1 }, { sparse: true });
+RegistrationSchema.index({ 'content.segments.hashes': 1 }, { sparse: true });
 
 // Methods
 RegistrationSchema.methods.updateBlockchainStatus = function(
@@ -228,8 +334,10 @@ RegistrationSchema.statics.findByTxId = function(txId: string) {
 };
 
 RegistrationSchema.statics.getPendingRegistrations = function() {
-  return this.find({ 'blockchain.status': 'pending' })
-    .sort({ createdAt: 1 });
+  // Least recently checked first so unresolved entries don't starve the rest
+  // Hashes still waiting for a batch have nothing on chain to check yet
+  return this.find({ 'blockchain.status': 'pending', 'batch.status': { $nin: ['queued', 'anchoring'] } })
+    .sort({ 'blockchain.lastCheckedAt': 1, createdAt: 1 });
 };
 
-export const Registration = (mongoose.models.Registration || mongoose.model<IRegistration>('Registration', RegistrationSchema)) as mongoose.Model<IRegistration>;
+export const Registration = (mongoose.models.Registration || mongoose.model<IRegistration, IRegistrationModel>('Registration', RegistrationSchema)) as IRegistrationModel;
@@ -0,0 +1,163 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import * as crypto from 'crypto';
+
+export interface IAuthSession extends Document {
+  sessionId: string;
+  walletAddress: string;
+  source: 'extension' | 'web' | 'mobile';
+  walletType?: string;
+  publicKey?: string;
+  network?: string;
+  walletVerified: boolean;  // Created by a signed wallet login, not just a claimed address
+  scope?: 'connection' | 'verification';  // Sign-in scope from the signed challenge
+  active: boolean;
+  // Tokens are stored as SHA-256 hashes; the raw values only go to the client
+  accessTokenHash?: string;
+  accessTokenExpiresAt?: Date;
+  refreshTokenHash?: string;
+  previousRefreshTokenHash?: string;  // Last rotated-out refresh token, to detect reuse
+  expiresAt: Date;  // End of the session (refresh token lifetime)
+  lastActivity: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IAuthSessionModel extends mongoose.Model<IAuthSession> {
+  findActive(sessionId: string): Promise<IAuthSession | null>;
+  findByAccessToken(accessToken: string): Promise<IAuthSession | null>;
+  rotateRefreshToken(refreshToken: string, next: SessionTokens): Promise<IAuthSession | null>;
+  invalidate(sessionId: string): Promise<IAuthSession | null>;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string;
+}
+
+/**
+ * Generate a random bearer token
+ */
+export const generateSessionToken = (): string => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Hash a bearer token for storage and lookup
+ */
+export const hashSessionToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const SessionSchema = new Schema<IAuthSession, IAuthSessionModel>({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  walletAddress: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true
+  },
+  source: {
+    type: String,
+    enum: ['extension', 'web', 'mobile'],
+    required: true
+  },
+  walletType: { type: String },
+  publicKey: { type: String },
+  network: { type: String },
+  walletVerified: {
+    type: Boolean,
+    default: false
+  },
+  scope: {
+    type: String,
+    enum: ['connection', 'verification']
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  accessTokenHash: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+  accessTokenExpiresAt: { type: Date },
+  refreshTokenHash: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+  previousRefreshTokenHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  lastActivity: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true,
+  collection: 'auth_sessions'
+});
+
+// TTL index to automatically delete expired sessions
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Statics
+SessionSchema.statics.findActive = function(sessionId: string) {
+  return this.findOne({
+    sessionId,
+    active: true,
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+SessionSchema.statics.findByAccessToken = function(accessToken: string) {
+  return this.findOne({ accessTokenHash: hashSessionToken(accessToken) });
+};
+
+/**
+ * Atomically swap a refresh token for a new access/refresh pair
+ * Returns null when the refresh token is unknown, already rotated or the session ended
+ */
+SessionSchema.statics.rotateRefreshToken = function(refreshToken: string, next: SessionTokens) {
+  const refreshTokenHash = hashSessionToken(refreshToken);
+
+  return this.findOneAndUpdate(
+    {
+      refreshTokenHash,
+      active: true,
+      expiresAt: { $gt: new Date() }
+    },
+    {
+      $set: {
+        accessTokenHash: hashSessionToken(next.accessToken),
+        accessTokenExpiresAt: next.accessTokenExpiresAt,
+        refreshTokenHash: hashSessionToken(next.refreshToken),
+        previousRefreshTokenHash: refreshTokenHash,
+        lastActivity: new Date()
+      }
+    },
+    { new: true }
+  );
+};
+
+SessionSchema.statics.invalidate = function(sessionId: string) {
+  return this.findOneAndUpdate(
+    { sessionId },
+    { $set: { active: false } },
+    { new: true }
+  );
+};
+
+export const Session = (mongoose.models.Session || mongoose.model<IAuthSession, IAuthSessionModel>(
+  'Session',
+  SessionSchema
+)) as IAuthSessionModel;
@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITokenBucket extends Document {
+  limiter: string;   // Which cost limiter the bucket belongs to (verification, ...)
+  key: string;       // Client identity from the limiter's key generator
+  tokens: number;    // Tokens left at refilledAt; negative when the last request overdrew the bucket
+  refilledAt: Date;
+  expiresAt: Date;   // When the bucket is full again and the document can go
+}
+
+export interface TokenBucketPolicy {
+  capacity: number;
+  refillPerMs: number;
+}
+
+export interface ITokenBucketModel extends mongoose.Model<ITokenBucket> {
+  take(limiter: string, key: string, cost: number, policy: TokenBucketPolicy): Promise<ITokenBucket>;
+}
+
+const TokenBucketSchema = new Schema<ITokenBucket, ITokenBucketModel>({
+  limiter: {
+    type: String,
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  tokens: {
+    type: Number,
+    required: true
+  },
+  refilledAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  collection: 'rate_limit_buckets',
+  versionKey: false
+});
+
+TokenBucketSchema.index({ limiter: 1, key: 1 }, { unique: true });
+
+// TTL index to drop buckets once they have refilled completely
+TokenBucketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Statics
+/**
+ * Atomically refill a bucket for the time since it was last used, then take `cost` tokens
+ * A missing bucket starts full.
+ */
+TokenBucketSchema.statics.take = async function(
+  limiter: string,
+  key: string,
+  cost: number,
+  policy: TokenBucketPolicy
+) {
+  const now = new Date();
+  const { capacity, refillPerMs } = policy;
+
+  const refilled = {
+    $min: [
+      capacity,
+      {
+        $add: [
+          { $ifNull: ['$tokens', capacity] },
+          { $multiply: [{ $subtract: [now, { $ifNull: ['$refilledAt', now] }] }, refillPerMs] }
+        ]
+      }
+    ]
+  };
+
+  const update = [
+    { $set: { tokens: { $subtract: [refilled, cost] }, refilledAt: now } },
+    {
+      $set: {
+        expiresAt: {
+          $add: [now, { $ceil: { $divide: [{ $subtract: [capacity, '$tokens'] }, refillPerMs] } }]
+        }
+      }
+    }
+  ];
+
+  try {
+    return await this.findOneAndUpdate({ limiter, key }, update, { upsert: true, new: true });
+  } catch (error: any) {
+    // Two instances created the same bucket at once - the retry updates the winner's document
+    if (error?.code === 11000) {
+      return this.findOneAndUpdate({ limiter, key }, update, { upsert: true, new: true });
+    }
+    throw error;
+  }
+};
+
+export const TokenBucket = (mongoose.models.TokenBucket || mongoose.model<ITokenBucket, ITokenBucketModel>(
+  'TokenBucket',
+  TokenBucketSchema
+)) as ITokenBucketModel;
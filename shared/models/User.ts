@@ -1,9 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { Session } from './Session';
 
 export interface ISession {
   sessionId: string;
   source: 'extension' | 'web' | 'mobile';
   walletType?: string;
+  platform?: string;
   createdAt: Date;
   expiresAt: Date;
   lastActivity: Date;
@@ -20,6 +22,13 @@ export interface IUserStats {
   lastVerification?: Date;
 }
 
+export interface ISponsorship {
+  totalSponsored: number;
+  periodSponsored: number;  // Sponsored transactions in the current quota period
+  periodStart?: Date;
+  lastSponsoredAt?: Date;
+}
+
 export interface IUser extends Document {
   walletAddress: string;
   walletType?: 'xverse' | 'leather' | 'hiro' | 'other';
@@ -28,6 +37,7 @@ export interface IUser extends Document {
   email?: string;
   sessions: ISession[];
   stats: IUserStats;
+  sponsorship: ISponsorship;
   preferences: {
     notifications: boolean;
     publicProfile: boolean;
@@ -48,10 +58,16 @@ export interface IUser extends Document {
   cleanExpiredSessions(): Promise<IUser>;
 }
 
+export interface IUserModel extends mongoose.Model<IUser> {
+  consumeSponsorship(walletAddress: string, quota: number, periodMs: number): Promise<IUser | null>;
+  refundSponsorship(walletAddress: string): Promise<IUser | null>;
+}
+
 const SessionSchema = new Schema<ISession>({
   sessionId: { type: String, required: true, index: true },
   source: { type: String, enum: ['extension', 'web', 'mobile'], required: true },
   walletType: { type: String },
+  platform: { type: String },
   createdAt: { type: Date, default: Date.now },
   expiresAt: { type: Date, required: true },
   lastActivity: { type: Date, default: Date.now },
@@ -68,7 +84,14 @@ const UserStatsSchema = new Schema<IUserStats>({
   lastVerification: { type: Date }
 }, { _id: false });
 
-const UserSchema = new Schema<IUser>({
+const SponsorshipSchema = new Schema<ISponsorship>({
+  totalSponsored: { type: Number, default: 0 },
+  periodSponsored: { type: Number, default: 0 },
+  periodStart: { type: Date },
+  lastSponsoredAt: { type: Date }
+}, { _id: false });
+
+const UserSchema = new Schema<IUser, IUserModel>({
   walletAddress: {
     type: String,
     required: true,
@@ -108,6 +131,10 @@ const UserSchema = new Schema<IUser>({
       totalVerifications: 0
     })
   },
+  sponsorship: {
+    type: SponsorshipSchema,
+    default: () => ({ totalSponsored: 0, periodSponsored: 0 })
+  },
   preferences: {
     notifications: { type: Boolean, default: true },
     publicProfile: { type: Boolean, default: false },
@@ -135,6 +162,7 @@ UserSchema.methods.addSession = function(session: Partial<ISession>) {
     sessionId: session.sessionId!,
     source: session.source!,
     walletType: session.walletType,
+    platform: session.platform,
     createdAt: new Date(),
     expiresAt: session.expiresAt!,
     lastActivity: new Date(),
@@ -144,11 +172,13 @@ UserSchema.methods.addSession = function(session: Partial<ISession>) {
   return this.save();
 };
 
-UserSchema.methods.invalidateSession = function(sessionId: string) {
+UserSchema.methods.invalidateSession = async function(sessionId: string) {
   const session = this.sessions.find((s: ISession) => s.sessionId === sessionId);
   if (session) {
     session.active = false;
   }
+  // Also revoke the token itself so requireAuth stops accepting it
+  await Session.invalidate(sessionId);
   return this.save();
 };
 
@@ -158,4 +188,52 @@ UserSchema.methods.cleanExpiredSessions = function() {
   return this.save();
 };
 
-export const User = (mongoose.models.User || mongoose.model<IUser>('User', UserSchema)) as mongoose.Model<IUser>;
+// Statics
+/**
+ * Atomically take one sponsored transaction from the wallet's quota
+ * Returns null when the quota for the current period is used up
+ */
+UserSchema.statics.consumeSponsorship = async function(walletAddress: string, quota: number, periodMs: number) {
+  const now = new Date();
+  const normalizedAddress = walletAddress.toUpperCase();
+
+  // Start a fresh period if the previous one has lapsed
+  await this.updateOne(
+    {
+      walletAddress: normalizedAddress,
+      $or: [
+        { 'sponsorship.periodStart': { $exists: false } },
+        { 'sponsorship.periodStart': { $lt: new Date(now.getTime() - periodMs) } }
+      ]
+    },
+    { $set: { 'sponsorship.periodStart': now, 'sponsorship.periodSponsored': 0 } }
+  );
+
+  return this.findOneAndUpdate(
+    {
+      walletAddress: normalizedAddress,
+      $or: [
+        { 'sponsorship.periodSponsored': { $exists: false } },
+        { 'sponsorship.periodSponsored': { $lt: quota } }
+      ]
+    },
+    {
+      $inc: { 'sponsorship.periodSponsored': 1, 'sponsorship.totalSponsored': 1 },
+      $set: { 'sponsorship.lastSponsoredAt': now }
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Give back a quota slot taken for a sponsorship that never broadcast
+ */
+UserSchema.statics.refundSponsorship = function(walletAddress: string) {
+  return this.findOneAndUpdate(
+    { walletAddress: walletAddress.toUpperCase(), 'sponsorship.periodSponsored': { $gt: 0 } },
+    { $inc: { 'sponsorship.periodSponsored': -1, 'sponsorship.totalSponsored': -1 } },
+    { new: true }
+  );
+};
+
+export const User = (mongoose.models.User || mongoose.model<IUser, IUserModel>('User', UserSchema)) as IUserModel;
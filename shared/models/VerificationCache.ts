@@ -3,12 +3,16 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface IVerificationResult {
   isRegistered: boolean;
   registrationDate?: Date;
+  timestampSource?: 'chain' | 'database';  // Block header time, or a date from our own records
   authorWallet?: string;
   bnsName?: string;  // Added: BNS name from registration
   bnsStatus?: 'valid' | 'transferred' | 'no-longer-owned';  // Added: BNS validation status
+  contentType?: string;  // Registration content type (tweet, article, ...)
   txId?: string;
   blockHeight?: number;
   ipfsCid?: string;
+  contractId?: string;  // Deployment the registration was found in
+  contractVersion?: string;
 }
 
 export interface IVerificationCache extends Document {
@@ -24,6 +28,7 @@ export interface IVerificationCache extends Document {
 const VerificationResultSchema = new Schema<IVerificationResult>({
   isRegistered: { type: Boolean, required: true },
   registrationDate: { type: Date },
+  timestampSource: { type: String, enum: ['chain', 'database'] },
   authorWallet: { type: String, uppercase: true },
   bnsName: { type: String },  // Added: BNS name from registration
   bnsStatus: { 
@@ -31,9 +36,12 @@ const VerificationResultSchema = new Schema<IVerificationResult>({
     enum: ['valid', 'transferred', 'no-longer-owned'],
     default: 'valid'
   },
+  contentType: { type: String },
   txId: { type: String },
   blockHeight: { type: Number },
-  ipfsCid: { type: String }
+  ipfsCid: { type: String },
+  contractId: { type: String },
+  contractVersion: { type: String }
 }, { _id: false });
 
 const VerificationCacheSchema = new Schema<IVerificationCache>({
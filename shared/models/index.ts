@@ -1,5 +1,13 @@
 // Export all models from a single entry point
-export { User, IUser, ISession, IUserStats } from './User';
-export { Registration, IRegistration, IContentData, IBlockchainData, IIPFSData, IAnalytics } from './Registration';
+export { User, IUser, IUserModel, ISession, IUserStats, ISponsorship } from './User';
+export { Registration, IRegistration, IRegistrationModel, IContentData, IBlockchainData, IIPFSData, IBatchData, IMerkleProofStep, IThreadData, IAnalytics } from './Registration';
 export { VerificationCache, IVerificationCache, IVerificationResult } from './VerificationCache';
 export { Analytics, IAnalyticsEntry, IDailyStats } from './Analytics';
+export { Session, IAuthSession, IAuthSessionModel, SessionTokens, generateSessionToken, hashSessionToken } from './Session';
+export { Challenge, IChallenge, IChallengeModel } from './Challenge';
+export { ApiKey, IApiKey, IApiKeyModel, IApiKeyUsage, ApiKeyScope, API_KEY_SCOPES, generateApiKey, hashApiKey } from './ApiKey';
+export { RateLimitCounter, IRateLimitCounter, IRateLimitCounterModel } from './RateLimitCounter';
+export { TokenBucket, ITokenBucket, ITokenBucketModel, TokenBucketPolicy } from './TokenBucket';
+export { BlockTime, IBlockTime } from './BlockTime';
+export { IndexerCursor, IIndexerCursor } from './IndexerCursor';
+export { AnchorBatch, IAnchorBatch } from './AnchorBatch';